@@ -24,30 +24,24 @@ const targetEditor = new CodeMirror(targetEditorTextArea, {
   value: editorContents
 });
 
-const remoteCursorManager = new CodeMirrorCollabExt.RemoteCursorManager({
+const remoteUserManager = new CodeMirrorCollabExt.RemoteUserManager({
   editor: targetEditor,
   tooltips: true,
   tooltipDuration: 2
 });
-const sourceUserCursor = remoteCursorManager.addCursor(sourceUser.id, sourceUser.color, sourceUser.label);
-const staticUserCursor = remoteCursorManager.addCursor(staticUser.id, staticUser.color, staticUser.label);
+const sourceRemoteUser = remoteUserManager.addUser(sourceUser.id, sourceUser.color, sourceUser.label);
+const staticRemoteUser = remoteUserManager.addUser(staticUser.id, staticUser.color, staticUser.label);
 
-staticUserCursor.setIndex(50);
+staticRemoteUser.getCursor().setIndex(50);
 
-const remoteSelectionManager = new CodeMirrorCollabExt.RemoteSelectionManager({editor: targetEditor});
-const sourceUserSelection = remoteSelectionManager.addSelection(sourceUser.id, sourceUser.color);
-remoteSelectionManager.addSelection(staticUser.id, staticUser.color);
-
-
-sourceEditor.on("cursorActivity", () => {
-  setTimeout(() => {
-    sourceUserCursor.setPosition(sourceEditor.getCursor());
-
-    sourceUserSelection.setPositions(
-      sourceEditor.getCursor("from"),
-      sourceEditor.getCursor("to")
-    );
-  }, 0);
+const sourceSelectionManager = new CodeMirrorCollabExt.LocalSelectionManager({
+  editor: sourceEditor,
+  onSelectionChanged(selection) {
+    sourceRemoteUser.update({
+      cursor: selection.cursor,
+      selections: selection.ranges
+    });
+  }
 });
 
 const targetContentManager = new CodeMirrorCollabExt.EditorContentManager({
@@ -0,0 +1,92 @@
+/*
+ * Copyright (c) 2019 Convergence Labs, Inc.
+ *
+ * This file is part of the CodeMirror Collaborative Extensions, which is
+ * released under the terms of the MIT license. A copy of the MIT license
+ * is usually provided as part of this source code package in the LICENCE
+ * file. If it was not, please see <https://opensource.org/licenses/MIT>
+ */
+
+import {expect} from "chai";
+import * as CodeMirror from "codemirror";
+import {AttributionTracker} from "../ts/AttributionTracker";
+import {EditorContentManager} from "../ts/EditorContentManager";
+
+/**
+ * Waits for CodeMirror to report the changes of documents that are not shown
+ * in an editor.
+ */
+function waitForChanges(): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, 10));
+}
+
+describe("AttributionTracker", () => {
+
+  let editor: CodeMirror.Editor;
+  let contentManager: EditorContentManager;
+  let tracker: AttributionTracker;
+
+  beforeEach(() => {
+    editor = CodeMirror(document.body, {value: "hello world"});
+    contentManager = new EditorContentManager({editor});
+    tracker = new AttributionTracker({editor, contentManager, localAuthor: "me"});
+  });
+
+  afterEach(() => {
+    tracker.dispose();
+    contentManager.dispose();
+    editor.getWrapperElement().remove();
+  });
+
+  it("attributes local and remote edits to their authors", () => {
+    editor.replaceRange("ab", {line: 0, ch: 5});
+    contentManager.applyOperations([{type: "insert", index: 0, text: "R"}], "bob");
+
+    expect(tracker.getSpans()).to.deep.equal([
+      {author: "bob", start: 0, end: 1},
+      {author: "me", start: 6, end: 8}
+    ]);
+  });
+
+  it("ignores changes cancelled by another beforeChange handler", () => {
+    editor.on("beforeChange", (_, changeObj) => {
+      if (changeObj.text.join("\n") === "x") {
+        changeObj.cancel();
+      }
+    });
+
+    editor.replaceRange("x", {line: 0, ch: 0});
+    editor.replaceRange("ab", {line: 0, ch: 5});
+
+    expect(editor.getValue()).to.equal("helloab world");
+    expect(tracker.getSpans()).to.deep.equal([{author: "me", start: 5, end: 7}]);
+  });
+
+  it("attributes changes made through a linked document while other changes are pending", () => {
+    const linked = editor.getDoc().linkedDoc({sharedHist: false, mode: undefined});
+
+    editor.operation(() => {
+      contentManager.applyOperations([{type: "insert", index: 0, text: "R"}], "bob");
+      linked.replaceRange("L", {line: 0, ch: 3});
+    });
+
+    expect(editor.getValue()).to.equal("RheLllo world");
+    expect(tracker.getSpans()).to.deep.equal([
+      {author: "bob", start: 0, end: 1},
+      {author: "me", start: 3, end: 4}
+    ]);
+  });
+
+  it("attributes remote edits to a document that is not shown", async () => {
+    editor.swapDoc(CodeMirror.Doc("other"));
+
+    contentManager.applyOperations([{type: "insert", index: 0, text: "R"}], "bob");
+    contentManager.applyOperations([{type: "insert", index: 6, text: "S"}], "alice");
+    await waitForChanges();
+
+    expect(tracker.getSpans()).to.deep.equal([
+      {author: "bob", start: 0, end: 1},
+      {author: "alice", start: 6, end: 7}
+    ]);
+  });
+});
@@ -0,0 +1,176 @@
+/*
+ * Copyright (c) 2019 Convergence Labs, Inc.
+ *
+ * This file is part of the CodeMirror Collaborative Extensions, which is
+ * released under the terms of the MIT license. A copy of the MIT license
+ * is usually provided as part of this source code package in the LICENCE
+ * file. If it was not, please see <https://opensource.org/licenses/MIT>
+ */
+
+import {expect} from "chai";
+import * as CodeMirror from "codemirror";
+import {CollaborationBinding} from "../ts/CollaborationBinding";
+import {InMemoryChannel} from "../ts/InMemoryChannel";
+import {MessageCodec} from "../ts/MessageCodec";
+
+describe("CollaborationBinding", () => {
+
+  let channel: InMemoryChannel;
+  let aliceEditor: CodeMirror.Editor;
+  let bobEditor: CodeMirror.Editor;
+  let alice: CollaborationBinding;
+  let bob: CollaborationBinding;
+  let aliceHandlers: Map<string, number>;
+
+  /**
+   * Gets the carets of the remote users shown in an editor.
+   */
+  function getCarets(editor: CodeMirror.Editor): HTMLElement[] {
+    const carets = editor.getWrapperElement().querySelectorAll(".codemirror-remote-cursor");
+    return Array.prototype.slice.call(carets);
+  }
+
+  /**
+   * Counts the handlers registered on an editor, by event.
+   */
+  function countHandlers(editor: CodeMirror.Editor): Map<string, number> {
+    const counts = new Map<string, number>();
+    const emitter = editor as {on: EventRegistration, off: EventRegistration};
+    const on = emitter.on;
+    const off = emitter.off;
+    emitter.on = function(event: string, handler: () => void): void {
+      counts.set(event, (counts.get(event) || 0) + 1);
+      on.call(this, event, handler);
+    };
+    emitter.off = function(event: string, handler: () => void): void {
+      counts.set(event, (counts.get(event) || 0) - 1);
+      off.call(this, event, handler);
+    };
+    return counts;
+  }
+
+  /**
+   * Waits for throttled selection messages to be sent.
+   */
+  function waitForSelections(): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, 10));
+  }
+
+  beforeEach(() => {
+    channel = new InMemoryChannel();
+    aliceEditor = CodeMirror(document.body, {value: "hello world"});
+    bobEditor = CodeMirror(document.body, {value: "hello world"});
+    aliceHandlers = countHandlers(aliceEditor);
+    alice = new CollaborationBinding({
+      editor: aliceEditor,
+      transport: channel.createTransport(),
+      userId: "alice",
+      user: {color: "orange", label: "Alice"}
+    });
+    bob = new CollaborationBinding({
+      editor: bobEditor,
+      transport: channel.createTransport(),
+      userId: "bob",
+      user: {color: "blue", label: "Bob"}
+    });
+  });
+
+  afterEach(() => {
+    alice.dispose();
+    bob.dispose();
+    aliceEditor.getWrapperElement().remove();
+    bobEditor.getWrapperElement().remove();
+  });
+
+  describe("join", () => {
+    it("shows each user in the other's editor", () => {
+      const [bobCaret] = getCarets(aliceEditor);
+      const [aliceCaret] = getCarets(bobEditor);
+
+      expect((bobCaret.firstChild as HTMLElement).style.background).to.equal("blue");
+      expect((aliceCaret.firstChild as HTMLElement).style.background).to.equal("orange");
+    });
+
+    it("keeps a user that joins again with the same color and label", () => {
+      const [caret] = getCarets(aliceEditor);
+      channel.createTransport().send(MessageCodec.encode({type: "join", userId: "bob", color: "blue", label: "Bob"}));
+
+      expect(getCarets(aliceEditor)).to.deep.equal([caret]);
+    });
+
+    it("replaces a user that joins again with another color", () => {
+      const [caret] = getCarets(aliceEditor);
+      channel.createTransport().send(MessageCodec.encode({type: "join", userId: "bob", color: "green", label: "Bob"}));
+
+      expect(caret.parentNode).to.equal(null);
+    });
+  });
+
+  describe("sync", () => {
+    it("applies the content changes of other users", () => {
+      aliceEditor.replaceRange("!", {line: 0, ch: 11});
+      bobEditor.replaceRange(">> ", {line: 0, ch: 0});
+
+      expect(aliceEditor.getValue()).to.equal(">> hello world!");
+      expect(bobEditor.getValue()).to.equal(">> hello world!");
+    });
+
+    it("shows the selections of other users", async () => {
+      aliceEditor.setSelection({line: 0, ch: 0}, {line: 0, ch: 5});
+      await waitForSelections();
+
+      // The carets are bookmarks, whose find() returns a position.
+      const ranges = bobEditor.getAllMarks().map((mark) => mark.find()).filter((range) => range.from !== undefined);
+      expect(ranges).to.deep.equal([{from: {line: 0, ch: 0, sticky: null}, to: {line: 0, ch: 5, sticky: null}}]);
+    });
+
+    it("reports messages that can not be decoded", () => {
+      const errors: string[] = [];
+      const carolChannel = new InMemoryChannel();
+      const carolEditor = CodeMirror(document.body);
+      const carol = new CollaborationBinding({
+        editor: carolEditor,
+        transport: carolChannel.createTransport(),
+        userId: "carol",
+        onMessageError: (_, message) => errors.push(message)
+      });
+
+      carolChannel.createTransport().send("not a message");
+      carol.dispose();
+      carolEditor.getWrapperElement().remove();
+
+      expect(errors).to.deep.equal(["not a message"]);
+    });
+  });
+
+  describe("leave", () => {
+    it("removes a user that left", () => {
+      bob.dispose();
+
+      expect(getCarets(aliceEditor)).to.deep.equal([]);
+      bobEditor.replaceRange("!", {line: 0, ch: 11});
+      expect(aliceEditor.getValue()).to.equal("hello world");
+    });
+  });
+
+  describe("dispose", () => {
+    it("removes its listeners from the editor", () => {
+      alice.dispose();
+
+      aliceHandlers.forEach((count, event) => expect(count, event).to.equal(0));
+      expect(getCarets(aliceEditor)).to.deep.equal([]);
+    });
+
+    it("stops applying the messages of other users", () => {
+      alice.dispose();
+      bobEditor.replaceRange("!", {line: 0, ch: 11});
+
+      expect(aliceEditor.getValue()).to.equal("hello world");
+    });
+  });
+});
+
+/**
+ * The signature of CodeMirror's on and off methods.
+ */
+type EventRegistration = (event: string, handler: () => void) => void;
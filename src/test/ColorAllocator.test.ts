@@ -0,0 +1,83 @@
+/*
+ * Copyright (c) 2019 Convergence Labs, Inc.
+ *
+ * This file is part of the CodeMirror Collaborative Extensions, which is
+ * released under the terms of the MIT license. A copy of the MIT license
+ * is usually provided as part of this source code package in the LICENCE
+ * file. If it was not, please see <https://opensource.org/licenses/MIT>
+ */
+
+import {expect} from "chai";
+import * as CodeMirror from "codemirror";
+import {ColorAllocator} from "../ts/ColorAllocator";
+
+describe("ColorAllocator", () => {
+
+  it("gives a user the same color until all of its allocations are released", () => {
+    const allocator = new ColorAllocator();
+    const color = allocator.allocate("bob");
+
+    expect(allocator.allocate("bob")).to.equal(color);
+    allocator.release("bob");
+    expect(allocator.getColor("bob")).to.equal(color);
+    allocator.release("bob");
+    expect(allocator.getColor("bob")).to.equal(null);
+  });
+
+  it("gives a user the same color in every session", () => {
+    expect(new ColorAllocator().allocate("bob")).to.equal(new ColorAllocator().allocate("bob"));
+  });
+
+  it("does not give two users the same color", () => {
+    const allocator = new ColorAllocator();
+    const colors = new Array(30).fill(0).map((_, i) => allocator.allocate(`user${i}`).toLowerCase());
+
+    expect(new Set(colors).size).to.equal(30);
+    ColorAllocator.LIGHT_PALETTE.forEach((color) => expect(colors).to.contain(color.toLowerCase()));
+  });
+
+  it("picks the default palette that suits the background", () => {
+    expect(ColorAllocator.LIGHT_PALETTE).to.contain(new ColorAllocator({background: "#FFFFFF"}).allocate("bob"));
+    expect(ColorAllocator.DARK_PALETTE).to.contain(new ColorAllocator({background: "#202020"}).allocate("bob"));
+  });
+
+  it("reads the background from the editor", () => {
+    const editor = CodeMirror(document.body);
+    editor.getWrapperElement().style.backgroundColor = "rgb(32, 32, 32)";
+
+    expect(ColorAllocator.DARK_PALETTE).to.contain(new ColorAllocator({editor}).allocate("bob"));
+    editor.getWrapperElement().remove();
+  });
+
+  it("skips the colors of the palette that do not contrast with the background", () => {
+    const allocator = new ColorAllocator({background: "#000000", palette: ["#101010", "#FFFFFF"]});
+
+    expect(allocator.allocate("bob")).to.equal("#FFFFFF");
+    expect(allocator.allocate("alice")).to.not.equal("#101010");
+  });
+
+  it("uses the palette as it is if none of its colors contrast with the background", () => {
+    const allocator = new ColorAllocator({background: "#FFFFFF", palette: ["#FEFEFE"]});
+
+    expect(allocator.allocate("bob")).to.equal("#FEFEFE");
+  });
+
+  it("generates colors once the palette runs out", () => {
+    const allocator = new ColorAllocator({background: "#FFFFFF", palette: ["#D32F2F"]});
+    allocator.allocate("bob");
+
+    const color = allocator.allocate("alice");
+    expect(color).to.match(/^#[0-9a-f]{6}$/);
+    expect(color).to.not.equal(allocator.allocate("carol"));
+  });
+
+  it("gets a text color that is readable on a background", () => {
+    expect(ColorAllocator.getContrastingTextColor("#202020")).to.equal("#FFFFFF");
+    expect(ColorAllocator.getContrastingTextColor("#FFFF8D")).to.equal("#000000");
+  });
+
+  it("rejects invalid options", () => {
+    expect(() => new ColorAllocator({palette: [1 as any]})).to.throw("options.palette[0] must be a string");
+    expect(() => new ColorAllocator({minContrast: "2" as any})).to.throw("options.minContrast must be a number");
+  });
+});
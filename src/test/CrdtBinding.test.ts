@@ -0,0 +1,92 @@
+/*
+ * Copyright (c) 2019 Convergence Labs, Inc.
+ *
+ * This file is part of the CodeMirror Collaborative Extensions, which is
+ * released under the terms of the MIT license. A copy of the MIT license
+ * is usually provided as part of this source code package in the LICENCE
+ * file. If it was not, please see <https://opensource.org/licenses/MIT>
+ */
+
+import {expect} from "chai";
+import * as CodeMirror from "codemirror";
+import {CrdtBinding} from "../ts/CrdtBinding";
+import {CrdtDocument} from "../ts/CrdtDocument";
+import {ICrdtUpdate} from "../ts/CrdtUpdate";
+
+describe("CrdtBinding", () => {
+
+  let editor: CodeMirror.Editor;
+  let crdtDocument: CrdtDocument;
+  let binding: CrdtBinding;
+  let updates: ICrdtUpdate[];
+
+  beforeEach(() => {
+    editor = CodeMirror(document.body);
+    crdtDocument = new CrdtDocument(1);
+    crdtDocument.insert(0, "hello world");
+    updates = [];
+    binding = new CrdtBinding({editor, document: crdtDocument, onUpdate: (update) => updates.push(update)});
+  });
+
+  afterEach(() => {
+    binding.dispose();
+    editor.getWrapperElement().remove();
+  });
+
+  it("loads the document into the editor", () => {
+    expect(editor.getValue()).to.equal("hello world");
+  });
+
+  it("does not replace an editor whose text only differs in line separators", () => {
+    const crlfEditor = CodeMirror(document.body, {
+      value: "one\r\ntwo",
+      lineSeparator: "\r\n"
+    } as CodeMirror.EditorConfiguration);
+    const crlfDocument = new CrdtDocument(2);
+    crlfDocument.insert(0, "one\ntwo");
+    const history = crlfEditor.getDoc().historySize().undo;
+
+    const crlfBinding = new CrdtBinding({editor: crlfEditor, document: crlfDocument, onUpdate: () => undefined});
+    expect(crlfEditor.getDoc().historySize().undo).to.equal(history);
+
+    crlfBinding.dispose();
+    crlfEditor.getWrapperElement().remove();
+  });
+
+  it("sends local changes as updates", () => {
+    const other = new CrdtDocument(2);
+    other.applyUpdate(crdtDocument.getUpdate());
+
+    editor.replaceRange("!", {line: 0, ch: 11});
+    updates.forEach((update) => other.applyUpdate(update));
+
+    expect(crdtDocument.getText()).to.equal("hello world!");
+    expect(other.getText()).to.equal("hello world!");
+  });
+
+  it("applies updates from other copies without sending them", () => {
+    const other = new CrdtDocument(2);
+    other.applyUpdate(crdtDocument.getUpdate());
+
+    binding.applyUpdate(other.insert(0, "oh, "));
+
+    expect(editor.getValue()).to.equal("oh, hello world");
+    expect(updates).to.deep.equal([]);
+  });
+
+  it("reports local changes made in the same operation before applying an update", () => {
+    const other = new CrdtDocument(2);
+    other.applyUpdate(crdtDocument.getUpdate());
+    const update = other.insert(11, "!");
+
+    editor.operation(() => {
+      editor.replaceRange("A", {line: 0, ch: 0});
+      binding.applyUpdate(update);
+    });
+    updates.forEach((local) => other.applyUpdate(local));
+
+    expect(editor.getValue()).to.equal("Ahello world!");
+    expect(crdtDocument.getText()).to.equal("Ahello world!");
+    expect(other.getText()).to.equal("Ahello world!");
+  });
+});
@@ -0,0 +1,159 @@
+/*
+ * Copyright (c) 2019 Convergence Labs, Inc.
+ *
+ * This file is part of the CodeMirror Collaborative Extensions, which is
+ * released under the terms of the MIT license. A copy of the MIT license
+ * is usually provided as part of this source code package in the LICENCE
+ * file. If it was not, please see <https://opensource.org/licenses/MIT>
+ */
+
+import {expect} from "chai";
+import {ContentOperation} from "../ts/ContentOperation";
+import {CrdtDocument} from "../ts/CrdtDocument";
+import {CrdtOperation, ICrdtUpdate} from "../ts/CrdtUpdate";
+
+describe("CrdtDocument", () => {
+
+  // Applies the changes reported by applyUpdate to a string, as an editor
+  // would.
+  function applyChanges(text: string, changes: ContentOperation[]): string {
+    return changes.reduce((result, change) => {
+      const length = change.type === "insert" ? 0 : change.length;
+      const inserted = change.type === "delete" ? "" : change.text;
+      return result.slice(0, change.index) + inserted + result.slice(change.index + length);
+    }, text);
+  }
+
+  function sync(from: CrdtDocument, to: CrdtDocument): void {
+    to.applyUpdate(from.getUpdate(to.getStateVector()));
+  }
+
+  it("edits the local copy", () => {
+    const doc = new CrdtDocument(1);
+    doc.insert(0, "hello");
+    doc.insert(5, " world");
+    doc.delete(0, 1);
+    expect(doc.getText()).to.equal("ello world");
+    expect(doc.getLength()).to.equal(10);
+  });
+
+  it("converges when concurrent inserts are applied in different orders", () => {
+    const a = new CrdtDocument(1);
+    const b = new CrdtDocument(2);
+    const c = new CrdtDocument(3);
+    const base = a.insert(0, "ac");
+    b.applyUpdate(base);
+    c.applyUpdate(base);
+
+    const fromA = a.insert(1, "X");
+    const fromB = b.insert(1, "Y");
+    const fromC = c.delete(0, 1);
+
+    a.applyUpdate(fromB);
+    a.applyUpdate(fromC);
+    b.applyUpdate(fromC);
+    b.applyUpdate(fromA);
+    c.applyUpdate(fromA);
+    c.applyUpdate(fromB);
+
+    expect(b.getText()).to.equal(a.getText());
+    expect(c.getText()).to.equal(a.getText());
+    expect(a.getText().replace(/[XY]/g, "")).to.equal("c");
+  });
+
+  it("converges when the same text is deleted concurrently", () => {
+    const a = new CrdtDocument(1);
+    const b = new CrdtDocument(2);
+    b.applyUpdate(a.insert(0, "abcdef"));
+
+    const fromA = a.delete(1, 3);
+    const fromB = b.delete(2, 3);
+    a.applyUpdate(fromB);
+    b.applyUpdate(fromA);
+
+    expect(a.getText()).to.equal("af");
+    expect(b.getText()).to.equal("af");
+  });
+
+  it("reports the changes an update makes to the text", () => {
+    const a = new CrdtDocument(1);
+    const b = new CrdtDocument(2);
+    b.applyUpdate(a.insert(0, "hello world"));
+    const text = b.getText();
+
+    const update: ICrdtUpdate = {operations: []};
+    [a.delete(0, 6), a.insert(0, "goodbye "), a.insert(13, "!")].forEach((u) => {
+      update.operations = update.operations.concat(u.operations);
+    });
+
+    expect(applyChanges(text, b.applyUpdate(update))).to.equal("goodbye world!");
+  });
+
+  it("buffers operations until the operations they depend on arrive", () => {
+    const a = new CrdtDocument(1);
+    const b = new CrdtDocument(2);
+    const first = a.insert(0, "ab");
+    const second = a.insert(1, "X");
+
+    expect(b.applyUpdate(second)).to.deep.equal([]);
+    expect(b.hasPendingOperations()).to.equal(true);
+
+    b.applyUpdate(first);
+    expect(b.getText()).to.equal("aXb");
+    expect(b.hasPendingOperations()).to.equal(false);
+  });
+
+  it("ignores operations that were already applied", () => {
+    const a = new CrdtDocument(1);
+    const b = new CrdtDocument(2);
+    const update = a.insert(0, "ab");
+    b.applyUpdate(update);
+
+    expect(b.applyUpdate(update)).to.deep.equal([]);
+    expect(b.getText()).to.equal("ab");
+  });
+
+  it("sends only the operations another copy is missing", () => {
+    const a = new CrdtDocument(1);
+    const b = new CrdtDocument(2);
+    a.insert(0, "abc");
+    sync(a, b);
+    a.insert(3, "d");
+
+    expect(a.getUpdate(b.getStateVector()).operations.length).to.equal(1);
+    sync(a, b);
+    expect(b.getText()).to.equal("abcd");
+  });
+
+  it("resolves relative positions after concurrent edits", () => {
+    const a = new CrdtDocument(1);
+    const b = new CrdtDocument(2);
+    b.applyUpdate(a.insert(0, "hello world"));
+
+    const position = b.getRelativePosition(6);
+    b.applyUpdate(a.insert(0, ">> "));
+    expect(b.resolveRelativePosition(position)).to.equal(9);
+    expect(b.resolveRelativePosition({item: {client: 9, clock: 0}})).to.equal(null);
+  });
+
+  it("rejects invalid operations", () => {
+    const doc = new CrdtDocument(1);
+    expect(() => doc.applyUpdate({operations: [{type: "insert", id: {client: 2, clock: 0}, lamport: 0,
+      origin: null, text: ""}]})).to.throw("operation.text must not be empty");
+    expect(() => doc.delete(0, 1)).to.throw();
+  });
+
+  it("rejects operations whose fields are not objects", () => {
+    const doc = new CrdtDocument(1);
+    const invalid: unknown[] = [
+      {type: "insert", id: null, lamport: 0, origin: null, text: "a"},
+      {type: "insert", id: {client: 2, clock: 0}, lamport: 0, text: "a"},
+      {type: "delete", id: {client: 2, clock: 0}, targets: [null]},
+      {type: "move", id: {client: 2, clock: 0}}
+    ];
+    invalid.forEach((op) => {
+      expect(() => doc.applyUpdate({operations: [op as CrdtOperation]}), JSON.stringify(op)).to.throw();
+    });
+    expect(doc.getText()).to.equal("");
+  });
+});
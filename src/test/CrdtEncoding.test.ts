@@ -0,0 +1,34 @@
+/*
+ * Copyright (c) 2019 Convergence Labs, Inc.
+ *
+ * This file is part of the CodeMirror Collaborative Extensions, which is
+ * released under the terms of the MIT license. A copy of the MIT license
+ * is usually provided as part of this source code package in the LICENCE
+ * file. If it was not, please see <https://opensource.org/licenses/MIT>
+ */
+
+import {expect} from "chai";
+import {CrdtDocument} from "../ts/CrdtDocument";
+import {CrdtEncoding} from "../ts/CrdtEncoding";
+
+describe("CrdtEncoding", () => {
+
+  it("round trips updates", () => {
+    const doc = new CrdtDocument(1);
+    doc.insert(0, "héllo ✓");
+    doc.delete(1, 2);
+    const update = doc.getUpdate();
+
+    expect(CrdtEncoding.decodeUpdate(CrdtEncoding.encodeUpdate(update))).to.deep.equal(update);
+  });
+
+  it("round trips state vectors", () => {
+    const stateVector = {1: 5, 4000000000: 300};
+    expect(CrdtEncoding.decodeStateVector(CrdtEncoding.encodeStateVector(stateVector))).to.deep.equal(stateVector);
+  });
+
+  it("rejects truncated data", () => {
+    const data = CrdtEncoding.encodeUpdate(new CrdtDocument(1).insert(0, "abc"));
+    expect(() => CrdtEncoding.decodeUpdate(data.slice(0, data.length - 1))).to.throw();
+  });
+});
@@ -0,0 +1,65 @@
+/*
+ * Copyright (c) 2019 Convergence Labs, Inc.
+ *
+ * This file is part of the CodeMirror Collaborative Extensions, which is
+ * released under the terms of the MIT license. A copy of the MIT license
+ * is usually provided as part of this source code package in the LICENCE
+ * file. If it was not, please see <https://opensource.org/licenses/MIT>
+ */
+
+import {expect} from "chai";
+import * as CodeMirror from "codemirror";
+import {DocumentVerifier} from "../ts/DocumentVerifier";
+
+describe("DocumentVerifier", () => {
+
+  let editor: CodeMirror.Editor;
+
+  afterEach(() => {
+    editor.getWrapperElement().remove();
+  });
+
+  function createVerifier(value: string, lineSeparator: string | null = null): DocumentVerifier {
+    // The typings don't declare the lineSeparator option.
+    editor = CodeMirror(document.body, {value, lineSeparator} as CodeMirror.EditorConfiguration);
+    return new DocumentVerifier({editor, getVersion: () => 3});
+  }
+
+  it("matches the checksum of the same content", () => {
+    const verifier = createVerifier("hello\nworld");
+    const checksum = {version: 3, length: 11, hash: DocumentVerifier.hash("hello\nworld")};
+
+    expect(verifier.getChecksum()).to.deep.equal(checksum);
+    expect(verifier.verifyChecksum(checksum)).to.equal(true);
+    expect(verifier.verifyChecksum({...checksum, hash: checksum.hash + 1})).to.equal(false);
+  });
+
+  it("separates lines with a line feed regardless of the line separator", () => {
+    const verifier = createVerifier("hello\r\nworld", "\r\n");
+
+    expect(verifier.getChecksum()).to.deep.equal({version: 3, length: 11, hash: DocumentVerifier.hash("hello\nworld")});
+    expect(verifier.getSnapshot().content).to.equal("hello\nworld");
+  });
+
+  it("rejects checksums of other versions", () => {
+    const verifier = createVerifier("hello");
+    expect(() => verifier.verifyChecksum({version: 2, length: 5, hash: 0})).to.throw("Can not verify version 2");
+  });
+
+  it("finds the text that diverged", () => {
+    const verifier = createVerifier("hello big world");
+    expect(verifier.verifySnapshot({version: 3, content: "hello small world"})).to.deep.equal({
+      version: 3,
+      index: 6,
+      localText: "big",
+      remoteText: "small"
+    });
+    expect(verifier.verifySnapshot({version: 3, content: "hello big world"})).to.equal(null);
+  });
+
+  it("resynchronizes the editor with a snapshot", () => {
+    const verifier = createVerifier("hello big world");
+    verifier.resync({version: 3, content: "hello small world"});
+    expect(editor.getValue()).to.equal("hello small world");
+  });
+});
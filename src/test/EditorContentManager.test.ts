@@ -0,0 +1,296 @@
+/*
+ * Copyright (c) 2019 Convergence Labs, Inc.
+ *
+ * This file is part of the CodeMirror Collaborative Extensions, which is
+ * released under the terms of the MIT license. A copy of the MIT license
+ * is usually provided as part of this source code package in the LICENCE
+ * file. If it was not, please see <https://opensource.org/licenses/MIT>
+ */
+
+import {expect} from "chai";
+import * as CodeMirror from "codemirror";
+import {ContentOperation} from "../ts/ContentOperation";
+import {EditorContentManager} from "../ts/EditorContentManager";
+import {IRemoteChange} from "../ts/IEditorContentManagerEvents";
+
+/**
+ * Records the local and remote changes a content manager reports, in order,
+ * and replays them onto a copy of the text of the document.
+ */
+function recordChanges(contentManager: EditorContentManager): {log: string[], text: string} {
+  const changes = {log: [] as string[], text: contentManager.getDoc().getValue()};
+  const replay = (source: string, operation: ContentOperation) => {
+    const text = operation.type !== "delete" ? operation.text : "";
+    const length = operation.type !== "insert" ? operation.length : 0;
+    changes.log.push(`${source} ${operation.type} ${operation.index} ${text || length}`);
+    changes.text = changes.text.substring(0, operation.index) + text + changes.text.substring(operation.index + length);
+  };
+
+  contentManager.on("localChange", (operation) => replay("local", operation));
+  contentManager.on("remoteChangeApplied", ({operations}) => operations.forEach((op) => replay("remote", op)));
+  return changes;
+}
+
+/**
+ * Waits for CodeMirror to report the changes of documents that are not shown
+ * in an editor.
+ */
+function waitForChanges(): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, 10));
+}
+
+describe("EditorContentManager", () => {
+
+  let editor: CodeMirror.Editor;
+  let contentManager: EditorContentManager;
+  let localChanges: string[];
+
+  beforeEach(() => {
+    editor = CodeMirror(document.body, {value: "hello world"});
+    localChanges = [];
+    contentManager = new EditorContentManager({
+      editor,
+      onInsert: (index, text) => localChanges.push(`insert ${index} ${text}`),
+      onReplace: (index, length, text) => localChanges.push(`replace ${index} ${length} ${text}`),
+      onDelete: (index, length) => localChanges.push(`delete ${index} ${length}`)
+    });
+  });
+
+  afterEach(() => {
+    contentManager.dispose();
+    editor.getWrapperElement().remove();
+  });
+
+  it("reports local changes", () => {
+    editor.replaceRange("big ", {line: 0, ch: 6});
+    editor.replaceRange("", {line: 0, ch: 0}, {line: 0, ch: 6});
+    expect(localChanges).to.deep.equal(["insert 6 big ", "delete 0 6"]);
+  });
+
+  it("does not report remote changes", () => {
+    contentManager.insert(0, "oh, ");
+    expect(editor.getValue()).to.equal("oh, hello world");
+    expect(localChanges).to.deep.equal([]);
+  });
+
+  describe("applyOperations", () => {
+    it("applies operations relative to the original document", () => {
+      contentManager.applyOperations([
+        {type: "replace", index: 0, length: 5, text: "goodbye"},
+        {type: "insert", index: 11, text: "!"},
+        {type: "delete", index: 5, length: 1}
+      ]);
+      expect(editor.getValue()).to.equal("goodbyeworld!");
+      expect(localChanges).to.deep.equal([]);
+    });
+
+    it("rejects overlapping operations without applying any of them", () => {
+      const applied: IRemoteChange[] = [];
+      contentManager.on("remoteChangeApplied", (change) => applied.push(change));
+
+      expect(() => contentManager.applyOperations([
+        {type: "insert", index: 0, text: "A"},
+        {type: "delete", index: 2, length: 4},
+        {type: "replace", index: 4, length: 3, text: "B"}
+      ])).to.throw("operations[2] overlaps operations[1]");
+
+      expect(editor.getValue()).to.equal("hello world");
+      expect(applied).to.deep.equal([]);
+    });
+
+    it("rejects operations outside of the document without applying any of them", () => {
+      expect(() => contentManager.applyOperations([
+        {type: "insert", index: 0, text: "A"},
+        {type: "delete", index: 8, length: 4}
+      ])).to.throw("operations[1] is outside of the document");
+
+      expect(editor.getValue()).to.equal("hello world");
+    });
+
+    it("emits the operations and their author", () => {
+      const applied: IRemoteChange[] = [];
+      contentManager.on("remoteChangeApplied", (change) => applied.push(change));
+
+      contentManager.applyOperations([{type: "insert", index: 0, text: "A"}], "bob");
+      expect(applied).to.deep.equal([{operations: [{type: "insert", index: 0, text: "A"}], author: "bob"}]);
+    });
+  });
+
+  describe("reporting order", () => {
+    it("reports local changes before remote edits made in the same operation", () => {
+      const changes = recordChanges(contentManager);
+      editor.operation(() => {
+        editor.replaceRange("A", {line: 0, ch: 5});
+        contentManager.applyOperations([{type: "insert", index: 0, text: "R"}]);
+      });
+
+      expect(changes.log).to.deep.equal(["local insert 5 A", "remote insert 0 R"]);
+      expect(changes.text).to.equal(editor.getValue());
+    });
+
+    it("reports local changes before remote edits to a document that is not shown in an editor", async () => {
+      const doc = CodeMirror.Doc("hello world");
+      const docContentManager = new EditorContentManager({doc});
+      const changes = recordChanges(docContentManager);
+
+      doc.replaceRange("A", {line: 0, ch: 5});
+      docContentManager.applyOperations([{type: "insert", index: 0, text: "R"}]);
+      await waitForChanges();
+      doc.replaceRange("!", {line: 0, ch: 13});
+      await waitForChanges();
+
+      expect(changes.log).to.deep.equal(["local insert 5 A", "remote insert 0 R", "local insert 13 !"]);
+      expect(changes.text).to.equal("RhelloA world!");
+      docContentManager.dispose();
+    });
+
+    it("keeps reporting the changes of its document after it is swapped out of the editor", async () => {
+      const changes = recordChanges(contentManager);
+      const doc = editor.swapDoc(CodeMirror.Doc("other"));
+
+      doc.replaceRange("A", {line: 0, ch: 5});
+      contentManager.insert(0, "R");
+      editor.replaceRange("B", {line: 0, ch: 0});
+      await waitForChanges();
+
+      expect(changes.log).to.deep.equal(["local insert 5 A", "remote insert 0 R"]);
+      expect(changes.text).to.equal("RhelloA world");
+      expect(doc.getValue()).to.equal("RhelloA world");
+    });
+  });
+
+  describe("linked documents", () => {
+    it("reports changes made through a linked document", async () => {
+      const changes = recordChanges(contentManager);
+      const linked = editor.getDoc().linkedDoc({sharedHist: false, mode: undefined});
+
+      linked.replaceRange("A", {line: 0, ch: 0});
+      linked.replaceRange("B", {line: 0, ch: 12});
+      editor.replaceRange("C", {line: 0, ch: 6});
+      await waitForChanges();
+
+      expect(changes.log).to.deep.equal(["local insert 0 A", "local insert 12 B", "local insert 6 C"]);
+      expect(changes.text).to.equal(editor.getValue());
+    });
+
+    it("reports changes made through a linked document while its document is not shown", async () => {
+      const changes = recordChanges(contentManager);
+      const doc = editor.swapDoc(CodeMirror.Doc("other"));
+      const linked = doc.linkedDoc({sharedHist: false, mode: undefined});
+
+      doc.replaceRange("A", {line: 0, ch: 0});
+      linked.replaceRange("B", {line: 0, ch: 12});
+      contentManager.insert(0, "R");
+      linked.replaceRange("C", {line: 0, ch: 0});
+      await waitForChanges();
+
+      expect(changes.log).to.deep.equal([
+        "local insert 0 A", "local insert 12 B", "remote insert 0 R", "local insert 0 C"
+      ]);
+      expect(changes.text).to.equal(doc.getValue());
+    });
+
+    it("reports changes made in another editor while the events of its document are pending", async () => {
+      const changes = recordChanges(contentManager);
+      const doc = editor.swapDoc(CodeMirror.Doc("other"));
+      const otherEditor = CodeMirror(document.body);
+      otherEditor.swapDoc(doc.linkedDoc({sharedHist: false, mode: undefined}));
+
+      contentManager.insert(0, "R");
+      otherEditor.replaceRange("A", {line: 0, ch: 1});
+      await waitForChanges();
+
+      expect(changes.log).to.deep.equal(["remote insert 0 R", "local insert 1 A"]);
+      expect(changes.text).to.equal(doc.getValue());
+      otherEditor.getWrapperElement().remove();
+    });
+
+    it("reports the changes of a sub-view relative to the sub-view", async () => {
+      editor.setValue("zero\none\ntwo\nthree");
+      const parent = editor.getDoc();
+      const subView = parent.linkedDoc({from: 1, to: 3, mode: undefined});
+      const subViewContentManager = new EditorContentManager({doc: subView});
+      const changes = recordChanges(subViewContentManager);
+
+      parent.replaceRange("0", {line: 0, ch: 4});
+      parent.replaceRange("new\n", {line: 0, ch: 0});
+      parent.replaceRange("!", {line: 2, ch: 3});
+      parent.replaceRange("", {line: 1, ch: 2}, {line: 2, ch: 1});
+      subView.replaceRange("x", {line: subView.lastLine(), ch: 0});
+      await waitForChanges();
+
+      expect(changes.log).to.deep.equal(["local insert 3 !", "local delete 0 1", "local insert 4 x"]);
+      expect(changes.text).to.equal(subView.getValue());
+      subViewContentManager.dispose();
+    });
+  });
+
+  describe("selective undo", () => {
+    let selectiveContentManager: EditorContentManager;
+
+    beforeEach(() => {
+      selectiveContentManager = new EditorContentManager({editor, selectiveUndo: true});
+    });
+
+    afterEach(() => {
+      selectiveContentManager.dispose();
+    });
+
+    it("undoes and redoes local changes without reverting remote ones", () => {
+      editor.replaceRange("!", {line: 0, ch: 11});
+      selectiveContentManager.applyOperations([{type: "insert", index: 0, text: "oh, "}]);
+
+      selectiveContentManager.undo();
+      expect(editor.getValue()).to.equal("oh, hello world");
+      expect(selectiveContentManager.canUndo()).to.equal(false);
+
+      selectiveContentManager.redo();
+      expect(editor.getValue()).to.equal("oh, hello world!");
+    });
+
+    it("undoes the changes of one operation in one step", () => {
+      editor.operation(() => {
+        editor.replaceRange("A", {line: 0, ch: 0});
+        editor.replaceRange("B", {line: 0, ch: 12});
+      });
+
+      selectiveContentManager.undo();
+      expect(editor.getValue()).to.equal("hello world");
+    });
+
+    it("routes the undo and redo commands of the editor and document", () => {
+      editor.replaceRange("!", {line: 0, ch: 11});
+      selectiveContentManager.applyOperations([{type: "insert", index: 0, text: ">> "}]);
+
+      editor.execCommand("undo");
+      expect(editor.getValue()).to.equal(">> hello world");
+      editor.redo();
+      expect(editor.getValue()).to.equal(">> hello world!");
+      editor.getDoc().undo();
+      expect(editor.getValue()).to.equal(">> hello world");
+    });
+
+    it("restores the document's undo and redo when disposed", () => {
+      editor.replaceRange("!", {line: 0, ch: 11});
+      selectiveContentManager.dispose();
+
+      editor.execCommand("undo");
+      expect(editor.getValue()).to.equal("hello world");
+    });
+
+    it("reports whether there is something to undo or redo without reporting pending changes", () => {
+      expect(selectiveContentManager.canUndo()).to.equal(false);
+
+      editor.operation(() => {
+        editor.replaceRange("!", {line: 0, ch: 11});
+        expect(selectiveContentManager.canUndo()).to.equal(true);
+        expect(selectiveContentManager.canRedo()).to.equal(false);
+        expect(localChanges).to.deep.equal([]);
+      });
+
+      selectiveContentManager.undo();
+      expect(selectiveContentManager.canUndo()).to.equal(false);
+      expect(selectiveContentManager.canRedo()).to.equal(true);
+    });
+  });
+});
@@ -0,0 +1,82 @@
+/*
+ * Copyright (c) 2019 Convergence Labs, Inc.
+ *
+ * This file is part of the CodeMirror Collaborative Extensions, which is
+ * released under the terms of the MIT license. A copy of the MIT license
+ * is usually provided as part of this source code package in the LICENCE
+ * file. If it was not, please see <https://opensource.org/licenses/MIT>
+ */
+
+import {expect} from "chai";
+import {InMemoryChannel} from "../ts/InMemoryChannel";
+import {ITransport} from "../ts/ITransport";
+
+describe("InMemoryChannel", () => {
+
+  /**
+   * Records the messages a transport receives.
+   */
+  function receive(transport: ITransport): string[] {
+    const received: string[] = [];
+    transport.addMessageListener((message) => received.push(message));
+    return received;
+  }
+
+  it("delivers a message to every other transport before send returns", () => {
+    const channel = new InMemoryChannel();
+    const a = channel.createTransport();
+    const [fromA, fromB, fromC] = [a, channel.createTransport(), channel.createTransport()].map(receive);
+
+    a.send("hello");
+
+    expect(fromA).to.deep.equal([]);
+    expect(fromB).to.deep.equal(["hello"]);
+    expect(fromC).to.deep.equal(["hello"]);
+  });
+
+  it("stops delivering messages to and from a transport once it is removed", () => {
+    const channel = new InMemoryChannel();
+    const a = channel.createTransport();
+    const b = channel.createTransport();
+    const [fromA, fromB] = [a, b].map(receive);
+
+    channel.removeTransport(b);
+    a.send("to b");
+    b.send("to a");
+
+    expect(fromA).to.deep.equal([]);
+    expect(fromB).to.deep.equal([]);
+  });
+
+  it("stops calling a listener once it is removed", () => {
+    const channel = new InMemoryChannel();
+    const a = channel.createTransport();
+    const b = channel.createTransport();
+    const received: string[] = [];
+    const listener = (message: string) => received.push(message);
+
+    b.addMessageListener(listener);
+    a.send("first");
+    b.removeMessageListener(listener);
+    a.send("second");
+
+    expect(received).to.deep.equal(["first"]);
+  });
+
+  it("delivers messages asynchronously, in order, if requested", async () => {
+    const channel = new InMemoryChannel(true);
+    const a = channel.createTransport();
+    const b = channel.createTransport();
+    const c = channel.createTransport();
+    const [fromB, fromC] = [b, c].map(receive);
+
+    a.send("first");
+    a.send("second");
+    expect(fromB).to.deep.equal([]);
+    channel.removeTransport(c);
+
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    expect(fromB).to.deep.equal(["first", "second"]);
+    expect(fromC).to.deep.equal([]);
+  });
+});
@@ -0,0 +1,128 @@
+/*
+ * Copyright (c) 2019 Convergence Labs, Inc.
+ *
+ * This file is part of the CodeMirror Collaborative Extensions, which is
+ * released under the terms of the MIT license. A copy of the MIT license
+ * is usually provided as part of this source code package in the LICENCE
+ * file. If it was not, please see <https://opensource.org/licenses/MIT>
+ */
+
+import {expect} from "chai";
+import * as CodeMirror from "codemirror";
+import {ILocalSelection} from "../ts/ILocalSelection";
+import {LocalSelectionManager} from "../ts/LocalSelectionManager";
+
+/**
+ * Waits for the specified number of milliseconds.
+ */
+function wait(delay: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, delay));
+}
+
+describe("LocalSelectionManager", () => {
+
+  let editor: CodeMirror.Editor;
+  let selectionManager: LocalSelectionManager;
+  let emitted: ILocalSelection[];
+
+  function createSelectionManager(rateLimit: "debounce" | "throttle", delay: number): void {
+    selectionManager = new LocalSelectionManager({
+      editor,
+      rateLimit,
+      delay,
+      onSelectionChanged: (selection) => emitted.push(selection)
+    });
+  }
+
+  beforeEach(() => {
+    editor = CodeMirror(document.body, {value: "hello world\nsecond line"});
+    emitted = [];
+  });
+
+  afterEach(() => {
+    selectionManager.dispose();
+    editor.getWrapperElement().remove();
+  });
+
+  it("gets the cursor and selections with their indices", () => {
+    createSelectionManager("debounce", 0);
+    editor.setSelections([
+      {anchor: {line: 0, ch: 0}, head: {line: 0, ch: 5}},
+      {anchor: {line: 1, ch: 2}, head: {line: 1, ch: 2}}
+    ]);
+
+    expect(selectionManager.getSelection()).to.deep.equal({
+      cursor: {line: 0, ch: 5},
+      cursorIndex: 5,
+      ranges: [
+        {anchor: {line: 0, ch: 0}, head: {line: 0, ch: 5}, anchorIndex: 0, headIndex: 5},
+        {anchor: {line: 1, ch: 2}, head: {line: 1, ch: 2}, anchorIndex: 14, headIndex: 14}
+      ]
+    });
+  });
+
+  it("emits once the cursor has stopped moving for the delay when debouncing", async () => {
+    createSelectionManager("debounce", 100);
+    editor.setCursor({line: 0, ch: 1});
+    await wait(10);
+    editor.setCursor({line: 0, ch: 2});
+    await wait(10);
+    editor.setCursor({line: 0, ch: 3});
+    expect(emitted).to.deep.equal([]);
+
+    await wait(200);
+    expect(emitted.map((selection) => selection.cursorIndex)).to.deep.equal([3]);
+  });
+
+  it("emits at most once per delay when throttling", async () => {
+    createSelectionManager("throttle", 100);
+    editor.setCursor({line: 0, ch: 1});
+    await wait(10);
+    expect(emitted.map((selection) => selection.cursorIndex)).to.deep.equal([1]);
+
+    editor.setCursor({line: 0, ch: 2});
+    editor.setCursor({line: 0, ch: 3});
+    await wait(10);
+    expect(emitted.length).to.equal(1);
+
+    await wait(200);
+    expect(emitted.map((selection) => selection.cursorIndex)).to.deep.equal([1, 3]);
+  });
+
+  it("does not emit when only a remote edit moved the cursor", async () => {
+    createSelectionManager("debounce", 0);
+    editor.setCursor({line: 0, ch: 5});
+    await wait(10);
+    emitted = [];
+
+    editor.replaceRange(">> ", {line: 0, ch: 0}, {line: 0, ch: 0}, "remote");
+    await wait(10);
+    expect(emitted).to.deep.equal([]);
+
+    editor.replaceRange("!", {line: 0, ch: 8});
+    await wait(10);
+    expect(emitted.map((selection) => selection.cursorIndex)).to.deep.equal([9]);
+  });
+
+  it("emits a pending update when flushed, and discards it when disposed", async () => {
+    createSelectionManager("debounce", 1000);
+    editor.setCursor({line: 0, ch: 1});
+    selectionManager.flush();
+    expect(emitted.map((selection) => selection.cursorIndex)).to.deep.equal([1]);
+
+    editor.setCursor({line: 0, ch: 2});
+    selectionManager.dispose();
+    selectionManager.flush();
+    editor.setCursor({line: 0, ch: 3});
+    expect(emitted.length).to.equal(1);
+  });
+
+  it("rejects an unknown rate limit", () => {
+    expect(() => new LocalSelectionManager({
+      editor,
+      rateLimit: "sometimes" as "debounce",
+      onSelectionChanged: () => undefined
+    })).to.throw(`options.rateLimit must be "debounce" or "throttle" but was: sometimes`);
+    createSelectionManager("debounce", 0);
+  });
+});
@@ -0,0 +1,105 @@
+/*
+ * Copyright (c) 2019 Convergence Labs, Inc.
+ *
+ * This file is part of the CodeMirror Collaborative Extensions, which is
+ * released under the terms of the MIT license. A copy of the MIT license
+ * is usually provided as part of this source code package in the LICENCE
+ * file. If it was not, please see <https://opensource.org/licenses/MIT>
+ */
+
+import {expect} from "chai";
+import * as CodeMirror from "codemirror";
+import {IViewport} from "../ts/IViewport";
+import {LocalViewportManager} from "../ts/LocalViewportManager";
+
+/**
+ * Waits for the given number of milliseconds.
+ */
+function wait(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+describe("LocalViewportManager", () => {
+
+  let editor: CodeMirror.Editor;
+  let viewportManager: LocalViewportManager;
+  let viewports: IViewport[];
+  let scrollTop: number;
+
+  /**
+   * Scrolls the editor, whose lines are 10 pixels apart.
+   */
+  function scrollTo(top: number): void {
+    scrollTop = top;
+    CodeMirror.signal(editor, "scroll", editor);
+  }
+
+  beforeEach(() => {
+    editor = CodeMirror(document.body, {value: new Array(20).fill("line").join("\n")});
+    // jsdom does not lay out the editor, so lines are placed 10 pixels apart,
+    // in a viewport that is 30 pixels high.
+    scrollTop = 50;
+    editor.getScrollInfo = () =>
+      ({left: 0, top: scrollTop, width: 100, height: 200, clientWidth: 100, clientHeight: 30});
+    editor.lineAtHeight = (height: number) => Math.floor(height / 10);
+    viewports = [];
+    viewportManager = new LocalViewportManager({
+      editor,
+      delay: 20,
+      onViewportChanged: (viewport) => viewports.push(viewport)
+    });
+  });
+
+  afterEach(() => {
+    viewportManager.dispose();
+    editor.getWrapperElement().remove();
+  });
+
+  it("gets the lines that are visible", () => {
+    expect(viewportManager.getViewport()).to.deep.equal({from: 5, to: 8});
+
+    scrollTo(180);
+    expect(viewportManager.getViewport()).to.deep.equal({from: 18, to: 20});
+  });
+
+  it("emits the viewport once it stops changing", async () => {
+    scrollTo(0);
+    scrollTo(10);
+    expect(viewports).to.deep.equal([]);
+
+    await wait(50);
+    expect(viewports).to.deep.equal([{from: 1, to: 4}]);
+  });
+
+  it("does not emit a viewport that did not change", async () => {
+    scrollTo(10);
+    await wait(50);
+    CodeMirror.signal(editor, "refresh", editor);
+    await wait(50);
+
+    expect(viewports).to.deep.equal([{from: 1, to: 4}]);
+  });
+
+  it("emits a pending viewport immediately when flushed", () => {
+    viewportManager.flush();
+    expect(viewports).to.deep.equal([]);
+
+    scrollTo(10);
+    viewportManager.flush();
+    expect(viewports).to.deep.equal([{from: 1, to: 4}]);
+  });
+
+  it("discards pending updates and stops listening once disposed", async () => {
+    scrollTo(10);
+    viewportManager.dispose();
+    scrollTo(20);
+
+    await wait(50);
+    expect(viewports).to.deep.equal([]);
+  });
+
+  it("requires a handler for the viewport", () => {
+    expect(() => new LocalViewportManager({editor, onViewportChanged: undefined}))
+      .to.throw("options.onViewportChanged must be a function");
+  });
+});
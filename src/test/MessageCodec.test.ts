@@ -0,0 +1,86 @@
+/*
+ * Copyright (c) 2019 Convergence Labs, Inc.
+ *
+ * This file is part of the CodeMirror Collaborative Extensions, which is
+ * released under the terms of the MIT license. A copy of the MIT license
+ * is usually provided as part of this source code package in the LICENCE
+ * file. If it was not, please see <https://opensource.org/licenses/MIT>
+ */
+
+import {expect} from "chai";
+import {CollaborationMessage} from "../ts/CollaborationMessage";
+import {MessageCodec} from "../ts/MessageCodec";
+
+describe("MessageCodec", () => {
+
+  const messages: CollaborationMessage[] = [
+    {type: "content", userId: "bob", operations: [
+      {type: "insert", index: 0, text: "a"},
+      {type: "replace", index: 2, length: 1, text: "b"},
+      {type: "delete", index: 5, length: 2}
+    ]},
+    {type: "cursor", userId: "bob", indices: [3, 7]},
+    {type: "selection", userId: "bob", ranges: [{anchor: 1, head: 4}]},
+    {type: "join", userId: "bob", color: "red", label: "Bob"},
+    {type: "leave", userId: "bob"}
+  ];
+
+  messages.forEach((message) => {
+    it(`round trips a ${message.type} message`, () => {
+      expect(MessageCodec.decode(MessageCodec.encode(message))).to.deep.equal(message);
+    });
+  });
+
+  it("writes the protocol version", () => {
+    expect(JSON.parse(MessageCodec.encode({type: "leave", userId: "bob"})).version).to.equal(MessageCodec.VERSION);
+  });
+
+  it("accepts messages with unknown properties", () => {
+    const data = JSON.stringify({version: 1, type: "leave", userId: "bob", extra: true});
+    expect(MessageCodec.decode(data)).to.deep.equal({type: "leave", userId: "bob", extra: true});
+  });
+
+  it("rejects messages from newer versions", () => {
+    const data = JSON.stringify({version: MessageCodec.VERSION + 1, type: "leave", userId: "bob"});
+    expect(() => MessageCodec.decode(data)).to.throw("Unsupported message version");
+  });
+
+  it("rejects malformed messages", () => {
+    expect(() => MessageCodec.decode("{")).to.throw("it is not valid JSON");
+    expect(() => MessageCodec.decode("[]")).to.throw("it must be an object");
+    expect(() => MessageCodec.decode(JSON.stringify({type: "leave", userId: "bob"}))).to.throw("version");
+  });
+
+  it("rejects invalid messages", () => {
+    const invalid = [
+      {version: 1, type: "shout", userId: "bob"},
+      {version: 1, type: "leave"},
+      {version: 1, type: "cursor", userId: "bob", indices: [-1]},
+      {version: 1, type: "selection", userId: "bob", ranges: [{anchor: 1}]},
+      {version: 1, type: "content", userId: "bob", operations: [{type: "insert", index: 0}]},
+      {version: 1, type: "content", userId: "bob", operations: [{type: "move", index: 0}]}
+    ];
+    invalid.forEach((message) => {
+      expect(() => MessageCodec.decode(JSON.stringify(message)), JSON.stringify(message)).to.throw();
+    });
+  });
+
+  it("rejects indices that are not safe integers", () => {
+    expect(() => MessageCodec.validate({type: "cursor", userId: "bob", indices: [Infinity]}))
+      .to.throw("message.indices[0] must be a non-negative integer but was: Infinity");
+    expect(() => MessageCodec.decode(JSON.stringify({version: 1, type: "cursor", userId: "bob", indices: [1e300]})))
+      .to.throw("message.indices[0] must be a non-negative integer");
+  });
+
+  it("rejects fields that must be arrays or objects", () => {
+    expect(() => MessageCodec.decode(JSON.stringify({version: 1, type: "cursor", userId: "bob", indices: 3})))
+      .to.throw("message.indices must be an array but was: 3");
+    expect(() => MessageCodec.decode(JSON.stringify({version: 1, type: "selection", userId: "bob", ranges: [null]})))
+      .to.throw("message.ranges[0]");
+    expect(() => MessageCodec.validate(null)).to.throw("message");
+  });
+
+  it("does not encode invalid messages", () => {
+    expect(() => MessageCodec.encode({type: "cursor", userId: "bob", indices: [1.5]})).to.throw();
+  });
+});
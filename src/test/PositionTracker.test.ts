@@ -0,0 +1,80 @@
+/*
+ * Copyright (c) 2019 Convergence Labs, Inc.
+ *
+ * This file is part of the CodeMirror Collaborative Extensions, which is
+ * released under the terms of the MIT license. A copy of the MIT license
+ * is usually provided as part of this source code package in the LICENCE
+ * file. If it was not, please see <https://opensource.org/licenses/MIT>
+ */
+
+import {expect} from "chai";
+import * as CodeMirror from "codemirror";
+import {PositionTracker} from "../ts/PositionTracker";
+
+/**
+ * Waits for CodeMirror to report the changes of documents that are not shown
+ * in an editor.
+ */
+function waitForChanges(): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, 10));
+}
+
+describe("PositionTracker", () => {
+
+  let doc: CodeMirror.Doc;
+
+  beforeEach(() => {
+    doc = CodeMirror.Doc("hello world\nsecond line");
+  });
+
+  it("shares one tracker per document until it is released", () => {
+    const tracker = PositionTracker.acquire(doc);
+    expect(PositionTracker.acquire(doc)).to.equal(tracker);
+    const other = PositionTracker.acquire(CodeMirror.Doc("other"));
+    expect(other).to.not.equal(tracker);
+    other.release();
+
+    tracker.release();
+    tracker.release();
+    const next = PositionTracker.acquire(doc);
+    expect(next).to.not.equal(tracker);
+    next.release();
+  });
+
+  it("notifies only the positions that an edit moved", async () => {
+    const tracker = PositionTracker.acquire(doc);
+    const moved: string[] = [];
+    tracker.track({line: 0, ch: 2}, (position) => moved.push(`a ${position.line}:${position.ch}`));
+    tracker.track({line: 1, ch: 3}, (position) => moved.push(`b ${position.line}:${position.ch}`));
+
+    doc.replaceRange("XY", {line: 1, ch: 0});
+    await waitForChanges();
+
+    expect(moved).to.deep.equal(["b 1:5"]);
+    tracker.release();
+  });
+
+  it("disposes of the remaining positions when the last reference is released", async () => {
+    const tracker = PositionTracker.acquire(doc);
+    const moved: string[] = [];
+    const position = tracker.track({line: 0, ch: 2}, () => moved.push("moved"));
+
+    tracker.release();
+    doc.replaceRange("XY", {line: 0, ch: 0});
+    await waitForChanges();
+
+    expect(position.isDisposed()).to.equal(true);
+    expect(moved).to.deep.equal([]);
+  });
+
+  it("throws when it is released more often than it was acquired", () => {
+    const tracker = PositionTracker.acquire(doc);
+    tracker.release();
+    const next = PositionTracker.acquire(doc);
+
+    expect(() => tracker.release()).to.throw("The PositionTracker has already been released.");
+    expect(PositionTracker.acquire(doc)).to.equal(next);
+    next.release();
+    next.release();
+  });
+});
@@ -0,0 +1,110 @@
+/*
+ * Copyright (c) 2019 Convergence Labs, Inc.
+ *
+ * This file is part of the CodeMirror Collaborative Extensions, which is
+ * released under the terms of the MIT license. A copy of the MIT license
+ * is usually provided as part of this source code package in the LICENCE
+ * file. If it was not, please see <https://opensource.org/licenses/MIT>
+ */
+
+import {expect} from "chai";
+import * as CodeMirror from "codemirror";
+import {IPresenceGutterEntry, PresenceGutter} from "../ts/PresenceGutter";
+
+describe("PresenceGutter", () => {
+
+  let editor: CodeMirror.Editor;
+  let presenceGutter: PresenceGutter;
+
+  /**
+   * Creates an entry on the given lines.
+   */
+  function entry(id: string, label: string | undefined, lines: number[]): IPresenceGutterEntry {
+    return {id, color: "red", label, getLines: () => lines};
+  }
+
+  /**
+   * Gets the title and dots of the marker of each line.
+   */
+  function getMarkers(): {[line: number]: string} {
+    const markers: {[line: number]: string} = {};
+    for (let line = 0; line < editor.lineCount(); line++) {
+      const gutterMarkers = (editor.lineInfo(line) as any).gutterMarkers;
+      if (gutterMarkers && gutterMarkers.presence) {
+        const marker: HTMLElement = gutterMarkers.presence;
+        const dots = Array.prototype.map.call(marker.childNodes, (dot: HTMLElement) => dot.textContent);
+        markers[line] = `${marker.title}: ${dots.join(" ")}`;
+      }
+    }
+    return markers;
+  }
+
+  beforeEach(() => {
+    editor = CodeMirror(document.body, {value: "zero\none\ntwo\nthree", gutters: ["presence"]});
+    presenceGutter = PresenceGutter.acquire(editor, "presence");
+  });
+
+  afterEach(() => {
+    presenceGutter.release();
+    editor.getWrapperElement().remove();
+  });
+
+  it("marks the lines of each entry with the initials of its user", () => {
+    presenceGutter.add(entry("bob", "Bob Smith", [0, 2]));
+    presenceGutter.add(entry("alice", "alice", [2]));
+    presenceGutter.add(entry("carol", undefined, [3]));
+
+    expect(getMarkers()).to.deep.equal({0: "Bob Smith: BS", 2: "Bob Smith, alice: BS A", 3: "carol: C"});
+  });
+
+  it("shows the entries of the same user once per line", () => {
+    presenceGutter.add(entry("bob", "Bob", [1]));
+    presenceGutter.add(entry("bob", "Bob", [1, 2]));
+
+    expect(getMarkers()).to.deep.equal({1: "Bob: B", 2: "Bob: B"});
+  });
+
+  it("ignores lines outside of the document", () => {
+    presenceGutter.add(entry("bob", "Bob", [-1, 3, 4]));
+
+    expect(getMarkers()).to.deep.equal({3: "Bob: B"});
+  });
+
+  it("re-renders the markers when the document changes or an entry is removed", () => {
+    const lines = [1];
+    const bob = entry("bob", "Bob", lines);
+    presenceGutter.add(bob);
+
+    lines[0] = 2;
+    editor.replaceRange("!", {line: 0, ch: 0});
+    expect(getMarkers()).to.deep.equal({2: "Bob: B"});
+
+    presenceGutter.remove(bob);
+    expect(getMarkers()).to.deep.equal({});
+  });
+
+  it("is shared until the last reference is released", () => {
+    const shared = PresenceGutter.acquire(editor, "presence");
+    const other = PresenceGutter.acquire(editor, "other");
+    expect(shared).to.equal(presenceGutter);
+    expect(other).to.not.equal(presenceGutter);
+    other.release();
+
+    presenceGutter.add(entry("bob", "Bob", [1]));
+    shared.release();
+    expect(getMarkers()).to.deep.equal({1: "Bob: B"});
+
+    presenceGutter.release();
+    expect(getMarkers()).to.deep.equal({});
+
+    presenceGutter = PresenceGutter.acquire(editor, "presence");
+    expect(presenceGutter).to.not.equal(shared);
+  });
+
+  it("rejects releasing a gutter more often than it was acquired", () => {
+    const other = PresenceGutter.acquire(editor, "other");
+    other.release();
+
+    expect(() => other.release()).to.throw("The PresenceGutter has already been released.");
+  });
+});
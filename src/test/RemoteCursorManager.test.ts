@@ -0,0 +1,607 @@
+/*
+ * Copyright (c) 2019 Convergence Labs, Inc.
+ *
+ * This file is part of the CodeMirror Collaborative Extensions, which is
+ * released under the terms of the MIT license. A copy of the MIT license
+ * is usually provided as part of this source code package in the LICENCE
+ * file. If it was not, please see <https://opensource.org/licenses/MIT>
+ */
+
+import {expect} from "chai";
+import * as CodeMirror from "codemirror";
+import {ColorAllocator} from "../ts/ColorAllocator";
+import {IRemoteCursorManagerOptions} from "../ts/IRemoteCursorManagerOptions";
+import {RemoteCursor} from "../ts/RemoteCursor";
+import {RemoteCursorManager} from "../ts/RemoteCursorManager";
+import {RemoteSelectionManager} from "../ts/RemoteSelectionManager";
+
+/**
+ * Waits for the given number of milliseconds.
+ */
+function wait(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Stubs the layout properties of an element, which jsdom does not compute.
+ */
+function stubLayout(element: HTMLElement, layout: {[property: string]: number}): void {
+  Object.keys(layout).forEach((property) => Object.defineProperty(element, property, {value: layout[property]}));
+}
+
+/**
+ * Lays out the lines of an editor 10 pixels apart, with a viewport that shows
+ * lines 5 to 7, since jsdom does not lay out the editor.
+ */
+function stubCoordinates(editor: CodeMirror.Editor): void {
+  editor.cursorCoords = (position: any) => ({left: 0, top: position.line * 10, bottom: position.line * 10 + 10});
+  editor.getScrollInfo = () => ({left: 0, top: 50, width: 100, height: 200, clientWidth: 100, clientHeight: 30});
+}
+
+describe("RemoteCursorManager", () => {
+
+  let editor: CodeMirror.Editor;
+  let cursorManager: RemoteCursorManager;
+
+  /**
+   * Replaces the cursor manager with one that has the given options.
+   */
+  function createCursorManager(options: Partial<IRemoteCursorManagerOptions>): RemoteCursorManager {
+    cursorManager.dispose();
+    cursorManager = new RemoteCursorManager({editor, ...options});
+    return cursorManager;
+  }
+
+  /**
+   * Gets the tooltips of the cursors in the editor.
+   */
+  function getTooltips(): HTMLElement[] {
+    const tooltips = editor.getWrapperElement().querySelectorAll(".codemirror-remote-cursor-tooltip");
+    return Array.prototype.slice.call(tooltips);
+  }
+
+  beforeEach(() => {
+    editor = CodeMirror(document.body, {value: "hello world"});
+    cursorManager = new RemoteCursorManager({editor});
+  });
+
+  afterEach(() => {
+    cursorManager.dispose();
+    editor.getWrapperElement().remove();
+  });
+
+  describe("lifecycle", () => {
+    /**
+     * Gets the carets of the cursors in an editor.
+     */
+    function getCarets(target: CodeMirror.Editor): HTMLElement[] {
+      const carets = target.getWrapperElement().querySelectorAll(".codemirror-remote-cursor");
+      return Array.prototype.slice.call(carets);
+    }
+
+    it("removes every cursor and releases their colors when cleared", () => {
+      const colorAllocator = new ColorAllocator();
+      createCursorManager({colorAllocator});
+      const removed: RemoteCursor[] = [];
+      cursorManager.on("cursorRemoved", (cursor) => removed.push(cursor));
+      const bob = cursorManager.addCursor("bob", undefined, "Bob");
+      const alice = cursorManager.addCursor("alice", "blue", "Alice");
+
+      cursorManager.clear();
+      expect(removed).to.deep.equal([bob, alice]);
+      expect(cursorManager.getCursors()).to.deep.equal([]);
+      expect(getCarets(editor)).to.deep.equal([]);
+      expect(colorAllocator.getColor("bob")).to.equal(null);
+      expect(bob.isDisposed()).to.equal(true);
+
+      cursorManager.addCursor("bob", "red", "Bob");
+      expect(cursorManager.has("bob")).to.equal(true);
+    });
+
+    it("removes every cursor and stops following when disposed", () => {
+      const events: string[] = [];
+      const cursor = cursorManager.addCursor("bob", "red", "Bob");
+      cursorManager.follow("bob");
+      cursor.on("disposed", () => events.push("cursor disposed"));
+      cursorManager.on("followStopped", () => events.push("followStopped"));
+      cursorManager.on("disposed", () => events.push("manager disposed"));
+
+      cursorManager.dispose();
+      expect(events).to.deep.equal(["followStopped", "cursor disposed", "manager disposed"]);
+      expect(cursorManager.isDisposed()).to.equal(true);
+      expect(cursorManager.getFollowedCursor()).to.equal(null);
+      expect(getCarets(editor)).to.deep.equal([]);
+    });
+
+    it("rejects being used once disposed, but can be disposed again", () => {
+      cursorManager.dispose();
+
+      expect(() => cursorManager.addCursor("bob", "red", "Bob")).to.throw("The RemoteCursorManager has been disposed.");
+      expect(() => cursorManager.swapDoc(CodeMirror.Doc("other"))).to.throw("has been disposed");
+      expect(() => cursorManager.dispose()).to.not.throw();
+    });
+
+    it("moves to another editor, removing the cursors of the previous document", () => {
+      const otherEditor = CodeMirror(document.body, {value: "other"});
+      cursorManager.addCursor("bob", "red", "Bob");
+
+      cursorManager.setEditor(otherEditor);
+      expect(cursorManager.getCursors()).to.deep.equal([]);
+      expect(getCarets(editor)).to.deep.equal([]);
+      expect(cursorManager.getDoc()).to.equal(otherEditor.getDoc());
+
+      cursorManager.addCursor("alice", "blue", "Alice");
+      expect(getCarets(editor)).to.deep.equal([]);
+      const [caret] = getCarets(otherEditor);
+
+      // Only the documents of the new editor show and hide the cursors.
+      editor.swapDoc(CodeMirror.Doc("another"));
+      expect(caret.style.display).to.equal("inherit");
+      otherEditor.swapDoc(CodeMirror.Doc("another"));
+      expect(caret.style.display).to.equal("none");
+
+      cursorManager.dispose();
+      otherEditor.getWrapperElement().remove();
+    });
+
+    it("hides the cursors while the editor shows another document", () => {
+      const cursor = cursorManager.addCursor("bob", "red", "Bob");
+      const [caret] = getCarets(editor);
+
+      const doc = cursorManager.swapDoc(CodeMirror.Doc("other"));
+      expect(caret.style.display).to.equal("none");
+      expect(cursor.isVisible()).to.equal(true);
+
+      editor.swapDoc(doc);
+      expect(caret.style.display).to.equal("inherit");
+    });
+
+    it("hides the cursors of a document that is not shown when they are added", () => {
+      createCursorManager({doc: CodeMirror.Doc("other")});
+
+      cursorManager.addCursor("bob", "red", "Bob");
+      const [caret] = getCarets(editor);
+      expect(caret.style.display).to.equal("none");
+    });
+  });
+
+  describe("cursorMoved", () => {
+    it("is emitted by the cursor and the manager when the positions are set", () => {
+      const events: string[] = [];
+      const cursor = cursorManager.addCursor("bob", "red", "Bob");
+      cursor.on("cursorMoved", (positions) => events.push(`cursor ${JSON.stringify(positions)}`));
+      cursorManager.on("cursorMoved", (moved) => events.push(`manager ${moved === cursor}`));
+
+      cursor.setPosition({line: 0, ch: 6});
+      expect(events).to.deep.equal(['cursor [{"line":0,"ch":6}]', "manager true"]);
+    });
+
+    it("is emitted once, with the positions of every caret, when an edit moves the carets", () => {
+      const moves: CodeMirror.Position[][] = [];
+      const cursor = cursorManager.addCursor("bob", "red", "Bob");
+      cursor.setPositions([{line: 0, ch: 6}, {line: 0, ch: 11}]);
+      cursor.on("cursorMoved", (positions) => moves.push(positions));
+
+      editor.replaceRange("oh, ", {line: 0, ch: 0});
+      expect(moves).to.deep.equal([[{line: 0, ch: 10}, {line: 0, ch: 15}]]);
+    });
+
+    it("is not emitted when an edit leaves the carets where they are", () => {
+      const moves: CodeMirror.Position[][] = [];
+      const cursor = cursorManager.addCursor("bob", "red", "Bob");
+      cursor.setPosition({line: 0, ch: 5});
+      cursor.on("cursorMoved", (positions) => moves.push(positions));
+
+      editor.replaceRange("!", {line: 0, ch: 11});
+      expect(moves).to.deep.equal([]);
+    });
+  });
+
+  describe("colors", () => {
+    it("allocates a color for a cursor, and releases it when the cursor is removed", () => {
+      const colorAllocator = new ColorAllocator();
+      createCursorManager({colorAllocator});
+
+      const cursor = cursorManager.addCursor("bob", undefined, "Bob");
+      expect(colorAllocator.getColor("bob")).to.not.equal(null);
+      cursor.dispose();
+      expect(colorAllocator.getColor("bob")).to.equal(null);
+    });
+
+    it("releases the allocated color of a cursor that could not be added", () => {
+      const colorAllocator = new ColorAllocator();
+      createCursorManager({
+        colorAllocator,
+        tooltipRenderer: () => {
+          throw new Error("The tooltip could not be rendered.");
+        }
+      });
+
+      expect(() => cursorManager.addCursor("bob", undefined, "Bob")).to.throw("The tooltip could not be rendered.");
+      expect(colorAllocator.getColor("bob")).to.equal(null);
+      expect(cursorManager.has("bob")).to.equal(false);
+      expect(editor.getWrapperElement().querySelectorAll(".codemirror-remote-cursor").length).to.equal(0);
+    });
+
+    it("rejects a presence gutter that is not a string", () => {
+      expect(() => createCursorManager({presenceGutter: 5 as any}))
+        .to.throw("options.presenceGutter must be a string");
+    });
+  });
+
+  describe("tooltips", () => {
+    it("renders the label as text", () => {
+      cursorManager.addCursor("bob", "red", "<b>Bob</b>");
+
+      const [tooltip] = getTooltips();
+      expect(tooltip.textContent).to.equal("<b>Bob</b>");
+      expect(tooltip.querySelector("b")).to.equal(null);
+    });
+
+    it("renders the content returned by the tooltip renderer", () => {
+      createCursorManager({
+        tooltipRenderer: ({id, label, color}) => {
+          const node = document.createElement("span");
+          node.textContent = `${id} ${label} ${color}`;
+          return node;
+        }
+      });
+      cursorManager.addCursor("bob", "red", "Bob");
+
+      const [tooltip] = getTooltips();
+      expect(tooltip.innerHTML).to.equal("<span>bob Bob red</span>");
+    });
+
+    it("shows the tooltip when the cursor moves, and hides it after the tooltip duration", async () => {
+      createCursorManager({tooltipDuration: 0.05});
+      const cursor = cursorManager.addCursor("bob", "red", "Bob");
+      const [tooltip] = getTooltips();
+
+      cursor.setIndex(5);
+      expect(tooltip.style.opacity).to.equal("0");
+      await wait(10);
+      expect(tooltip.style.opacity).to.equal("1");
+      await wait(100);
+      expect(tooltip.style.opacity).to.equal("0");
+    });
+
+    it("stops showing and hiding the tooltip once the cursor is disposed", async () => {
+      createCursorManager({tooltipDuration: 0.05});
+      const bob = cursorManager.addCursor("bob", "red", "Bob");
+      const alice = cursorManager.addCursor("alice", "blue", "Alice");
+      const [bobTooltip, aliceTooltip] = getTooltips();
+
+      bob.setIndex(5);
+      bob.dispose();
+      alice.setIndex(5);
+      await wait(10);
+      alice.dispose();
+      await wait(100);
+
+      expect(bobTooltip.style.opacity).to.equal("0");
+      expect(aliceTooltip.style.opacity).to.equal("1");
+    });
+
+    it("places the tooltip below a cursor at the top of the editor, and above it otherwise", () => {
+      const cursor = cursorManager.addCursor("bob", "red", "Bob");
+      const [tooltip] = getTooltips();
+      const caret = tooltip.parentElement;
+      stubLayout(tooltip, {offsetHeight: 20, offsetWidth: 40});
+
+      stubLayout(caret, {offsetTop: 0, offsetHeight: 18});
+      CodeMirror.signal(editor, "scroll", editor);
+      expect(tooltip.style.top).to.equal("18px");
+
+      cursor.dispose();
+      cursorManager.addCursor("bob", "red", "Bob");
+      const [lowerTooltip] = getTooltips();
+      stubLayout(lowerTooltip, {offsetHeight: 20, offsetWidth: 40});
+      stubLayout(lowerTooltip.parentElement, {offsetTop: 100, offsetHeight: 18});
+      CodeMirror.signal(editor, "scroll", editor);
+      expect(lowerTooltip.style.top).to.equal("-20px");
+    });
+
+    it("flips the tooltip to the left of a cursor at the right edge of the editor", () => {
+      cursorManager.addCursor("bob", "red", "Bob");
+      const [tooltip] = getTooltips();
+      stubLayout(tooltip, {offsetHeight: 20, offsetWidth: 40});
+      stubLayout(tooltip.parentElement, {offsetLeft: 90, offsetWidth: 2});
+      editor.getScrollInfo = () => ({left: 0, top: 0, width: 100, height: 100, clientWidth: 100, clientHeight: 100});
+
+      CodeMirror.signal(editor, "scroll", editor);
+      expect(tooltip.style.left).to.equal("-38px");
+    });
+
+    it("places the tooltip where the tooltipPlacement option says", () => {
+      createCursorManager({tooltipPlacement: "above"});
+      cursorManager.addCursor("bob", "red", "Bob");
+      const [tooltip] = getTooltips();
+      stubLayout(tooltip, {offsetHeight: 20});
+
+      CodeMirror.signal(editor, "scroll", editor);
+      expect(tooltip.style.top).to.equal("-20px");
+    });
+  });
+
+  describe("activity", () => {
+    let changes: string[];
+
+    beforeEach(() => {
+      changes = [];
+      createCursorManager({
+        idleTimeout: 0.1,
+        awayTimeout: 0.3,
+        typingTimeout: 0.03,
+        onActivityChanged: (id, state, typing) => changes.push(`${id} ${state}${typing ? " typing" : ""}`)
+      });
+    });
+
+    it("moves from active to idle to away without activity", async () => {
+      const cursor = cursorManager.addCursor("bob", "red", "Bob");
+      const caret = getTooltips()[0].parentElement;
+      expect(cursor.getActivityState()).to.equal("active");
+      expect(caret.classList.contains("codemirror-remote-cursor-active")).to.equal(true);
+
+      await wait(150);
+      expect(cursor.getActivityState()).to.equal("idle");
+      expect(caret.classList.contains("codemirror-remote-cursor-idle")).to.equal(true);
+
+      await wait(200);
+      expect(cursor.getActivityState()).to.equal("away");
+      expect(caret.classList.contains("codemirror-remote-cursor-away")).to.equal(true);
+      expect(changes).to.deep.equal(["bob idle", "bob away"]);
+    });
+
+    it("becomes active again when the cursor moves", async () => {
+      const cursor = cursorManager.addCursor("bob", "red", "Bob");
+      await wait(150);
+
+      const before = Date.now();
+      cursor.setIndex(3);
+      expect(cursor.getActivityState()).to.equal("active");
+      expect(cursor.getLastActivity()).to.be.at.least(before);
+      expect(changes).to.deep.equal(["bob idle", "bob active"]);
+    });
+
+    it("is typing until the typing timeout passes", async () => {
+      const cursor = cursorManager.addCursor("bob", "red", "Bob");
+      const caret = getTooltips()[0].parentElement;
+
+      cursor.markTyping();
+      expect(cursor.isTyping()).to.equal(true);
+      expect(caret.classList.contains("codemirror-remote-cursor-typing")).to.equal(true);
+
+      await wait(60);
+      expect(cursor.isTyping()).to.equal(false);
+      expect(caret.classList.contains("codemirror-remote-cursor-typing")).to.equal(false);
+      expect(changes).to.deep.equal(["bob active typing", "bob active"]);
+    });
+
+    it("stops tracking the activity of a removed cursor", async () => {
+      const cursor = cursorManager.addCursor("bob", "red", "Bob");
+      cursor.markTyping();
+      cursorManager.removeCursor("bob");
+
+      await wait(150);
+      expect(changes).to.deep.equal(["bob active typing"]);
+    });
+  });
+
+  describe("edge indicators", () => {
+    /**
+     * Gets the edge the indicator is shown at, if any.
+     */
+    function getIndicatorEdge(): string | null {
+      const indicator = editor.getWrapperElement().querySelector(".codemirror-remote-edge-indicator");
+      if (indicator === null) {
+        return null;
+      }
+      return indicator.parentElement.classList.contains("codemirror-remote-edge-indicators-top") ? "top" : "bottom";
+    }
+
+    beforeEach(() => {
+      editor.setValue(new Array(20).fill("line").join("\n"));
+      stubCoordinates(editor);
+      createCursorManager({edgeIndicators: true});
+    });
+
+    it("points to a cursor above or below the viewport", () => {
+      const cursor = cursorManager.addCursor("bob", "red", "Bob");
+      expect(getIndicatorEdge()).to.equal("top");
+
+      cursor.setPosition({line: 6, ch: 0});
+      expect(getIndicatorEdge()).to.equal(null);
+
+      cursor.setPosition({line: 15, ch: 0});
+      expect(getIndicatorEdge()).to.equal("bottom");
+    });
+
+    it("follows the viewport as the editor is scrolled", () => {
+      cursorManager.addCursor("bob", "red", "Bob").setPosition({line: 6, ch: 0});
+      editor.getScrollInfo = () => ({left: 0, top: 100, width: 100, height: 200, clientWidth: 100, clientHeight: 30});
+
+      CodeMirror.signal(editor, "scroll", editor);
+      expect(getIndicatorEdge()).to.equal("top");
+    });
+
+    it("is only shown while the cursor is visible", () => {
+      cursorManager.addCursor("bob", "red", "Bob");
+
+      cursorManager.hideCursor("bob");
+      expect(getIndicatorEdge()).to.equal(null);
+      cursorManager.showCursor("bob");
+      expect(getIndicatorEdge()).to.equal("top");
+      cursorManager.removeCursor("bob");
+      expect(getIndicatorEdge()).to.equal(null);
+    });
+
+    it("scrolls the cursor into view when clicked", () => {
+      const scrolled: Array<[CodeMirror.Position, number]> = [];
+      editor.scrollIntoView = (position: any, margin: number) => {
+        scrolled.push([position, margin]);
+      };
+      const cursor = cursorManager.addCursor("bob", "red", "Bob");
+      cursor.setPosition({line: 15, ch: 2});
+
+      const indicator = editor.getWrapperElement().querySelector(".codemirror-remote-edge-indicator");
+      expect(indicator.textContent).to.equal("Bob");
+      indicator.dispatchEvent(new window.MouseEvent("mousedown", {cancelable: true}));
+      expect(scrolled).to.deep.equal([[{line: 15, ch: 2}, 15]]);
+    });
+  });
+
+  describe("scrollbar ticks", () => {
+    /**
+     * Gets the top and height of the ticks of cursors.
+     */
+    function getTicks(): string[] {
+      const ticks = editor.getWrapperElement().querySelectorAll(".codemirror-remote-scrollbar-tick-cursor");
+      return Array.prototype.map.call(ticks, (tick: HTMLElement) => `${tick.style.top} ${tick.style.height}`);
+    }
+
+    beforeEach(() => {
+      editor.setValue(new Array(20).fill("line").join("\n"));
+      stubCoordinates(editor);
+      createCursorManager({scrollbarTicks: true});
+    });
+
+    it("marks each caret of a cursor relative to the height of the document", () => {
+      cursorManager.addCursor("bob", "red", "Bob").setPositions([{line: 5, ch: 0}, {line: 10, ch: 0}]);
+      expect(getTicks()).to.deep.equal(["25% 5%", "50% 5%"]);
+
+      cursorManager.setCursorPosition("bob", {line: 2, ch: 0});
+      expect(getTicks()).to.deep.equal(["10% 5%"]);
+    });
+
+    it("moves the ticks along with edits", () => {
+      cursorManager.addCursor("bob", "red", "Bob").setPosition({line: 5, ch: 0});
+
+      editor.replaceRange("new\n", {line: 0, ch: 0});
+      expect(getTicks()).to.deep.equal(["30% 5%"]);
+    });
+
+    it("only marks cursors that are visible", () => {
+      cursorManager.addCursor("bob", "red", "Bob").setPosition({line: 5, ch: 0});
+
+      cursorManager.hideCursor("bob");
+      expect(getTicks()).to.deep.equal([]);
+      cursorManager.showCursor("bob");
+      expect(getTicks()).to.deep.equal(["25% 5%"]);
+      cursorManager.removeCursor("bob");
+      expect(getTicks()).to.deep.equal([]);
+    });
+  });
+
+  describe("following", () => {
+    let scrolled: any[];
+    let events: string[];
+
+    beforeEach(() => {
+      editor.setValue(new Array(20).fill("line").join("\n"));
+      stubCoordinates(editor);
+      scrolled = [];
+      editor.scrollIntoView = (position: any) => {
+        scrolled.push(position);
+      };
+      events = [];
+      createCursorManager({
+        onFollowStarted: (id) => events.push(`onFollowStarted ${id}`),
+        onFollowStopped: (id) => events.push(`onFollowStopped ${id}`)
+      });
+      // The id of a RemoteCursor is the id of its widget, not of the user.
+      const getUserId = (cursor: RemoteCursor) => ["bob", "alice"].find((id) => cursorManager.get(id) === cursor);
+      cursorManager.on("followStarted", (cursor) => events.push(`followStarted ${getUserId(cursor)}`));
+      cursorManager.on("followStopped", (cursor) => events.push(`followStopped ${getUserId(cursor)}`));
+    });
+
+    it("scrolls a cursor into the middle of the view", () => {
+      const margins: number[] = [];
+      editor.scrollIntoView = (position: any, margin: number) => {
+        scrolled.push(position);
+        margins.push(margin);
+      };
+      cursorManager.addCursor("bob", "red", "Bob").setPosition({line: 12, ch: 1});
+
+      cursorManager.scrollToCursor("bob");
+      expect(scrolled).to.deep.equal([{line: 12, ch: 1}]);
+      expect(margins).to.deep.equal([15]);
+    });
+
+    it("does not scroll to a cursor while the editor shows another document", () => {
+      cursorManager.addCursor("bob", "red", "Bob");
+      const doc = editor.swapDoc(CodeMirror.Doc("other"));
+
+      cursorManager.scrollToCursor("bob");
+      expect(scrolled).to.deep.equal([]);
+      editor.swapDoc(doc);
+    });
+
+    it("keeps the followed cursor in view as it moves", () => {
+      const cursor = cursorManager.addCursor("bob", "red", "Bob");
+      cursorManager.addCursor("alice", "blue", "Alice");
+
+      cursorManager.follow("bob");
+      cursor.setPosition({line: 12, ch: 0});
+      cursorManager.setCursorPosition("alice", {line: 3, ch: 0});
+
+      expect(scrolled).to.deep.equal([{line: 0, ch: 0}, {line: 12, ch: 0}]);
+      expect(cursorManager.getFollowedCursor()).to.equal("bob");
+    });
+
+    it("keeps the followed selection in view where it fits", () => {
+      const selectionManager = new RemoteSelectionManager({editor});
+      const selection = selectionManager.addSelection("bob", "red");
+      selection.setPositions({line: 10, ch: 0}, {line: 11, ch: 0});
+      cursorManager.addCursor("bob", "red", "Bob").setPosition({line: 11, ch: 0});
+
+      cursorManager.follow("bob", selection);
+      expect(scrolled).to.deep.equal([{top: 100, bottom: 120, left: 0, right: 0}]);
+      selectionManager.dispose();
+    });
+
+    it("reports when following starts and stops", () => {
+      const cursor = cursorManager.addCursor("bob", "red", "Bob");
+      cursor.on("followStarted", () => events.push("cursor followStarted"));
+      cursor.on("followStopped", () => events.push("cursor followStopped"));
+
+      cursorManager.follow("bob");
+      cursorManager.follow("bob");
+      cursorManager.unfollow();
+
+      expect(events).to.deep.equal([
+        "onFollowStarted bob", "cursor followStarted", "followStarted bob",
+        "onFollowStopped bob", "cursor followStopped", "followStopped bob"
+      ]);
+      expect(cursorManager.getFollowedCursor()).to.equal(null);
+    });
+
+    it("stops following a cursor to follow another one", () => {
+      cursorManager.addCursor("bob", "red", "Bob");
+      cursorManager.addCursor("alice", "blue", "Alice");
+
+      cursorManager.follow("bob");
+      cursorManager.follow("alice");
+      expect(events.filter((event) => !event.startsWith("on"))).to.deep.equal([
+        "followStarted bob", "followStopped bob", "followStarted alice"
+      ]);
+    });
+
+    it("stops following when the local user types or the cursor is removed", () => {
+      cursorManager.addCursor("bob", "red", "Bob");
+      const wrapper = editor.getWrapperElement();
+
+      cursorManager.follow("bob");
+      wrapper.dispatchEvent(new window.KeyboardEvent("keydown", {key: "Shift"}));
+      expect(cursorManager.getFollowedCursor()).to.equal("bob");
+      wrapper.dispatchEvent(new window.KeyboardEvent("keydown", {key: "a"}));
+      expect(cursorManager.getFollowedCursor()).to.equal(null);
+
+      cursorManager.follow("bob");
+      cursorManager.removeCursor("bob");
+      expect(cursorManager.getFollowedCursor()).to.equal(null);
+      expect(events.filter((event) => !event.startsWith("on"))).to.deep.equal([
+        "followStarted bob", "followStopped bob", "followStarted bob", "followStopped bob"
+      ]);
+    });
+  });
+});
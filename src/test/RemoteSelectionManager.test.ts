@@ -0,0 +1,197 @@
+/*
+ * Copyright (c) 2019 Convergence Labs, Inc.
+ *
+ * This file is part of the CodeMirror Collaborative Extensions, which is
+ * released under the terms of the MIT license. A copy of the MIT license
+ * is usually provided as part of this source code package in the LICENCE
+ * file. If it was not, please see <https://opensource.org/licenses/MIT>
+ */
+
+import {expect} from "chai";
+import * as CodeMirror from "codemirror";
+import {ColorAllocator} from "../ts/ColorAllocator";
+import {RemoteSelection} from "../ts/RemoteSelection";
+import {RemoteSelectionManager} from "../ts/RemoteSelectionManager";
+import {SharedStyleSheet} from "../ts/SharedStyleSheet";
+
+describe("RemoteSelectionManager", () => {
+
+  let editor: CodeMirror.Editor;
+  let selectionManager: RemoteSelectionManager;
+
+  beforeEach(() => {
+    editor = CodeMirror(document.body, {value: "hello world", gutters: ["presence"]});
+    selectionManager = new RemoteSelectionManager({editor, presenceGutter: "presence"});
+  });
+
+  afterEach(() => {
+    selectionManager.dispose();
+    editor.getWrapperElement().remove();
+  });
+
+  describe("lifecycle", () => {
+    /**
+     * Gets the ranges marked by the selections in a document.
+     */
+    function getMarkedRanges(doc: CodeMirror.Doc): any[] {
+      return doc.getAllMarks().filter((marker: any) => marker.type === "range").map((marker) => marker.find());
+    }
+
+    /**
+     * Determines if a line of the editor has a presence marker.
+     */
+    function hasPresence(line: number): boolean {
+      const markers = (editor.lineInfo(line) as any).gutterMarkers;
+      return Boolean(markers && markers.presence);
+    }
+
+    it("removes every selection and releases their colors when cleared", () => {
+      const colorAllocator = new ColorAllocator();
+      selectionManager.dispose();
+      selectionManager = new RemoteSelectionManager({editor, colorAllocator});
+      const removed: RemoteSelection[] = [];
+      selectionManager.on("selectionRemoved", (selection) => removed.push(selection));
+      const bob = selectionManager.addSelection("bob", undefined);
+      bob.setIndices(0, 5);
+      const alice = selectionManager.addSelection("alice", "blue");
+      alice.setIndices(6, 11);
+
+      selectionManager.clear();
+      expect(removed).to.deep.equal([bob, alice]);
+      expect(selectionManager.getSelections()).to.deep.equal([]);
+      expect(getMarkedRanges(editor.getDoc())).to.deep.equal([]);
+      expect(colorAllocator.getColor("bob")).to.equal(null);
+      expect(bob.isDisposed()).to.equal(true);
+    });
+
+    it("removes every selection when disposed, and rejects being used afterwards", () => {
+      const events: string[] = [];
+      const selection = selectionManager.addSelection("bob", "red");
+      selection.setIndices(0, 5);
+      selection.on("disposed", () => events.push("selection disposed"));
+      selectionManager.on("disposed", () => events.push("manager disposed"));
+
+      selectionManager.dispose();
+      expect(events).to.deep.equal(["selection disposed", "manager disposed"]);
+      expect(selectionManager.isDisposed()).to.equal(true);
+      expect(getMarkedRanges(editor.getDoc())).to.deep.equal([]);
+      expect(hasPresence(0)).to.equal(false);
+      expect(() => selectionManager.addSelection("bob", "red"))
+        .to.throw("The RemoteSelectionManager has been disposed.");
+      expect(() => selectionManager.dispose()).to.not.throw();
+    });
+
+    it("moves to another editor, removing the selections of the previous document", () => {
+      const otherEditor = CodeMirror(document.body, {value: "other text"});
+      selectionManager.addSelection("bob", "red").setIndices(0, 5);
+
+      selectionManager.setEditor(otherEditor);
+      expect(selectionManager.getSelections()).to.deep.equal([]);
+      expect(getMarkedRanges(editor.getDoc())).to.deep.equal([]);
+      expect(selectionManager.getDoc()).to.equal(otherEditor.getDoc());
+
+      selectionManager.addSelection("alice", "blue").setIndices(0, 5);
+      expect(getMarkedRanges(otherEditor.getDoc())).to.deep.equal([
+        {from: {line: 0, ch: 0, sticky: null}, to: {line: 0, ch: 5, sticky: null}}
+      ]);
+
+      selectionManager.dispose();
+      otherEditor.getWrapperElement().remove();
+    });
+
+    it("keeps its selections in its document while the editor shows another one", () => {
+      selectionManager.addSelection("bob", "red").setIndices(0, 5);
+
+      const doc = selectionManager.swapDoc(CodeMirror.Doc("other"));
+      expect(hasPresence(0)).to.equal(false);
+      expect(getMarkedRanges(doc).length).to.equal(1);
+      expect(getMarkedRanges(editor.getDoc())).to.deep.equal([]);
+
+      editor.swapDoc(doc);
+      expect(hasPresence(0)).to.equal(true);
+    });
+  });
+
+  it("moves selections along with edits", () => {
+    const selection = selectionManager.addSelection("bob", "red");
+    selection.setIndices(6, 11);
+
+    editor.replaceRange("big ", {line: 0, ch: 0});
+    expect(selection.getRanges()).to.deep.equal([{anchor: {line: 0, ch: 10}, head: {line: 0, ch: 15}}]);
+  });
+
+  it("keeps the marker that CodeMirror moved along with an edit", () => {
+    selectionManager.addSelection("bob", "red").setIndices(6, 11);
+
+    const doc: any = editor.getDoc();
+    const markText = doc.markText;
+    let marked = 0;
+    doc.markText = function() {
+      marked++;
+      return markText.apply(this, arguments);
+    };
+
+    editor.replaceRange("big ", {line: 0, ch: 0});
+    expect(marked).to.equal(0);
+    const markers = editor.getAllMarks().filter((marker: any) => marker.type === "range");
+    expect(markers.map((marker) => marker.find())).to.deep.equal([
+      {from: {line: 0, ch: 10, sticky: null}, to: {line: 0, ch: 15, sticky: null}}
+    ]);
+  });
+
+  it("moves the presence marker along with an edit", () => {
+    const hasPresence = (line: number) => {
+      const markers = (editor.lineInfo(line) as any).gutterMarkers;
+      return Boolean(markers && markers.presence);
+    };
+
+    selectionManager.addSelection("bob", "red", "Bob").setIndices(6, 11);
+    expect(hasPresence(0)).to.equal(true);
+
+    editor.replaceRange("\n", {line: 0, ch: 0});
+    expect(hasPresence(0)).to.equal(false);
+    expect(hasPresence(1)).to.equal(true);
+  });
+
+  it("releases the allocated color of a selection that could not be added", () => {
+    const colorAllocator = new ColorAllocator();
+    selectionManager.dispose();
+    selectionManager = new RemoteSelectionManager({editor, colorAllocator});
+
+    const acquire = SharedStyleSheet.acquire;
+    SharedStyleSheet.acquire = () => {
+      throw new Error("The style sheet could not be acquired.");
+    };
+    try {
+      expect(() => selectionManager.addSelection("bob", undefined)).to.throw("The style sheet could not be acquired.");
+    } finally {
+      SharedStyleSheet.acquire = acquire;
+    }
+    expect(colorAllocator.getColor("bob")).to.equal(null);
+    expect(selectionManager.has("bob")).to.equal(false);
+  });
+
+  it("rejects a presence gutter that is not a string", () => {
+    expect(() => new RemoteSelectionManager({editor, presenceGutter: 5 as any}))
+      .to.throw("options.presenceGutter must be a string");
+  });
+
+  it("marks non-empty selections on the scrollbar", () => {
+    selectionManager.dispose();
+    selectionManager = new RemoteSelectionManager({editor, scrollbarTicks: true});
+    editor.setValue(new Array(20).fill("line").join("\n"));
+    // jsdom does not lay out the editor, so lines are placed 10 pixels apart.
+    editor.cursorCoords = (position: any) => ({left: 0, top: position.line * 10, bottom: position.line * 10 + 10});
+    editor.getScrollInfo = () => ({left: 0, top: 0, width: 100, height: 200, clientWidth: 100, clientHeight: 30});
+    const getTicks = () => Array.prototype.map.call(
+      editor.getWrapperElement().querySelectorAll(".codemirror-remote-scrollbar-tick-selection"),
+      (tick: HTMLElement) => `${tick.style.top} ${tick.style.height}`);
+
+    const selection = selectionManager.addSelection("bob", "red");
+    selection.setIndices(10, 22);
+    expect(getTicks()).to.deep.equal(["10% 15%"]);
+
+    selection.setIndices(10, 10);
+    expect(getTicks()).to.deep.equal([]);
+  });
+});
@@ -0,0 +1,80 @@
+/*
+ * Copyright (c) 2019 Convergence Labs, Inc.
+ *
+ * This file is part of the CodeMirror Collaborative Extensions, which is
+ * released under the terms of the MIT license. A copy of the MIT license
+ * is usually provided as part of this source code package in the LICENCE
+ * file. If it was not, please see <https://opensource.org/licenses/MIT>
+ */
+
+import {expect} from "chai";
+import * as CodeMirror from "codemirror";
+import {RemoteSelectionManager} from "../ts/RemoteSelectionManager";
+import {RemoteUserManager} from "../ts/RemoteUserManager";
+
+describe("RemoteUserManager", () => {
+
+  let editor: CodeMirror.Editor;
+  let userManager: RemoteUserManager;
+
+  beforeEach(() => {
+    editor = CodeMirror(document.body, {value: "hello world"});
+    userManager = new RemoteUserManager({editor, tooltips: false});
+  });
+
+  afterEach(() => {
+    userManager.dispose();
+    editor.getWrapperElement().remove();
+  });
+
+  it("removes a user when their cursor is disposed of", () => {
+    const user = userManager.addUser("bob", "red");
+    user.getCursor().dispose();
+
+    expect(user.isDisposed()).to.equal(true);
+    expect(user.getSelection().isDisposed()).to.equal(true);
+    expect(userManager.getUsers()).to.deep.equal([]);
+  });
+
+  it("removes a user that is disposed of", () => {
+    const user = userManager.addUser("bob", "red");
+    user.dispose();
+
+    // The id can be used again once the user is removed.
+    userManager.addUser("bob", "red");
+    expect(userManager.getUsers().length).to.equal(1);
+  });
+
+  it("does not leave a cursor behind when adding a user fails", () => {
+    const addSelection = RemoteSelectionManager.prototype.addSelection;
+    RemoteSelectionManager.prototype.addSelection = () => {
+      throw new Error("The selection could not be added.");
+    };
+    try {
+      expect(() => userManager.addUser("bob", "red")).to.throw("The selection could not be added.");
+    } finally {
+      RemoteSelectionManager.prototype.addSelection = addSelection;
+    }
+    expect(editor.getWrapperElement().querySelectorAll(".codemirror-remote-cursor").length).to.equal(0);
+
+    userManager.addUser("bob", "red");
+    expect(userManager.getUsers().length).to.equal(1);
+  });
+
+  it("removes all users when cleared", () => {
+    const users = [userManager.addUser("bob", "red"), userManager.addUser("alice", "blue")];
+    userManager.clear();
+
+    expect(users.map((user) => user.isDisposed())).to.deep.equal([true, true]);
+    expect(userManager.getUsers()).to.deep.equal([]);
+  });
+
+  it("can not be used once disposed of", () => {
+    const user = userManager.addUser("bob", "red");
+    userManager.dispose();
+
+    expect(user.isDisposed()).to.equal(true);
+    expect(userManager.isDisposed()).to.equal(true);
+    expect(() => userManager.addUser("alice", "blue")).to.throw("The RemoteUserManager has been disposed.");
+  });
+});
@@ -0,0 +1,130 @@
+/*
+ * Copyright (c) 2019 Convergence Labs, Inc.
+ *
+ * This file is part of the CodeMirror Collaborative Extensions, which is
+ * released under the terms of the MIT license. A copy of the MIT license
+ * is usually provided as part of this source code package in the LICENCE
+ * file. If it was not, please see <https://opensource.org/licenses/MIT>
+ */
+
+import {expect} from "chai";
+import * as CodeMirror from "codemirror";
+import {RemoteViewportManager} from "../ts/RemoteViewportManager";
+
+describe("RemoteViewportManager", () => {
+
+  let editor: CodeMirror.Editor;
+  let viewportManager: RemoteViewportManager;
+
+  beforeEach(() => {
+    editor = CodeMirror(document.body, {value: new Array(20).fill("line").join("\n"), gutters: ["viewports"]});
+  });
+
+  afterEach(() => {
+    viewportManager.dispose();
+    editor.getWrapperElement().remove();
+  });
+
+  describe("gutter", () => {
+    /**
+     * Gets the colors of the bars in the gutter marker of each line.
+     */
+    function getMarkers(): {[line: number]: string[]} {
+      const markers: {[line: number]: string[]} = {};
+      for (let line = 0; line < editor.lineCount(); line++) {
+        const gutterMarkers = (editor.lineInfo(line) as any).gutterMarkers;
+        if (gutterMarkers && gutterMarkers.viewports) {
+          const bars = gutterMarkers.viewports.querySelectorAll(".codemirror-remote-viewport-bar");
+          markers[line] = Array.prototype.map.call(bars, (bar: HTMLElement) => `${bar.style.background} ${bar.title}`);
+        }
+      }
+      return markers;
+    }
+
+    beforeEach(() => {
+      viewportManager = new RemoteViewportManager({editor, gutter: "viewports"});
+    });
+
+    it("marks the lines each remote user is looking at", () => {
+      viewportManager.addViewport("bob", "red", "Bob");
+      viewportManager.addViewport("alice", "blue");
+
+      viewportManager.setViewport("bob", {from: 2, to: 4});
+      viewportManager.setViewport("alice", {from: 3, to: 5});
+      expect(getMarkers()).to.deep.equal({2: ["red Bob"], 3: ["red Bob", "blue "], 4: ["blue "]});
+    });
+
+    it("only marks lines that are in the document", () => {
+      viewportManager.addViewport("bob", "red").setViewport({from: 18, to: 25});
+      expect(Object.keys(getMarkers())).to.deep.equal(["18", "19"]);
+    });
+
+    it("removes the markers of hidden and removed viewports", () => {
+      viewportManager.addViewport("bob", "red").setViewport({from: 2, to: 3});
+
+      viewportManager.hideViewport("bob");
+      expect(getMarkers()).to.deep.equal({});
+      viewportManager.showViewport("bob");
+      expect(getMarkers()).to.deep.equal({2: ["red "]});
+      viewportManager.removeViewport("bob");
+      expect(getMarkers()).to.deep.equal({});
+    });
+
+    it("clears the gutter once disposed", () => {
+      viewportManager.addViewport("bob", "red").setViewport({from: 2, to: 3});
+      viewportManager.dispose();
+
+      expect(getMarkers()).to.deep.equal({});
+    });
+
+    it("rejects invalid viewports", () => {
+      const viewport = viewportManager.addViewport("bob", "red");
+
+      expect(() => viewportManager.addViewport("bob", "blue")).to.throw("A viewport with this id already exists: bob");
+      expect(() => viewport.setViewport({from: 4, to: 2})).to.throw("viewport.to must not be less than viewport.from");
+      expect(() => viewportManager.setViewport("alice", {from: 0, to: 1})).to.throw("No such viewport: alice");
+    });
+  });
+
+  describe("minimap", () => {
+    /**
+     * Gets the position and color of the bars of the minimap.
+     */
+    function getBars(): string[] {
+      const bars = editor.getWrapperElement().querySelectorAll(".codemirror-remote-viewport");
+      return Array.prototype.map.call(bars, (bar: HTMLElement) =>
+        `${bar.style.background} ${bar.style.right} ${bar.style.top} ${bar.style.height}`);
+    }
+
+    beforeEach(() => {
+      // jsdom does not lay out the editor, so lines are placed 10 pixels apart.
+      editor.heightAtLine = (line: any) => line * 10;
+      editor.getScrollInfo = () => ({left: 0, top: 0, width: 100, height: 200, clientWidth: 100, clientHeight: 30});
+      viewportManager = new RemoteViewportManager({editor});
+    });
+
+    it("renders each viewport in its own column, relative to the height of the document", () => {
+      viewportManager.addViewport("bob", "red").setViewport({from: 5, to: 10});
+      viewportManager.addViewport("alice", "blue").setViewport({from: 0, to: 4});
+
+      expect(getBars()).to.deep.equal(["red 0px 25% 25%", "blue 5px 0% 20%"]);
+    });
+
+    it("only renders viewports that are visible and set", () => {
+      viewportManager.addViewport("bob", "red").setViewport({from: 5, to: 10});
+      viewportManager.addViewport("alice", "blue");
+
+      viewportManager.hideViewport("bob");
+      expect(getBars()).to.deep.equal([]);
+      viewportManager.showViewport("bob");
+      expect(getBars()).to.deep.equal(["red 0px 25% 25%"]);
+    });
+
+    it("removes the minimap once disposed", () => {
+      viewportManager.addViewport("bob", "red").setViewport({from: 5, to: 10});
+      viewportManager.dispose();
+
+      expect(editor.getWrapperElement().querySelector(".codemirror-remote-viewports")).to.equal(null);
+    });
+  });
+});
@@ -0,0 +1,136 @@
+/*
+ * Copyright (c) 2019 Convergence Labs, Inc.
+ *
+ * This file is part of the CodeMirror Collaborative Extensions, which is
+ * released under the terms of the MIT license. A copy of the MIT license
+ * is usually provided as part of this source code package in the LICENCE
+ * file. If it was not, please see <https://opensource.org/licenses/MIT>
+ */
+
+import {expect} from "chai";
+import * as CodeMirror from "codemirror";
+import {SharedStyleSheet} from "../ts/SharedStyleSheet";
+
+describe("SharedStyleSheet", () => {
+
+  let editor: CodeMirror.Editor;
+
+  /**
+   * Gets the style elements in the head of the document.
+   */
+  function getStyleElements(): HTMLStyleElement[] {
+    return Array.prototype.slice.call(document.head.querySelectorAll("style"));
+  }
+
+  beforeEach(() => {
+    editor = CodeMirror(document.body);
+  });
+
+  afterEach(() => {
+    editor.getWrapperElement().remove();
+  });
+
+  it("shares one style element between the editors of a document", () => {
+    const otherEditor = CodeMirror(document.body);
+    const sheet = SharedStyleSheet.acquire(editor);
+    const otherSheet = SharedStyleSheet.acquire(otherEditor);
+
+    expect(otherSheet).to.equal(sheet);
+    expect(getStyleElements().length).to.equal(1);
+
+    sheet.release();
+    otherSheet.release();
+    otherEditor.getWrapperElement().remove();
+  });
+
+  it("writes the rules of the added classes until they are removed", () => {
+    const sheet = SharedStyleSheet.acquire(editor);
+    const className = sheet.addClass("test", {"--test-color": "red"});
+    const [style] = getStyleElements();
+
+    expect(style.textContent).to.contain(`.${className} { --test-color: red; }`);
+    sheet.removeClass(className);
+    expect(style.textContent).to.not.contain(className);
+
+    sheet.release();
+  });
+
+  it("removes the style element when the last reference is released", () => {
+    const sheet = SharedStyleSheet.acquire(editor);
+    SharedStyleSheet.acquire(editor);
+
+    sheet.release();
+    expect(getStyleElements().length).to.equal(1);
+    sheet.release();
+    expect(getStyleElements().length).to.equal(0);
+  });
+
+  it("creates a new stylesheet when acquired after it was removed", () => {
+    const sheet = SharedStyleSheet.acquire(editor);
+    sheet.release();
+
+    const newSheet = SharedStyleSheet.acquire(editor);
+    expect(newSheet).to.not.equal(sheet);
+    expect(getStyleElements().length).to.equal(1);
+    newSheet.release();
+  });
+
+  it("rejects being released more often than it was acquired", () => {
+    const sheet = SharedStyleSheet.acquire(editor);
+    sheet.release();
+
+    expect(() => sheet.release()).to.throw("The SharedStyleSheet has already been released.");
+  });
+
+  it("sets the nonce on the style element", () => {
+    const sheet = SharedStyleSheet.acquire(editor, "r4nd0m");
+
+    const [style] = getStyleElements();
+    expect(style.getAttribute("nonce")).to.equal("r4nd0m");
+    sheet.release();
+  });
+
+  it("places the style element in the shadow root of the editor", () => {
+    const host = document.createElement("div");
+    document.body.appendChild(host);
+    const shadowRoot = host.attachShadow({mode: "open"});
+    const shadowEditor = CodeMirror(shadowRoot as any);
+
+    const sheet = SharedStyleSheet.acquire(shadowEditor);
+    expect(shadowRoot.querySelectorAll("style").length).to.equal(1);
+    expect(getStyleElements().length).to.equal(0);
+
+    sheet.release();
+    expect(shadowRoot.querySelectorAll("style").length).to.equal(0);
+    host.remove();
+  });
+
+  it("adopts a constructable stylesheet where supported, without a style element", () => {
+    // jsdom does not support constructable stylesheets, so they are faked.
+    class FakeStyleSheet {
+      public text: string = "";
+
+      public replaceSync(text: string): void {
+        this.text = text;
+      }
+    }
+    const adopting = document as Document & {adoptedStyleSheets: FakeStyleSheet[]};
+    (globalThis as any).CSSStyleSheet = FakeStyleSheet;
+    adopting.adoptedStyleSheets = [];
+
+    try {
+      const sheet = SharedStyleSheet.acquire(editor, "r4nd0m");
+      const className = sheet.addClass("test", {"--test-color": "red"});
+
+      expect(getStyleElements().length).to.equal(0);
+      expect(adopting.adoptedStyleSheets.length).to.equal(1);
+      expect(adopting.adoptedStyleSheets[0].text).to.contain(`.${className} { --test-color: red; }`);
+
+      sheet.release();
+      expect(adopting.adoptedStyleSheets.length).to.equal(0);
+    } finally {
+      delete (globalThis as any).CSSStyleSheet;
+      delete adopting.adoptedStyleSheets;
+    }
+  });
+});
@@ -0,0 +1,112 @@
+/*
+ * Copyright (c) 2019 Convergence Labs, Inc.
+ *
+ * This file is part of the CodeMirror Collaborative Extensions, which is
+ * released under the terms of the MIT license. A copy of the MIT license
+ * is usually provided as part of this source code package in the LICENCE
+ * file. If it was not, please see <https://opensource.org/licenses/MIT>
+ */
+
+import {expect} from "chai";
+import {TextOperation} from "../ts/TextOperation";
+
+describe("TextOperation", () => {
+
+  describe("apply", () => {
+    it("retains, inserts and deletes", () => {
+      const operation = new TextOperation().retain(2).insert("XY").delete(3).retain(1);
+      expect(operation.baseLength).to.equal(6);
+      expect(operation.targetLength).to.equal(5);
+      expect(operation.apply("abcdef")).to.equal("abXYf");
+    });
+
+    it("rejects a document of the wrong length", () => {
+      expect(() => new TextOperation().retain(2).apply("abc")).to.throw();
+    });
+  });
+
+  describe("fromChange", () => {
+    it("creates a replacement within a document", () => {
+      const operation = TextOperation.fromChange(5, 1, 2, "Z");
+      expect(operation.apply("abcde")).to.equal("aZde");
+    });
+  });
+
+  describe("invert", () => {
+    it("restores the original document", () => {
+      const document = "hello world";
+      const operation = new TextOperation().retain(6).delete(5).insert("there");
+      const inverse = operation.invert(document);
+      expect(inverse.apply(operation.apply(document))).to.equal(document);
+    });
+  });
+
+  describe("compose", () => {
+    it("has the effect of both operations applied in sequence", () => {
+      const document = "abc";
+      const a = new TextOperation().retain(1).insert("X").retain(2);
+      const b = new TextOperation().delete(2).retain(1).insert("Y").retain(1);
+      expect(a.compose(b).apply(document)).to.equal(b.apply(a.apply(document)));
+    });
+
+    it("rejects operations whose lengths don't line up", () => {
+      const a = new TextOperation().retain(3);
+      const b = new TextOperation().retain(4);
+      expect(() => a.compose(b)).to.throw();
+    });
+  });
+
+  describe("transform", () => {
+    const document = "abcdef";
+    const pairs: Array<[string, TextOperation, TextOperation]> = [
+      ["two inserts", TextOperation.fromChange(6, 1, 0, "X"), TextOperation.fromChange(6, 4, 0, "Y")],
+      ["inserts at the same index", TextOperation.fromChange(6, 2, 0, "X"), TextOperation.fromChange(6, 2, 0, "Y")],
+      ["overlapping deletes", TextOperation.fromChange(6, 1, 3, ""), TextOperation.fromChange(6, 2, 3, "")],
+      ["an insert inside a delete", TextOperation.fromChange(6, 3, 0, "X"), TextOperation.fromChange(6, 1, 4, "")],
+      ["two replacements", TextOperation.fromChange(6, 0, 2, "XY"), TextOperation.fromChange(6, 1, 4, "Z")]
+    ];
+
+    pairs.forEach(([name, a, b]) => {
+      it(`converges for ${name}`, () => {
+        const [aPrime, bPrime] = TextOperation.transform(a, b);
+        expect(bPrime.apply(a.apply(document))).to.equal(aPrime.apply(b.apply(document)));
+      });
+    });
+
+    it("places the insert of the first operation first", () => {
+      const [aPrime] = TextOperation.transform(
+        TextOperation.fromChange(6, 2, 0, "X"),
+        TextOperation.fromChange(6, 2, 0, "Y"));
+      expect(aPrime.apply("abYcdef")).to.equal("abXYcdef");
+    });
+
+    it("rejects operations on documents of different lengths", () => {
+      expect(() => TextOperation.transform(new TextOperation().retain(2), new TextOperation().retain(3))).to.throw();
+    });
+  });
+
+  describe("toContentOperations", () => {
+    it("converts an operation to edits relative to the original document", () => {
+      const operation = new TextOperation().retain(1).insert("X").delete(2).retain(2).delete(1);
+      expect(operation.toContentOperations()).to.deep.equal([
+        {type: "replace", index: 1, length: 2, text: "X"},
+        {type: "delete", index: 5, length: 1}
+      ]);
+    });
+  });
+
+  describe("JSON", () => {
+    it("round trips", () => {
+      const operation = new TextOperation().retain(3).insert("ab").delete(2);
+      expect(TextOperation.fromJSON(operation.toJSON()).equals(operation)).to.equal(true);
+    });
+
+    it("rejects unknown components", () => {
+      expect(() => TextOperation.fromJSON([true as any])).to.throw();
+    });
+
+    it("rejects components that are not an array", () => {
+      expect(() => TextOperation.fromJSON({} as any)).to.throw("components must be an array");
+    });
+  });
+});
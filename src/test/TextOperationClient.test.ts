@@ -0,0 +1,318 @@
+/*
+ * Copyright (c) 2019 Convergence Labs, Inc.
+ *
+ * This file is part of the CodeMirror Collaborative Extensions, which is
+ * released under the terms of the MIT license. A copy of the MIT license
+ * is usually provided as part of this source code package in the LICENCE
+ * file. If it was not, please see <https://opensource.org/licenses/MIT>
+ */
+
+import {expect} from "chai";
+import * as CodeMirror from "codemirror";
+import {DocumentVerifier} from "../ts/DocumentVerifier";
+import {TextOperation} from "../ts/TextOperation";
+import {TextOperationClient} from "../ts/TextOperationClient";
+
+describe("TextOperationClient", () => {
+
+  let editor: CodeMirror.Editor;
+  let client: TextOperationClient;
+  let sent: Array<{revision: number, operation: TextOperation}>;
+
+  beforeEach(() => {
+    editor = CodeMirror(document.body, {value: "hello world"});
+    sent = [];
+    client = new TextOperationClient({
+      editor,
+      revision: 5,
+      sendOperation: (revision, operation) => sent.push({revision, operation})
+    });
+  });
+
+  afterEach(() => {
+    client.dispose();
+    editor.getWrapperElement().remove();
+  });
+
+  describe("synchronized", () => {
+    it("applies server operations directly", () => {
+      client.applyServerOperation(new TextOperation().insert("> ").retain(11));
+
+      expect(editor.getValue()).to.equal("> hello world");
+      expect(client.getRevision()).to.equal(6);
+      expect(client.getState()).to.equal("synchronized");
+      expect(sent).to.deep.equal([]);
+    });
+
+    it("sends a local change and waits for its acknowledgement", () => {
+      editor.replaceRange("!", {line: 0, ch: 11});
+
+      expect(sent.map(({revision, operation}) => [revision, operation.apply("hello world")]))
+        .to.deep.equal([[5, "hello world!"]]);
+      expect(client.getState()).to.equal("awaiting-ack");
+      expect(client.getSyncStatus()).to.equal("syncing");
+    });
+
+    it("rejects an acknowledgement when nothing was sent", () => {
+      expect(() => client.serverAck()).to.throw("There is no pending operation to acknowledge.");
+    });
+
+    it("rejects a server operation whose base length does not match the document", () => {
+      expect(() => client.applyServerOperation(new TextOperation().retain(4).insert("!")))
+        .to.throw("The operation's base length (4) does not match the document length (11).");
+    });
+  });
+
+  describe("awaiting-ack", () => {
+    beforeEach(() => editor.replaceRange("A", {line: 0, ch: 0}));
+
+    it("transforms server operations against the outstanding operation", () => {
+      client.applyServerOperation(new TextOperation().retain(5).insert(",").retain(6));
+
+      expect(editor.getValue()).to.equal("Ahello, world");
+      expect(client.getRevision()).to.equal(6);
+
+      client.serverAck();
+      expect(client.getRevision()).to.equal(7);
+      expect(client.getState()).to.equal("synchronized");
+      expect(client.getSyncStatus()).to.equal("synced");
+    });
+
+    it("buffers local changes until the outstanding operation is acknowledged", () => {
+      editor.replaceRange("B", {line: 0, ch: 12});
+      editor.replaceRange("C", {line: 0, ch: 13});
+
+      expect(client.getState()).to.equal("awaiting-with-buffer");
+      expect(sent.length).to.equal(1);
+
+      client.serverAck();
+      expect(client.getState()).to.equal("awaiting-ack");
+      expect(sent.length).to.equal(2);
+      expect(sent[1].revision).to.equal(6);
+      expect(sent[1].operation.apply("Ahello world")).to.equal("Ahello worldBC");
+    });
+  });
+
+  describe("awaiting-with-buffer", () => {
+    beforeEach(() => {
+      editor.replaceRange("A", {line: 0, ch: 0});
+      editor.replaceRange("B", {line: 0, ch: 12});
+    });
+
+    it("transforms server operations against the outstanding and buffered operations", () => {
+      client.applyServerOperation(new TextOperation().retain(5).insert(",").retain(6));
+      expect(editor.getValue()).to.equal("Ahello, worldB");
+
+      client.serverAck();
+      const [, buffered] = sent;
+      expect(buffered.revision).to.equal(7);
+      expect(buffered.operation.apply("Ahello, world")).to.equal("Ahello, worldB");
+    });
+  });
+
+  it("reports local changes made in the same operation before applying a server operation", () => {
+    editor.operation(() => {
+      editor.replaceRange("A", {line: 0, ch: 0});
+      client.applyServerOperation(new TextOperation().retain(11).insert("!"));
+    });
+
+    expect(editor.getValue()).to.equal("Ahello world!");
+    expect(sent.map(({revision, operation}) => [revision, operation.apply("hello world")]))
+      .to.deep.equal([[5, "Ahello world"]]);
+
+    client.serverAck();
+    editor.replaceRange("?", {line: 0, ch: 13});
+    expect(sent[1].operation.apply("Ahello world!")).to.equal("Ahello world!?");
+  });
+
+  describe("reset", () => {
+    it("resynchronizes with a DocumentVerifier without sending the resync", () => {
+      editor.replaceRange("A", {line: 0, ch: 0});
+      const verifier = new DocumentVerifier({
+        editor,
+        getVersion: () => client.getRevision(),
+        contentManager: client.getContentManager()
+      });
+
+      verifier.resync({version: 8, content: "hi world"});
+      client.reset(8);
+
+      expect(editor.getValue()).to.equal("hi world");
+      expect(sent.length).to.equal(1);
+      expect(client.getRevision()).to.equal(8);
+      expect(client.getState()).to.equal("synchronized");
+      expect(client.getSyncStatus()).to.equal("synced");
+    });
+
+    it("tracks the content of the editor after a reset", () => {
+      client.getContentManager().applyOperations([{type: "delete", index: 5, length: 6}]);
+      client.reset(9);
+
+      client.applyServerOperation(new TextOperation().retain(5).insert("!"));
+      editor.replaceRange("?", {line: 0, ch: 6});
+
+      expect(editor.getValue()).to.equal("hello!?");
+      expect(sent.map(({revision, operation}) => [revision, operation.apply("hello!")]))
+        .to.deep.equal([[10, "hello!?"]]);
+    });
+  });
+
+  describe("offline editing", () => {
+    let server: FakeServer;
+    let peers: IPeer[];
+    let inFlight: Array<{name: string, revision: number, operation: TextOperation}>;
+
+    /**
+     * Connects a client for another editor to the server.
+     */
+    function createPeer(name: string): IPeer {
+      const peerEditor = CodeMirror(document.body, {value: server.document});
+      const peerClient = new TextOperationClient({
+        editor: peerEditor,
+        sendOperation: (revision, operation) => inFlight.push({name, revision, operation})
+      });
+      const peer = {name, editor: peerEditor, client: peerClient};
+      peers.push(peer);
+      return peer;
+    }
+
+    /**
+     * Delivers the operations in flight to the server, which acknowledges
+     * them and broadcasts them to the peers that are connected.
+     */
+    function deliver(): void {
+      while (inFlight.length > 0) {
+        const {name, revision, operation} = inFlight.shift();
+        const transformed = server.receive(name, revision, operation);
+        peers.filter((peer) => peer.client.getSyncStatus() !== "offline").forEach((peer) => {
+          if (peer.name === name) {
+            peer.client.serverAck();
+          } else {
+            peer.client.applyServerOperation(transformed);
+          }
+        });
+      }
+    }
+
+    /**
+     * Replays the operations a peer missed while offline, and reconnects it.
+     */
+    function reconnect(peer: IPeer): void {
+      server.getHistorySince(peer.client.getRevision()).forEach((entry) => {
+        if (entry.name === peer.name) {
+          peer.client.serverAck();
+        } else {
+          peer.client.applyServerOperation(entry.operation);
+        }
+      });
+      peer.client.reconnect();
+    }
+
+    beforeEach(() => {
+      server = new FakeServer("hello world");
+      peers = [];
+      inFlight = [];
+    });
+
+    afterEach(() => {
+      peers.forEach((peer) => {
+        peer.client.dispose();
+        peer.editor.getWrapperElement().remove();
+      });
+    });
+
+    it("rebases the edits made offline on the operations replayed before reconnecting", () => {
+      const alice = createPeer("alice");
+      const bob = createPeer("bob");
+
+      alice.client.disconnect();
+      alice.editor.replaceRange("A", {line: 0, ch: 0});
+      alice.editor.replaceRange("B", {line: 0, ch: 6});
+      bob.editor.replaceRange("!", {line: 0, ch: 11});
+      deliver();
+
+      expect(alice.client.getState()).to.equal("awaiting-with-buffer");
+      expect(inFlight).to.deep.equal([]);
+
+      reconnect(alice);
+      deliver();
+
+      expect(server.document).to.equal("AhelloB world!");
+      expect(alice.editor.getValue()).to.equal(server.document);
+      expect(bob.editor.getValue()).to.equal(server.document);
+      expect(alice.client.getSyncStatus()).to.equal("synced");
+      expect(alice.client.getRevision()).to.equal(bob.client.getRevision());
+    });
+
+    it("acknowledges an outstanding operation the server received before the connection dropped", () => {
+      const alice = createPeer("alice");
+      const bob = createPeer("bob");
+
+      alice.editor.replaceRange("A", {line: 0, ch: 0});
+      alice.client.disconnect();
+      deliver();
+      bob.editor.replaceRange("!", {line: 0, ch: 12});
+      alice.editor.replaceRange("B", {line: 0, ch: 6});
+      deliver();
+
+      reconnect(alice);
+      expect(inFlight.map(({revision}) => revision)).to.deep.equal([2]);
+      deliver();
+
+      expect(server.document).to.equal("AhelloB world!");
+      expect(alice.editor.getValue()).to.equal(server.document);
+      expect(bob.editor.getValue()).to.equal(server.document);
+      expect(alice.client.getSyncStatus()).to.equal("synced");
+    });
+
+    it("only sends the pending operations on reconnect", () => {
+      const alice = createPeer("alice");
+      const bob = createPeer("bob");
+
+      alice.client.disconnect();
+      bob.editor.replaceRange("!", {line: 0, ch: 11});
+      deliver();
+      alice.client.reconnect();
+
+      expect(inFlight).to.deep.equal([]);
+      expect(alice.editor.getValue()).to.equal("hello world");
+      expect(alice.client.getRevision()).to.equal(0);
+    });
+  });
+});
+
+/**
+ * An editor connected to a FakeServer through a TextOperationClient.
+ */
+interface IPeer {
+  name: string;
+  editor: CodeMirror.Editor;
+  client: TextOperationClient;
+}
+
+/**
+ * A minimal central server, which transforms each operation it receives
+ * against the operations it received since the operation's revision.
+ */
+class FakeServer {
+  public document: string;
+  private readonly _history: Array<{name: string, operation: TextOperation}>;
+
+  constructor(document: string) {
+    this.document = document;
+    this._history = [];
+  }
+
+  public receive(name: string, revision: number, operation: TextOperation): TextOperation {
+    const transformed = this._history
+      .slice(revision)
+      .reduce((op, entry) => TextOperation.transform(op, entry.operation)[0], operation);
+    this._history.push({name, operation: transformed});
+    this.document = transformed.apply(this.document);
+    return transformed;
+  }
+
+  public getHistorySince(revision: number): Array<{name: string, operation: TextOperation}> {
+    return this._history.slice(revision);
+  }
+}
@@ -0,0 +1,87 @@
+/*
+ * Copyright (c) 2019 Convergence Labs, Inc.
+ *
+ * This file is part of the CodeMirror Collaborative Extensions, which is
+ * released under the terms of the MIT license. A copy of the MIT license
+ * is usually provided as part of this source code package in the LICENCE
+ * file. If it was not, please see <https://opensource.org/licenses/MIT>
+ */
+
+import {expect} from "chai";
+import * as CodeMirror from "codemirror";
+import {Position} from "codemirror";
+import {PositionTracker} from "../ts/PositionTracker";
+
+describe("TrackedPosition", () => {
+
+  let editor: CodeMirror.Editor;
+  let tracker: PositionTracker;
+  let moves: Position[];
+
+  beforeEach(() => {
+    editor = CodeMirror(document.body, {value: "hello world\nsecond line"});
+    tracker = PositionTracker.acquire(editor.getDoc());
+    moves = [];
+  });
+
+  afterEach(() => {
+    tracker.release();
+    editor.getWrapperElement().remove();
+  });
+
+  it("follows the text around it", () => {
+    const position = tracker.track({line: 1, ch: 7}, (moved) => moves.push(moved));
+
+    editor.replaceRange("new\n", {line: 0, ch: 0});
+
+    expect(position.getPosition()).to.deep.equal({line: 2, ch: 7});
+    expect(position.getIndex()).to.equal(23);
+    expect(moves).to.deep.equal([{line: 2, ch: 7}]);
+  });
+
+  it("moves past text inserted at it only if it was created with insertLeft", () => {
+    const right = tracker.track({line: 0, ch: 5}, () => undefined);
+    const left = tracker.track({line: 0, ch: 5}, () => undefined, true);
+
+    editor.replaceRange("!!", {line: 0, ch: 5});
+
+    expect(right.getPosition()).to.deep.equal({line: 0, ch: 5});
+    expect(left.getPosition()).to.deep.equal({line: 0, ch: 7});
+  });
+
+  it("moves to the start of a deleted range that contained it", () => {
+    const position = tracker.track({line: 0, ch: 8}, (moved) => moves.push(moved));
+
+    editor.replaceRange("", {line: 0, ch: 5}, {line: 1, ch: 2});
+
+    expect(position.getPosition()).to.deep.equal({line: 0, ch: 5});
+    expect(moves).to.deep.equal([{line: 0, ch: 5}]);
+  });
+
+  it("keeps following the text after the range that contained it was deleted", () => {
+    const position = tracker.track({line: 0, ch: 8}, (moved) => moves.push(moved));
+
+    editor.replaceRange("", {line: 0, ch: 5}, {line: 0, ch: 9});
+    editor.replaceRange(">> ", {line: 0, ch: 0});
+
+    expect(position.getPosition()).to.deep.equal({line: 0, ch: 8});
+  });
+
+  it("is clipped to the document", () => {
+    const position = tracker.track({line: 5, ch: 0}, (moved) => moves.push(moved));
+    expect(position.getPosition()).to.deep.equal({line: 1, ch: 11});
+
+    position.setPosition({line: 0, ch: 20});
+    expect(position.getPosition()).to.deep.equal({line: 0, ch: 11});
+  });
+
+  it("stops following the text once disposed", () => {
+    const position = tracker.track({line: 1, ch: 0}, (moved) => moves.push(moved));
+    position.dispose();
+
+    editor.replaceRange("new\n", {line: 0, ch: 0});
+
+    expect(position.isDisposed()).to.equal(true);
+    expect(moves).to.deep.equal([]);
+  });
+});
@@ -0,0 +1,97 @@
+/*
+ * Copyright (c) 2019 Convergence Labs, Inc.
+ *
+ * This file is part of the CodeMirror Collaborative Extensions, which is
+ * released under the terms of the MIT license. A copy of the MIT license
+ * is usually provided as part of this source code package in the LICENCE
+ * file. If it was not, please see <https://opensource.org/licenses/MIT>
+ */
+
+import {expect} from "chai";
+import {TextOperation} from "../ts/TextOperation";
+import {UndoManager} from "../ts/UndoManager";
+
+describe("UndoManager", () => {
+
+  // Applies a local change to a document, recording its inverse.
+  function change(undoManager: UndoManager, document: string, operation: TextOperation, origin?: string): string {
+    undoManager.addLocal(operation.invert(document), origin);
+    return operation.apply(document);
+  }
+
+  it("undoes local changes in reverse order", () => {
+    const undoManager = new UndoManager(10, 0);
+    let document = "abc";
+    document = change(undoManager, document, TextOperation.fromChange(3, 3, 0, "d"));
+    document = change(undoManager, document, TextOperation.fromChange(4, 0, 1, ""));
+    expect(document).to.equal("bcd");
+
+    document = undoManager.popUndo().apply(document);
+    expect(document).to.equal("abcd");
+    document = undoManager.popUndo().apply(document);
+    expect(document).to.equal("abc");
+    expect(undoManager.canUndo()).to.equal(false);
+  });
+
+  it("keeps remote changes when undoing local ones", () => {
+    const undoManager = new UndoManager(10, 0);
+    let document = change(undoManager, "hello", TextOperation.fromChange(5, 5, 0, " world"));
+
+    const remote = TextOperation.fromChange(11, 0, 0, ">> ");
+    document = remote.apply(document);
+    undoManager.transform(remote);
+
+    expect(undoManager.popUndo().apply(document)).to.equal(">> hello");
+  });
+
+  it("transforms every entry of the history against remote changes", () => {
+    const undoManager = new UndoManager(10, 0);
+    let document = change(undoManager, "ab", TextOperation.fromChange(2, 1, 0, "1"));
+    document = change(undoManager, document, TextOperation.fromChange(3, 3, 0, "2"));
+
+    const remote = TextOperation.fromChange(4, 0, 0, "R");
+    document = remote.apply(document);
+    undoManager.transform(remote);
+
+    document = undoManager.popUndo().apply(document);
+    expect(document).to.equal("Ra1b");
+    expect(undoManager.popUndo().apply(document)).to.equal("Rab");
+  });
+
+  it("merges typing with the same origin", () => {
+    const undoManager = new UndoManager(10, 1000);
+    let document = change(undoManager, "", TextOperation.fromChange(0, 0, 0, "a"), "+input");
+    document = change(undoManager, document, TextOperation.fromChange(1, 1, 0, "b"), "+input");
+    document = change(undoManager, document, TextOperation.fromChange(2, 2, 0, "c"), "paste");
+
+    document = undoManager.popUndo().apply(document);
+    expect(document).to.equal("ab");
+    expect(undoManager.popUndo().apply(document)).to.equal("");
+    expect(undoManager.canUndo()).to.equal(false);
+  });
+
+  it("clears the redo history when a new local change is made", () => {
+    const undoManager = new UndoManager(10, 0);
+    let document = change(undoManager, "a", TextOperation.fromChange(1, 1, 0, "b"));
+    const undo = undoManager.popUndo();
+    undoManager.addUndone(undo.invert(document));
+    document = undo.apply(document);
+    expect(undoManager.canRedo()).to.equal(true);
+
+    change(undoManager, document, TextOperation.fromChange(1, 0, 0, "c"));
+    expect(undoManager.canRedo()).to.equal(false);
+  });
+
+  it("limits the depth of the history", () => {
+    const undoManager = new UndoManager(2, 0);
+    let document = "";
+    ["a", "b", "c"].forEach((text, i) => {
+      document = change(undoManager, document, TextOperation.fromChange(i, i, 0, text));
+    });
+
+    document = undoManager.popUndo().apply(document);
+    document = undoManager.popUndo().apply(document);
+    expect(document).to.equal("a");
+    expect(undoManager.canUndo()).to.equal(false);
+  });
+});
@@ -0,0 +1,30 @@
+/*
+ * Copyright (c) 2019 Convergence Labs, Inc.
+ *
+ * This file is part of the CodeMirror Collaborative Extensions, which is
+ * released under the terms of the MIT license. A copy of the MIT license
+ * is usually provided as part of this source code package in the LICENCE
+ * file. If it was not, please see <https://opensource.org/licenses/MIT>
+ */
+
+// CodeMirror needs a DOM, both when it is loaded and to create editors.
+const {JSDOM} = require("jsdom");
+
+const dom = new JSDOM("<!doctype html><html><head></head><body></body></html>", {pretendToBeVisual: true});
+global.window = dom.window;
+global.document = dom.window.document;
+global.navigator = dom.window.navigator;
+global.HTMLElement = dom.window.HTMLElement;
+global.Node = dom.window.Node;
+global.requestAnimationFrame = (callback) => setTimeout(callback, 0);
+
+// jsdom does not lay out the document, so CodeMirror's measurements are
+// stubbed out.
+const emptyRect = {left: 0, right: 0, top: 0, bottom: 0, width: 0, height: 0};
+document.createRange = () => ({
+  setStart() {},
+  setEnd() {},
+  getBoundingClientRect: () => emptyRect,
+  getClientRects: () => ({length: 0, left: 0, right: 0})
+});
+dom.window.HTMLElement.prototype.getBoundingClientRect = () => emptyRect;
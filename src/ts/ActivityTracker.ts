@@ -0,0 +1,120 @@
+/*
+ * Copyright (c) 2019 Convergence Labs, Inc.
+ *
+ * This file is part of the CodeMirror Collaborative Extensions, which is
+ * released under the terms of the MIT license. A copy of the MIT license
+ * is usually provided as part of this source code package in the LICENCE
+ * file. If it was not, please see <https://opensource.org/licenses/MIT>
+ */
+
+import {RemoteCursorActivityState} from "./RemoteCursorActivityState";
+
+/**
+ * Tracks when a remote user was last active, and whether they are typing.
+ * The state moves from active to idle to away as time passes without
+ * activity, and the onChanged callback is called whenever the state or the
+ * typing flag changes.
+ *
+ * @internal
+ */
+export class ActivityTracker {
+
+  private readonly _idleTimeout: number;
+  private readonly _awayTimeout: number;
+  private readonly _typingTimeout: number;
+  private readonly _onChanged: () => void;
+
+  private _state: RemoteCursorActivityState;
+  private _typing: boolean;
+  private _lastActivity: number;
+  private _stateTimer: any;
+  private _typingTimer: any;
+
+  /**
+   * @param idleTimeout
+   *   The time (in milliseconds) without activity after which the user is
+   *   idle.
+   * @param awayTimeout
+   *   The time (in milliseconds) without activity after which the user is
+   *   away.
+   * @param typingTimeout
+   *   The time (in milliseconds) after the user last typed that they are
+   *   considered to be typing.
+   * @param onChanged
+   *   Called when the state or the typing flag changes.
+   */
+  constructor(idleTimeout: number, awayTimeout: number, typingTimeout: number, onChanged: () => void) {
+    this._idleTimeout = idleTimeout;
+    this._awayTimeout = Math.max(idleTimeout, awayTimeout);
+    this._typingTimeout = typingTimeout;
+    this._onChanged = onChanged;
+
+    this._state = "active";
+    this._typing = false;
+    this._lastActivity = Date.now();
+    this._stateTimer = null;
+    this._typingTimer = null;
+    this._schedule(this._idleTimeout, "idle");
+  }
+
+  public getState(): RemoteCursorActivityState {
+    return this._state;
+  }
+
+  public isTyping(): boolean {
+    return this._typing;
+  }
+
+  public getLastActivity(): number {
+    return this._lastActivity;
+  }
+
+  public markActive(): void {
+    this._lastActivity = Date.now();
+    this._schedule(this._idleTimeout, "idle");
+    this._update("active", this._typing);
+  }
+
+  public markTyping(): void {
+    if (this._typingTimer !== null) {
+      clearTimeout(this._typingTimer);
+    }
+    this._typingTimer = setTimeout(() => {
+      this._typingTimer = null;
+      this._update(this._state, false);
+    }, this._typingTimeout);
+
+    this._lastActivity = Date.now();
+    this._schedule(this._idleTimeout, "idle");
+    this._update("active", true);
+  }
+
+  public dispose(): void {
+    clearTimeout(this._stateTimer);
+    clearTimeout(this._typingTimer);
+    this._stateTimer = null;
+    this._typingTimer = null;
+  }
+
+  private _schedule(delay: number, state: RemoteCursorActivityState): void {
+    if (this._stateTimer !== null) {
+      clearTimeout(this._stateTimer);
+    }
+
+    this._stateTimer = setTimeout(() => {
+      this._stateTimer = null;
+      if (state === "idle") {
+        this._schedule(this._awayTimeout - this._idleTimeout, "away");
+      }
+      this._update(state, this._typing);
+    }, delay);
+  }
+
+  private _update(state: RemoteCursorActivityState, typing: boolean): void {
+    if (state !== this._state || typing !== this._typing) {
+      this._state = state;
+      this._typing = typing;
+      this._onChanged();
+    }
+  }
+}
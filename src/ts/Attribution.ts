@@ -0,0 +1,37 @@
+/*
+ * Copyright (c) 2019 Convergence Labs, Inc.
+ *
+ * This file is part of the CodeMirror Collaborative Extensions, which is
+ * released under the terms of the MIT license. A copy of the MIT license
+ * is usually provided as part of this source code package in the LICENCE
+ * file. If it was not, please see <https://opensource.org/licenses/MIT>
+ */
+
+/**
+ * How attributed text is rendered.
+ *
+ * - "none": Attribution is tracked but not rendered.
+ * - "underline": Text is underlined in the color of its author.
+ * - "background": Text is highlighted in a translucent color of its author.
+ */
+export type AttributionStyle = "none" | "underline" | "background";
+
+/**
+ * A range of the document that was written by a single author.
+ */
+export interface IAttributionSpan {
+  /**
+   * The id of the author.
+   */
+  author: string;
+
+  /**
+   * The zero-based index of the start of the range.
+   */
+  start: number;
+
+  /**
+   * The zero-based index of the end of the range, exclusive.
+   */
+  end: number;
+}
@@ -0,0 +1,373 @@
+/*
+ * Copyright (c) 2019 Convergence Labs, Inc.
+ *
+ * This file is part of the CodeMirror Collaborative Extensions, which is
+ * released under the terms of the MIT license. A copy of the MIT license
+ * is usually provided as part of this source code package in the LICENCE
+ * file. If it was not, please see <https://opensource.org/licenses/MIT>
+ */
+
+import {TinyColor} from "@ctrl/tinycolor";
+import {Doc, EditorChange, EditorChangeCancellable, TextMarker} from "codemirror";
+import {IAttributionSpan} from "./Attribution";
+import {DocOperation} from "./DocOperation";
+import {DocumentText, IDocumentTextChange} from "./DocumentText";
+import {IAttributionTrackerOptions} from "./IAttributionTrackerOptions";
+import {IDocEvents} from "./IDocEvents";
+import {Validation} from "./Validation";
+
+/**
+ * The AttributionTracker records who wrote each part of the document. Text
+ * inserted by a remote edit is attributed to the author passed to the
+ * EditorContentManager's applyOperations method, and text inserted locally
+ * to the local user. Attribution is kept in CodeMirror TextMarkers, so it
+ * follows the text through later edits, and can optionally be rendered.
+ */
+export class AttributionTracker {
+
+  /**
+   * Option defaults.
+   *
+   * @internal
+   */
+  private static readonly _DEFAULTS = {
+    style: "none",
+    remoteOrigin: "remote"
+  };
+
+  /**
+   * Maps an index before a change to the index after it, for the start of
+   * a range. Indices in the replaced text move after the inserted text.
+   *
+   * @internal
+   */
+  private static _mapStart(index: number, change: IDocumentTextChange): number {
+    const {removed, inserted} = change;
+    if (index < change.index) {
+      return index;
+    } else if (index >= change.index + removed.length) {
+      return index + inserted.length - removed.length;
+    } else {
+      return change.index + inserted.length;
+    }
+  }
+
+  /**
+   * Maps an index before a change to the index after it, for the end of a
+   * range. Indices in the replaced text move before the inserted text.
+   *
+   * @internal
+   */
+  private static _mapEnd(index: number, change: IDocumentTextChange): number {
+    const {removed, inserted} = change;
+    if (index <= change.index) {
+      return index;
+    } else if (index >= change.index + removed.length) {
+      return index + inserted.length - removed.length;
+    } else {
+      return change.index;
+    }
+  }
+
+  /**
+   * The options that configure the AttributionTracker.
+   * @internal
+   */
+  private readonly _options: IAttributionTrackerOptions;
+
+  /**
+   * The document whose attribution is tracked.
+   * @internal
+   */
+  private readonly _doc: Doc;
+
+  /**
+   * The markers holding the attribution, and their authors.
+   * @internal
+   */
+  private readonly _markers: Map<TextMarker, string>;
+
+  /**
+   * The text of the document according to the "change" events received so
+   * far, which the positions of each change are resolved against.
+   * @internal
+   */
+  private readonly _content: DocumentText;
+
+  /**
+   * The text inserted by the changes received, that is attributed once the
+   * events of all changes made have been received. The ranges are relative
+   * to the content.
+   * @internal
+   */
+  private _pending: IAttributionSpan[];
+
+  /**
+   * The authors of the remote edits made, whose "change" events have not
+   * been received yet.
+   * @internal
+   */
+  private _remoteAuthors: Array<string | null>;
+
+  /**
+   * Constructs a new AttributionTracker using the supplied options.
+   *
+   * @param options
+   *   The options that configure the AttributionTracker.
+   */
+  constructor(options: IAttributionTrackerOptions) {
+    this._options = {...AttributionTracker._DEFAULTS, ...options} as IAttributionTrackerOptions;
+
+    Validation.assertDefined(this._options, "options");
+    if (this._options.doc === undefined) {
+      Validation.assertDefined(this._options.editor, "options.editor");
+    }
+    if (["none", "underline", "background"].indexOf(this._options.style) < 0) {
+      throw new Error(`options.style must be "none", "underline" or "background" but was: ${this._options.style}`);
+    }
+    if (this._options.style !== "none") {
+      Validation.assertFunction(this._options.getColor, "options.getColor");
+    }
+    if (this._options.localAuthor !== undefined) {
+      Validation.assertString(this._options.localAuthor, "options.localAuthor");
+    }
+
+    this._doc = this._options.doc !== undefined ? this._options.doc : this._options.editor.getDoc();
+    this._markers = new Map<TextMarker, string>();
+    this._content = new DocumentText(this._doc.getValue("\n"));
+    this._pending = [];
+    this._remoteAuthors = [];
+
+    const doc = this._doc as Doc & IDocEvents;
+    doc.on("beforeChange", this._onBeforeChange);
+    doc.on("change", this._onChange);
+  }
+
+  /**
+   * Gets the author of the character at an index.
+   *
+   * @param index
+   *   The zero-based index of the character.
+   *
+   * @returns
+   *   The id of the author, or null if the character is not attributed.
+   */
+  public getAuthorAt(index: number): string | null {
+    Validation.assertNumber(index, "index");
+
+    const span = this.getSpans().filter((s) => s.start <= index && index < s.end)[0];
+    return span !== undefined ? span.author : null;
+  }
+
+  /**
+   * Gets the attributed ranges of the document, for example to store them
+   * alongside the document.
+   *
+   * @returns
+   *   The attributed ranges, ordered by their start. Text that is not
+   *   attributed is not covered by any range.
+   */
+  public getSpans(): IAttributionSpan[] {
+    const doc = this._doc;
+    const spans: IAttributionSpan[] = [];
+    this._markers.forEach((author, marker) => {
+      const range = marker.find();
+      if (range) {
+        spans.push({author, start: doc.indexFromPos(range.from), end: doc.indexFromPos(range.to)});
+      }
+    });
+    return spans.sort((a, b) => a.start - b.start);
+  }
+
+  /**
+   * Replaces the attribution of the document, for example with ranges that
+   * were stored with getSpans.
+   *
+   * @param spans
+   *   The attributed ranges.
+   */
+  public setSpans(spans: IAttributionSpan[]): void {
+    Validation.assertArray(spans, "spans");
+    spans.forEach((span, i) => {
+      Validation.assertString(span.author, `spans[${i}].author`);
+      Validation.assertNonNegativeInteger(span.start, `spans[${i}].start`);
+      Validation.assertNonNegativeInteger(span.end, `spans[${i}].end`);
+    });
+
+    DocOperation.run(this._doc, () => {
+      this.clear();
+      spans.forEach((span) => this._attribute(span.start, span.end, span.author));
+    });
+  }
+
+  /**
+   * Removes all attribution from the document.
+   */
+  public clear(): void {
+    this._markers.forEach((_, marker) => marker.clear());
+    this._markers.clear();
+  }
+
+  /**
+   * Disposes of the AttributionTracker, removing all attribution from the
+   * document.
+   */
+  public dispose(): void {
+    const doc = this._doc as Doc & IDocEvents;
+    doc.off("beforeChange", this._onBeforeChange);
+    doc.off("change", this._onChange);
+    this.clear();
+  }
+
+  /**
+   * Records the author of each remote edit before it is made, as the content
+   * manager only knows the author while it applies the edit, and CodeMirror
+   * may report the change later.
+   *
+   * @internal
+   */
+  private _onBeforeChange = (_: Doc, changeObj: EditorChangeCancellable) => {
+    if (changeObj.origin === this._options.remoteOrigin) {
+      this._remoteAuthors.push(this._options.contentManager ? this._options.contentManager.getRemoteAuthor() : null);
+    }
+  }
+
+  /**
+   * Attributes the text inserted by a change. CodeMirror reports the changes
+   * of an operation once the operation has ended, and those of a document
+   * that is not shown in an editor on a timer, so later changes may already
+   * have been made. The change is resolved against a copy of the text that
+   * is updated in the order the changes are reported, and the inserted text
+   * is attributed once the copy has caught up with the document.
+   *
+   * @internal
+   */
+  private _onChange = (doc: Doc, changeObj: EditorChange) => {
+    let author: string | null;
+    if (changeObj.origin === this._options.remoteOrigin) {
+      // The change may have been made through a linked document, whose
+      // remote edits were not recorded.
+      const contentManager = this._options.contentManager;
+      author = this._remoteAuthors.length > 0 ? this._remoteAuthors.shift() :
+        contentManager ? contentManager.getRemoteAuthor() : null;
+    } else {
+      author = this._options.localAuthor !== undefined ? this._options.localAuthor : null;
+    }
+
+    const change = this._content.applyChange(changeObj, doc.firstLine());
+    this._pending.forEach((span) => {
+      span.start = AttributionTracker._mapStart(span.start, change);
+      span.end = AttributionTracker._mapEnd(span.end, change);
+    });
+    this._pending.push({author, start: change.index, end: change.index + change.inserted.length});
+
+    if (this._isCurrent()) {
+      const pending = this._pending;
+      this._pending = [];
+      // The authors of remote edits that were cancelled are left over.
+      this._remoteAuthors = [];
+      DocOperation.run(this._doc, () => pending
+        .filter((span) => span.end > span.start)
+        .forEach((span) => this._attribute(span.start, span.end, span.author)));
+    }
+
+    // Markers whose text was deleted are cleared by CodeMirror.
+    if (change.removed.length > 0) {
+      this._markers.forEach((_, marker) => {
+        if (!marker.find()) {
+          this._markers.delete(marker);
+        }
+      });
+    }
+  }
+
+  /**
+   * Determines if the events of all changes made to the document have been
+   * received.
+   *
+   * @internal
+   */
+  private _isCurrent(): boolean {
+    const doc = this._doc;
+    const lastLine = doc.lastLine();
+    return doc.lineCount() === this._content.getLineCount() &&
+      doc.indexFromPos({line: lastLine, ch: doc.getLine(lastLine).length}) === this._content.getLength();
+  }
+
+  /**
+   * Attributes a range of the document to an author. Adjacent ranges of the
+   * same author are merged, and the range is removed from the ranges of
+   * other authors.
+   *
+   * @internal
+   */
+  private _attribute(start: number, end: number, author: string | null): void {
+    const doc = this._doc;
+    const from = doc.posFromIndex(start);
+    const to = doc.posFromIndex(end);
+
+    const markers = doc.findMarks(from, to).concat(doc.findMarksAt(from), doc.findMarksAt(to))
+      .filter((marker, i, all) => this._markers.has(marker) && all.indexOf(marker) === i);
+
+    markers.forEach((marker) => {
+      const range = marker.find();
+      const markerStart = doc.indexFromPos(range.from);
+      const markerEnd = doc.indexFromPos(range.to);
+      const markerAuthor = this._markers.get(marker);
+
+      if (markerAuthor === author) {
+        this._clearMarker(marker);
+        start = Math.min(start, markerStart);
+        end = Math.max(end, markerEnd);
+      } else if (markerStart < end && markerEnd > start) {
+        this._clearMarker(marker);
+        if (markerStart < start) {
+          this._mark(markerStart, start, markerAuthor);
+        }
+        if (markerEnd > end) {
+          this._mark(end, markerEnd, markerAuthor);
+        }
+      }
+    });
+
+    if (author !== null) {
+      this._mark(start, end, author);
+    }
+  }
+
+  /**
+   * @internal
+   */
+  private _mark(start: number, end: number, author: string): void {
+    const doc = this._doc;
+    const marker = doc.markText(doc.posFromIndex(start), doc.posFromIndex(end), {
+      className: "codemirror-remote-attribution",
+      css: this._getCss(author),
+      inclusiveLeft: false,
+      inclusiveRight: false
+    });
+    this._markers.set(marker, author);
+  }
+
+  /**
+   * @internal
+   */
+  private _clearMarker(marker: TextMarker): void {
+    marker.clear();
+    this._markers.delete(marker);
+  }
+
+  /**
+   * @internal
+   */
+  private _getCss(author: string): string | undefined {
+    switch (this._options.style) {
+      case "underline":
+        return `border-bottom: 2px solid ${this._options.getColor(author)}`;
+      case "background":
+        return `background-color: ${new TinyColor(this._options.getColor(author)).setAlpha(0.2).toRgbString()}`;
+      default:
+        return undefined;
+    }
+  }
+}
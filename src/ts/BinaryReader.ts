@@ -0,0 +1,61 @@
+/*
+ * Copyright (c) 2019 Convergence Labs, Inc.
+ *
+ * This file is part of the CodeMirror Collaborative Extensions, which is
+ * released under the terms of the MIT license. A copy of the MIT license
+ * is usually provided as part of this source code package in the LICENCE
+ * file. If it was not, please see <https://opensource.org/licenses/MIT>
+ */
+
+/**
+ * Reads the values written by a BinaryWriter.
+ *
+ * @internal
+ */
+export class BinaryReader {
+  private readonly _bytes: Uint8Array;
+  private _offset: number;
+
+  constructor(bytes: Uint8Array) {
+    if (!(bytes instanceof Uint8Array)) {
+      throw new Error(`data must be a Uint8Array but was: ${bytes}`);
+    }
+    this._bytes = bytes;
+    this._offset = 0;
+  }
+
+  public readNumber(): number {
+    let value = 0;
+    let multiplier = 1;
+    let byte: number;
+    do {
+      byte = this._readByte();
+      value += (byte % 0x80) * multiplier;
+      multiplier *= 0x80;
+    } while (byte >= 0x80);
+    return value;
+  }
+
+  public readString(): string {
+    const length = this.readNumber();
+    if (this._offset + length > this._bytes.length) {
+      throw new Error("Unexpected end of binary data");
+    }
+    const bytes = this._bytes.subarray(this._offset, this._offset + length);
+    this._offset += length;
+    return new TextDecoder().decode(bytes);
+  }
+
+  public assertDone(): void {
+    if (this._offset !== this._bytes.length) {
+      throw new Error(`Unexpected data after offset ${this._offset} of binary data`);
+    }
+  }
+
+  private _readByte(): number {
+    if (this._offset >= this._bytes.length) {
+      throw new Error("Unexpected end of binary data");
+    }
+    return this._bytes[this._offset++];
+  }
+}
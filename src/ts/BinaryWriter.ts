@@ -0,0 +1,41 @@
+/*
+ * Copyright (c) 2019 Convergence Labs, Inc.
+ *
+ * This file is part of the CodeMirror Collaborative Extensions, which is
+ * released under the terms of the MIT license. A copy of the MIT license
+ * is usually provided as part of this source code package in the LICENCE
+ * file. If it was not, please see <https://opensource.org/licenses/MIT>
+ */
+
+import {Validation} from "./Validation";
+
+/**
+ * Writes variable length integers and strings to a growing buffer.
+ *
+ * @internal
+ */
+export class BinaryWriter {
+  private _bytes: number[] = [];
+
+  public writeNumber(value: number): void {
+    Validation.assertNonNegativeInteger(value, "value");
+
+    // Division is used rather than bit shifts, which would truncate values
+    // to 32 bits.
+    while (value >= 0x80) {
+      this._bytes.push((value % 0x80) + 0x80);
+      value = Math.floor(value / 0x80);
+    }
+    this._bytes.push(value);
+  }
+
+  public writeString(value: string): void {
+    const bytes = new TextEncoder().encode(value);
+    this.writeNumber(bytes.length);
+    bytes.forEach((byte) => this._bytes.push(byte));
+  }
+
+  public toBytes(): Uint8Array {
+    return new Uint8Array(this._bytes);
+  }
+}
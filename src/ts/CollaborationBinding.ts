@@ -0,0 +1,325 @@
+/*
+ * Copyright (c) 2019 Convergence Labs, Inc.
+ *
+ * This file is part of the CodeMirror Collaborative Extensions, which is
+ * released under the terms of the MIT license. A copy of the MIT license
+ * is usually provided as part of this source code package in the LICENCE
+ * file. If it was not, please see <https://opensource.org/licenses/MIT>
+ */
+
+import {AttributionTracker} from "./AttributionTracker";
+import {CollaborationMessage} from "./CollaborationMessage";
+import {ContentOperation} from "./ContentOperation";
+import {EditorContentManager} from "./EditorContentManager";
+import {ICollaborationBindingOptions, IRemoteUserInfo} from "./ICollaborationBindingOptions";
+import {ILocalSelection} from "./ILocalSelection";
+import {LocalSelectionManager} from "./LocalSelectionManager";
+import {MessageCodec} from "./MessageCodec";
+import {RemoteUser} from "./RemoteUser";
+import {RemoteUserManager} from "./RemoteUserManager";
+import {Validation} from "./Validation";
+
+/**
+ * The CollaborationBinding connects an editor to other users through an
+ * ITransport. Local content changes, cursors and selections are captured with
+ * the EditorContentManager and the LocalSelectionManager and sent as
+ * messages, encoded with the MessageCodec. Messages from other users are
+ * applied with the EditorContentManager and rendered with the
+ * RemoteUserManager.
+ *
+ * Content operations are relayed as-is. The binding does not resolve
+ * concurrent edits, so it is suited to transports that deliver messages in
+ * the same order to every user, or to use alongside the TextOperationClient.
+ */
+export class CollaborationBinding {
+
+  /**
+   * Option defaults.
+   *
+   * @internal
+   */
+  private static readonly _DEFAULTS = {
+    tooltips: true,
+    tooltipDuration: 1,
+    selectionDelay: 0,
+    user: {color: "gray"}
+  };
+
+  /**
+   * The options that configure the CollaborationBinding.
+   * @internal
+   */
+  private readonly _options: ICollaborationBindingOptions;
+
+  /**
+   * @internal
+   */
+  private readonly _contentManager: EditorContentManager;
+
+  /**
+   * @internal
+   */
+  private readonly _localSelectionManager: LocalSelectionManager;
+
+  /**
+   * @internal
+   */
+  private readonly _remoteUserManager: RemoteUserManager;
+
+  /**
+   * @internal
+   */
+  private readonly _attributionTracker: AttributionTracker | null;
+
+  /**
+   * The remote users that messages have been received from, by id.
+   * @internal
+   */
+  private readonly _remoteUsers: Map<string, RemoteUser>;
+
+  /**
+   * Constructs a new CollaborationBinding using the supplied options.
+   *
+   * @param options
+   *   The options that configure the CollaborationBinding.
+   */
+  constructor(options: ICollaborationBindingOptions) {
+    this._options = {...CollaborationBinding._DEFAULTS, ...options};
+
+    Validation.assertDefined(this._options, "options");
+    Validation.assertDefined(this._options.editor, "options.editor");
+    Validation.assertDefined(this._options.transport, "options.transport");
+    Validation.assertString(this._options.userId, "options.userId");
+    Validation.assertString(this._options.user.color, "options.user.color");
+
+    const editor = this._options.editor;
+
+    this._contentManager = new EditorContentManager({
+      editor,
+      onInsert: (index, text) => this._sendContent({type: "insert", index, text}),
+      onReplace: (index, length, text) => this._sendContent({type: "replace", index, length, text}),
+      onDelete: (index, length) => this._sendContent({type: "delete", index, length})
+    });
+
+    this._localSelectionManager = new LocalSelectionManager({
+      editor,
+      rateLimit: "throttle",
+      delay: this._options.selectionDelay,
+      onSelectionChanged: this._onLocalSelectionChanged
+    });
+
+    this._remoteUserManager = new RemoteUserManager({
+      editor,
+      tooltips: this._options.tooltips,
+      tooltipDuration: this._options.tooltipDuration
+    });
+
+    this._remoteUsers = new Map<string, RemoteUser>();
+
+    this._attributionTracker = this._options.attribution !== undefined ?
+      new AttributionTracker({
+        editor,
+        contentManager: this._contentManager,
+        localAuthor: this._options.userId,
+        style: this._options.attribution,
+        getColor: this._getUserColor
+      }) :
+      null;
+
+    this._options.transport.addMessageListener(this._onMessage);
+    this._sendJoin();
+  }
+
+  /**
+   * Gets the tracker that records who wrote each part of the document.
+   *
+   * @returns
+   *   The attribution tracker, or null if the attribution option is not set.
+   */
+  public getAttributionTracker(): AttributionTracker | null {
+    return this._attributionTracker;
+  }
+
+  /**
+   * Disposes of the binding, removing all remote users from the editor and
+   * disconnecting from the transport. The other users are told that the local
+   * user has left.
+   */
+  public dispose(): void {
+    this._send({type: "leave", userId: this._options.userId});
+    this._options.transport.removeMessageListener(this._onMessage);
+    this._contentManager.dispose();
+    this._localSelectionManager.dispose();
+    if (this._attributionTracker !== null) {
+      this._attributionTracker.dispose();
+    }
+    this._remoteUserManager.dispose();
+    this._remoteUsers.clear();
+  }
+
+  /**
+   * @internal
+   */
+  private _sendContent(operation: ContentOperation): void {
+    this._send({type: "content", userId: this._options.userId, operations: [operation]});
+  }
+
+  /**
+   * @internal
+   */
+  private _sendJoin(): void {
+    const {color, label} = this._options.user;
+    this._send({type: "join", userId: this._options.userId, color, label});
+  }
+
+  /**
+   * @internal
+   */
+  private _onLocalSelectionChanged = (selection: ILocalSelection) => {
+    const userId = this._options.userId;
+    this._send({
+      type: "cursor",
+      userId,
+      indices: selection.ranges.map((range) => range.headIndex)
+    });
+    this._send({
+      type: "selection",
+      userId,
+      ranges: selection.ranges
+        .filter((range) => range.anchorIndex !== range.headIndex)
+        .map((range) => ({anchor: range.anchorIndex, head: range.headIndex}))
+    });
+  }
+
+  /**
+   * @internal
+   */
+  private _send(message: CollaborationMessage): void {
+    this._options.transport.send(MessageCodec.encode(message));
+  }
+
+  /**
+   * @internal
+   */
+  private _onMessage = (data: string) => {
+    let message: CollaborationMessage;
+    try {
+      message = MessageCodec.decode(data);
+    } catch (e) {
+      if (this._options.onMessageError) {
+        this._options.onMessageError(e, data);
+        return;
+      }
+      throw e;
+    }
+
+    if (message.userId === this._options.userId) {
+      return;
+    }
+
+    const editor = this._options.editor;
+    switch (message.type) {
+      case "content":
+        this._contentManager.applyOperations(message.operations, message.userId);
+        this._getRemoteUser(message.userId).getCursor().markTyping();
+        break;
+      case "cursor":
+        if (message.indices.length > 0) {
+          this._getRemoteUser(message.userId).getCursor()
+            .setPositions(message.indices.map((index) => editor.posFromIndex(index)));
+        }
+        break;
+      case "selection":
+        this._getRemoteUser(message.userId).getSelection().setRanges(message.ranges.map((range) => ({
+          anchor: editor.posFromIndex(range.anchor),
+          head: editor.posFromIndex(range.head)
+        })));
+        break;
+      case "join":
+        this._onJoin(message.userId, message.color, message.label);
+        break;
+      case "leave":
+        this._onLeave(message.userId);
+        break;
+      default:
+        throw new Error("Unknown message type: " + JSON.stringify(message));
+    }
+  }
+
+  /**
+   * Adds a user that joined the session. A user that is new to us has not
+   * heard of the local user yet, so the local user's join and current
+   * selection are sent in reply. A user that joins again, for example after
+   * reconnecting, is kept as is, unless their color or label changed. As
+   * those are fixed for the lifetime of a remote user, the user is replaced
+   * in that case.
+   *
+   * @internal
+   */
+  private _onJoin(userId: string, color?: string, label?: string): void {
+    const info = color !== undefined ? {color, label} : this._resolveUser(userId);
+    const user = this._remoteUsers.get(userId);
+    if (user === undefined) {
+      this._addRemoteUser(userId, info);
+      this._sendJoin();
+      this._onLocalSelectionChanged(this._localSelectionManager.getSelection());
+    } else if (user.getColor() !== info.color || user.getLabel() !== info.label) {
+      this._onLeave(userId);
+      this._addRemoteUser(userId, info);
+    }
+  }
+
+  /**
+   * @internal
+   */
+  private _onLeave(userId: string): void {
+    const user = this._remoteUsers.get(userId);
+    if (user !== undefined) {
+      user.dispose();
+      this._remoteUsers.delete(userId);
+    }
+  }
+
+  /**
+   * A helper method that gets the remote user for an id, adding them to the
+   * editor the first time a message is received from them.
+   *
+   * @internal
+   */
+  private _getRemoteUser(userId: string): RemoteUser {
+    const user = this._remoteUsers.get(userId);
+    return user !== undefined ? user : this._addRemoteUser(userId, this._resolveUser(userId));
+  }
+
+  /**
+   * @internal
+   */
+  private _addRemoteUser(userId: string, info: IRemoteUserInfo): RemoteUser {
+    const user = this._remoteUserManager.addUser(userId, info.color, info.label);
+    this._remoteUsers.set(userId, user);
+    return user;
+  }
+
+  /**
+   * Gets the color of the local user or a remote user, for attribution.
+   *
+   * @internal
+   */
+  private _getUserColor = (userId: string) => {
+    if (userId === this._options.userId) {
+      return this._options.user.color;
+    }
+
+    const user = this._remoteUsers.get(userId);
+    return user !== undefined ? user.getColor() : this._resolveUser(userId).color;
+  }
+
+  /**
+   * @internal
+   */
+  private _resolveUser(userId: string): IRemoteUserInfo {
+    return this._options.resolveUser ?
+      this._options.resolveUser(userId) :
+      {color: CollaborationBinding._DEFAULTS.user.color};
+  }
+}
@@ -0,0 +1,65 @@
+/*
+ * Copyright (c) 2019 Convergence Labs, Inc.
+ *
+ * This file is part of the CodeMirror Collaborative Extensions, which is
+ * released under the terms of the MIT license. A copy of the MIT license
+ * is usually provided as part of this source code package in the LICENCE
+ * file. If it was not, please see <https://opensource.org/licenses/MIT>
+ */
+
+import {ContentOperation} from "./ContentOperation";
+
+/**
+ * A content change made by a user. The operations are applied atomically,
+ * using EditorContentManager.applyOperations.
+ */
+export interface IContentMessage {
+  type: "content";
+  userId: string;
+  operations: ContentOperation[];
+}
+
+/**
+ * The zero-based indices of a user's cursors. The first index is the primary
+ * cursor.
+ */
+export interface ICursorMessage {
+  type: "cursor";
+  userId: string;
+  indices: number[];
+}
+
+/**
+ * A user's selected ranges, as zero-based indices.
+ */
+export interface ISelectionMessage {
+  type: "selection";
+  userId: string;
+  ranges: Array<{anchor: number, head: number}>;
+}
+
+/**
+ * Announces that a user has joined the session. A user that receives a join
+ * from someone new answers with its own join, so that everyone learns about
+ * everyone else.
+ */
+export interface IJoinMessage {
+  type: "join";
+  userId: string;
+  color?: string;
+  label?: string;
+}
+
+/**
+ * Announces that a user has left the session.
+ */
+export interface ILeaveMessage {
+  type: "leave";
+  userId: string;
+}
+
+/**
+ * A message exchanged between CollaborationBindings over an ITransport. On
+ * the wire, messages are encoded with the MessageCodec.
+ */
+export type CollaborationMessage = IContentMessage | ICursorMessage | ISelectionMessage | IJoinMessage | ILeaveMessage;
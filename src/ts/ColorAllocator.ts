@@ -0,0 +1,216 @@
+/*
+ * Copyright (c) 2019 Convergence Labs, Inc.
+ *
+ * This file is part of the CodeMirror Collaborative Extensions, which is
+ * released under the terms of the MIT license. A copy of the MIT license
+ * is usually provided as part of this source code package in the LICENCE
+ * file. If it was not, please see <https://opensource.org/licenses/MIT>
+ */
+
+import {readability, TinyColor} from "@ctrl/tinycolor";
+import {IColorAllocatorOptions} from "./IColorAllocatorOptions";
+import {StringHash} from "./StringHash";
+import {Validation} from "./Validation";
+
+/**
+ * The ColorAllocator assigns colors to users, so that callers don't have to
+ * pick them. A user's color is chosen deterministically from their id, so
+ * the same user tends to get the same color in every session, but no two
+ * users that are present at the same time get the same color. Colors are
+ * picked to contrast with the background of the editor's theme.
+ *
+ * A ColorAllocator can be shared by the RemoteCursorManager and the
+ * RemoteSelectionManager through their colorAllocator option.
+ */
+export class ColorAllocator {
+
+  /**
+   * The default colors for themes with a light background.
+   */
+  public static readonly LIGHT_PALETTE: string[] = [
+    "#D32F2F", "#1976D2", "#388E3C", "#F57C00", "#7B1FA2", "#0097A7",
+    "#C2185B", "#5D4037", "#303F9F", "#689F38", "#E64A19", "#00796B"
+  ];
+
+  /**
+   * The default colors for themes with a dark background.
+   */
+  public static readonly DARK_PALETTE: string[] = [
+    "#FF8A80", "#82B1FF", "#B9F6CA", "#FFD180", "#EA80FC", "#84FFFF",
+    "#FF80AB", "#FFFF8D", "#8C9EFF", "#CCFF90", "#FF9E80", "#A7FFEB"
+  ];
+
+  /**
+   * Gets a text color that is readable on a background color, for example
+   * for text in a cursor tooltip.
+   *
+   * @param background
+   *   The css background color.
+   *
+   * @returns
+   *   Black or white.
+   */
+  public static getContrastingTextColor(background: string): string {
+    return new TinyColor(background).isDark() ? "#FFFFFF" : "#000000";
+  }
+
+  /**
+   * Option defaults.
+   *
+   * @internal
+   */
+  private static readonly _DEFAULTS = {
+    minContrast: 2
+  };
+
+  /**
+   * The angle (in degrees) between the hues of generated colors, which
+   * spreads any number of them around the color wheel.
+   *
+   * @internal
+   */
+  private static readonly _GOLDEN_ANGLE = 137.508;
+
+  /**
+   * The options that configure the ColorAllocator.
+   * @internal
+   */
+  private readonly _options: IColorAllocatorOptions;
+
+  /**
+   * The allocated colors, and the number of times they were allocated, by
+   * user id.
+   * @internal
+   */
+  private readonly _allocations: Map<string, {color: string, references: number}>;
+
+  /**
+   * Constructs a new ColorAllocator using the supplied options.
+   *
+   * @param options
+   *   The options that configure the ColorAllocator.
+   */
+  constructor(options?: IColorAllocatorOptions) {
+    this._options = {...ColorAllocator._DEFAULTS, ...options};
+
+    Validation.assertNumber(this._options.minContrast, "options.minContrast");
+    if (this._options.background !== undefined) {
+      Validation.assertString(this._options.background, "options.background");
+    }
+    if (this._options.palette !== undefined) {
+      Validation.assertArray(this._options.palette, "options.palette");
+      this._options.palette.forEach((color, i) => Validation.assertString(color, `options.palette[${i}]`));
+    }
+
+    this._allocations = new Map();
+  }
+
+  /**
+   * Allocates a color for a user. Allocating a color for a user that already
+   * has one returns the same color; every allocation must be balanced by a
+   * call to release().
+   *
+   * @param id
+   *   The unique id of the user.
+   *
+   * @returns
+   *   The css color of the user.
+   */
+  public allocate(id: string): string {
+    Validation.assertString(id, "id");
+
+    const allocation = this._allocations.get(id);
+    if (allocation !== undefined) {
+      allocation.references++;
+      return allocation.color;
+    }
+
+    const color = this._pickColor(id);
+    this._allocations.set(id, {color, references: 1});
+    return color;
+  }
+
+  /**
+   * Releases a color allocated for a user. When all of the allocations for
+   * the user are released, the color may be given to other users.
+   *
+   * @param id
+   *   The unique id of the user.
+   */
+  public release(id: string): void {
+    const allocation = this._allocations.get(id);
+    if (allocation !== undefined && --allocation.references === 0) {
+      this._allocations.delete(id);
+    }
+  }
+
+  /**
+   * Gets the color allocated for a user.
+   *
+   * @param id
+   *   The unique id of the user.
+   *
+   * @returns
+   *   The color, or null if no color is allocated for the user.
+   */
+  public getColor(id: string): string | null {
+    const allocation = this._allocations.get(id);
+    return allocation !== undefined ? allocation.color : null;
+  }
+
+  /**
+   * Picks the first color that is free, starting at the user's preferred
+   * color. If all of the colors are taken, a new color is generated.
+   *
+   * @internal
+   */
+  private _pickColor(id: string): string {
+    const background = this._getBackground();
+    const dark = new TinyColor(background).isDark();
+    const palette = this._options.palette !== undefined ?
+      this._options.palette :
+      (dark ? ColorAllocator.DARK_PALETTE : ColorAllocator.LIGHT_PALETTE);
+
+    const readable = palette.filter((color) => readability(color, background) >= this._options.minContrast);
+    const candidates = readable.length > 0 ? readable : palette;
+
+    const taken: string[] = [];
+    this._allocations.forEach((allocation) => taken.push(allocation.color.toLowerCase()));
+
+    const preferred = StringHash.hash(id);
+    for (let i = 0; i < candidates.length; i++) {
+      const color = candidates[(preferred + i) % candidates.length];
+      if (taken.indexOf(color.toLowerCase()) < 0) {
+        return color;
+      }
+    }
+
+    // Generate colors with evenly spread hues, light on dark backgrounds and
+    // dark on light backgrounds.
+    for (let i = 0; ; i++) {
+      const h = ((preferred % 360) + i * ColorAllocator._GOLDEN_ANGLE) % 360;
+      const color = new TinyColor({h, s: 0.7, l: dark ? 0.7 : 0.4}).toHexString();
+      if (taken.indexOf(color.toLowerCase()) < 0) {
+        return color;
+      }
+    }
+  }
+
+  /**
+   * @internal
+   */
+  private _getBackground(): string {
+    if (this._options.background !== undefined) {
+      return this._options.background;
+    }
+
+    if (this._options.editor !== undefined) {
+      const color = new TinyColor(window.getComputedStyle(this._options.editor.getWrapperElement()).backgroundColor);
+      if (color.isValid && color.getAlpha() > 0) {
+        return color.toRgbString();
+      }
+    }
+
+    return "#FFFFFF";
+  }
+}
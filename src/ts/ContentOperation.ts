@@ -0,0 +1,41 @@
+/*
+ * Copyright (c) 2019 Convergence Labs, Inc.
+ *
+ * This file is part of the CodeMirror Collaborative Extensions, which is
+ * released under the terms of the MIT license. A copy of the MIT license
+ * is usually provided as part of this source code package in the LICENCE
+ * file. If it was not, please see <https://opensource.org/licenses/MIT>
+ */
+
+/**
+ * Inserts text at a zero-based index.
+ */
+export interface IInsertOperation {
+  type: "insert";
+  index: number;
+  text: string;
+}
+
+/**
+ * Replaces the range starting at a zero-based index with new text.
+ */
+export interface IReplaceOperation {
+  type: "replace";
+  index: number;
+  length: number;
+  text: string;
+}
+
+/**
+ * Deletes the range starting at a zero-based index.
+ */
+export interface IDeleteOperation {
+  type: "delete";
+  index: number;
+  length: number;
+}
+
+/**
+ * A single edit that can be applied by EditorContentManager.applyOperations.
+ */
+export type ContentOperation = IInsertOperation | IReplaceOperation | IDeleteOperation;
@@ -0,0 +1,147 @@
+/*
+ * Copyright (c) 2019 Convergence Labs, Inc.
+ *
+ * This file is part of the CodeMirror Collaborative Extensions, which is
+ * released under the terms of the MIT license. A copy of the MIT license
+ * is usually provided as part of this source code package in the LICENCE
+ * file. If it was not, please see <https://opensource.org/licenses/MIT>
+ */
+
+import {Position} from "codemirror";
+import {CrdtDocument} from "./CrdtDocument";
+import {ICrdtUpdate, IRelativePosition} from "./CrdtUpdate";
+import {EditorContentManager} from "./EditorContentManager";
+import {ICrdtBindingOptions} from "./ICrdtBindingOptions";
+import {Validation} from "./Validation";
+
+/**
+ * The CrdtBinding keeps an editor in sync with a CrdtDocument, for
+ * peer-to-peer deployments where there is no central server to order
+ * changes. Local changes are captured by an EditorContentManager, applied to
+ * the document and reported as updates. Updates from other copies of the
+ * document are integrated into the document and the resulting changes are
+ * applied to the editor.
+ */
+export class CrdtBinding {
+
+  /**
+   * Option defaults.
+   *
+   * @internal
+   */
+  private static readonly _DEFAULTS = {
+    remoteOrigin: "remote"
+  };
+
+  /**
+   * The options that configure the CrdtBinding.
+   * @internal
+   */
+  private readonly _options: ICrdtBindingOptions;
+
+  /**
+   * Captures local changes and applies remote ones.
+   * @internal
+   */
+  private readonly _contentManager: EditorContentManager;
+
+  /**
+   * Constructs a new CrdtBinding using the supplied options.
+   *
+   * @param options
+   *   The options that configure the CrdtBinding.
+   */
+  constructor(options: ICrdtBindingOptions) {
+    this._options = {...CrdtBinding._DEFAULTS, ...options};
+
+    Validation.assertDefined(this._options, "options");
+    Validation.assertDefined(this._options.editor, "options.editor");
+    Validation.assertDefined(this._options.document, "options.document");
+    Validation.assertFunction(this._options.onUpdate, "options.onUpdate");
+
+    const doc = this._options.document;
+    this._contentManager = new EditorContentManager({
+      editor: this._options.editor,
+      remoteOrigin: this._options.remoteOrigin,
+      onInsert: (index, text) => this._options.onUpdate(doc.insert(index, text)),
+      onReplace: (index, length, text) => {
+        const deleted = doc.delete(index, length);
+        const inserted = doc.insert(index, text);
+        this._options.onUpdate({operations: deleted.operations.concat(inserted.operations)});
+      },
+      onDelete: (index, length) => this._options.onUpdate(doc.delete(index, length))
+    });
+
+    // Load the document into the editor.
+    const editor = this._options.editor;
+    if (editor.getValue("\n") !== doc.getText()) {
+      const length = editor.indexFromPos({line: editor.lastLine(), ch: editor.getLine(editor.lastLine()).length});
+      this._contentManager.applyOperations([{type: "replace", index: 0, length, text: doc.getText()}]);
+    }
+  }
+
+  /**
+   * Gets the document the editor is bound to.
+   */
+  public getDocument(): CrdtDocument {
+    return this._options.document;
+  }
+
+  /**
+   * Applies an update from another copy of the document to the document and
+   * the editor. All resulting changes are made in a single CodeMirror
+   * operation.
+   *
+   * @param update
+   *   The update to apply.
+   */
+  public applyUpdate(update: ICrdtUpdate): void {
+    // The update is integrated with the local edits the document has seen, so
+    // every local change must have been reported first.
+    this._contentManager.flush();
+
+    const changes = this._options.document.applyUpdate(update);
+    if (changes.length > 0) {
+      this._options.editor.operation(() => {
+        changes.forEach((change) => this._contentManager.applyOperations([change]));
+      });
+    }
+  }
+
+  /**
+   * Creates a position that follows the text around it, which can be sent
+   * to other users in place of an index, for example for remote cursors.
+   *
+   * @param position
+   *   The position in the editor.
+   *
+   * @returns
+   *   The relative position.
+   */
+  public getRelativePosition(position: Position): IRelativePosition {
+    Validation.assertPosition(position, "position");
+    return this._options.document.getRelativePosition(this._options.editor.indexFromPos(position));
+  }
+
+  /**
+   * Finds the current position in the editor of a relative position.
+   *
+   * @param position
+   *   The relative position.
+   *
+   * @returns
+   *   The position in the editor, or null if the text the relative position
+   *   refers to has not been received yet.
+   */
+  public resolveRelativePosition(position: IRelativePosition): Position | null {
+    const index = this._options.document.resolveRelativePosition(position);
+    return index !== null ? this._options.editor.posFromIndex(index) : null;
+  }
+
+  /**
+   * Disposes of the binding. The document is left as it is.
+   */
+  public dispose(): void {
+    this._contentManager.dispose();
+  }
+}
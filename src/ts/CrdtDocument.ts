@@ -0,0 +1,598 @@
+/*
+ * Copyright (c) 2019 Convergence Labs, Inc.
+ *
+ * This file is part of the CodeMirror Collaborative Extensions, which is
+ * released under the terms of the MIT license. A copy of the MIT license
+ * is usually provided as part of this source code package in the LICENCE
+ * file. If it was not, please see <https://opensource.org/licenses/MIT>
+ */
+
+import {ContentOperation, IDeleteOperation, IInsertOperation} from "./ContentOperation";
+import {
+  CrdtOperation,
+  ICrdtDeleteOperation,
+  ICrdtId,
+  ICrdtInsertOperation,
+  ICrdtStateVector,
+  ICrdtUpdate,
+  IRelativePosition
+} from "./CrdtUpdate";
+import {Validation} from "./Validation";
+
+/**
+ * The CrdtDocument is a sequence CRDT (a Replicated Growable Array) that
+ * holds the text of a document. Every character has a unique, immutable id,
+ * and deleted characters are kept as tombstones, so that operations from
+ * different clients can be applied in any order and every copy of the
+ * document converges to the same text without a central server.
+ *
+ * Operations are delivered to other copies as ICrdtUpdates. Operations that
+ * arrive before the operations they depend on are buffered until those
+ * arrive. Two copies can be brought in sync by exchanging state vectors and
+ * the updates that each copy is missing.
+ */
+export class CrdtDocument {
+
+  /**
+   * @internal
+   */
+  private static readonly _SPLICE_CHUNK = 10000;
+
+  /**
+   * A helper method to build the key of a character in the id map.
+   *
+   * @internal
+   */
+  private static _key(client: number, clock: number): string {
+    return client + ":" + clock;
+  }
+
+  /**
+   * Orders characters that were inserted after the same character. Later
+   * insertions (by Lamport timestamp) come first; ties are broken by client.
+   *
+   * @internal
+   */
+  private static _isAfter(a: IItem, b: IItem): boolean {
+    return a.lamport > b.lamport || (a.lamport === b.lamport && a.client > b.client);
+  }
+
+  /**
+   * @internal
+   */
+  private static _validateOperation(op: unknown): asserts op is CrdtOperation {
+    Validation.assertObject(op, "operation");
+    Validation.assertObject(op.id, "operation.id");
+    Validation.assertNonNegativeInteger(op.id.client, "operation.id.client");
+    Validation.assertNonNegativeInteger(op.id.clock, "operation.id.clock");
+
+    switch (op.type) {
+      case "insert":
+        Validation.assertNonNegativeInteger(op.lamport, "operation.lamport");
+        Validation.assertString(op.text, "operation.text");
+        if (op.text.length === 0) {
+          throw new Error("operation.text must not be empty");
+        }
+        if (op.origin !== null) {
+          Validation.assertObject(op.origin, "operation.origin");
+          Validation.assertNonNegativeInteger(op.origin.client, "operation.origin.client");
+          Validation.assertNonNegativeInteger(op.origin.clock, "operation.origin.clock");
+        }
+        break;
+      case "delete":
+        Validation.assertArray(op.targets, "operation.targets");
+        op.targets.forEach((target, i) => {
+          Validation.assertObject(target, `operation.targets[${i}]`);
+          Validation.assertNonNegativeInteger(target.client, `operation.targets[${i}].client`);
+          Validation.assertNonNegativeInteger(target.clock, `operation.targets[${i}].clock`);
+          Validation.assertNonNegativeInteger(target.length, `operation.targets[${i}].length`);
+        });
+        break;
+      default:
+        throw new Error(`operation.type must be "insert" or "delete" but was: ${op.type}`);
+    }
+  }
+
+  /**
+   * @internal
+   */
+  private readonly _clientId: number;
+
+  /**
+   * All characters, including tombstones, in document order.
+   *
+   * @internal
+   */
+  private readonly _items: IItem[];
+
+  /**
+   * @internal
+   */
+  private readonly _itemsById: Map<string, IItem>;
+
+  /**
+   * The next expected clock of each client.
+   *
+   * @internal
+   */
+  private readonly _clocks: Map<number, number>;
+
+  /**
+   * Every integrated operation, in the order it was integrated.
+   *
+   * @internal
+   */
+  private readonly _log: CrdtOperation[];
+
+  /**
+   * Remote operations that are waiting for the operations they depend on.
+   *
+   * @internal
+   */
+  private _pending: CrdtOperation[];
+
+  /**
+   * The Lamport timestamp that the next local insert will start at.
+   *
+   * @internal
+   */
+  private _lamport: number;
+
+  /**
+   * The number of characters that are not deleted.
+   *
+   * @internal
+   */
+  private _length: number;
+
+  /**
+   * Creates a new, empty, CrdtDocument.
+   *
+   * @param clientId
+   *   A non-negative integer that identifies this copy of the document. It
+   *   must be unique among all copies that ever edit the document. Defaults
+   *   to a random 32 bit integer.
+   */
+  constructor(clientId: number = Math.floor(Math.random() * 0xFFFFFFFF)) {
+    Validation.assertNonNegativeInteger(clientId, "clientId");
+
+    this._clientId = clientId;
+    this._items = [];
+    this._itemsById = new Map<string, IItem>();
+    this._clocks = new Map<number, number>();
+    this._log = [];
+    this._pending = [];
+    this._lamport = 0;
+    this._length = 0;
+  }
+
+  /**
+   * Gets the id of the client that owns this copy of the document.
+   */
+  public getClientId(): number {
+    return this._clientId;
+  }
+
+  /**
+   * Gets the current text of the document.
+   */
+  public getText(): string {
+    return this._items
+      .filter((item) => !item.deleted)
+      .map((item) => item.char)
+      .join("");
+  }
+
+  /**
+   * Gets the length of the current text of the document.
+   */
+  public getLength(): number {
+    return this._length;
+  }
+
+  /**
+   * Inserts text into the document.
+   *
+   * @param index
+   *   The index to insert the text at.
+   * @param text
+   *   The text to insert.
+   *
+   * @returns
+   *   The update to send to the other copies of the document.
+   */
+  public insert(index: number, text: string): ICrdtUpdate {
+    this._assertIndex(index, "index");
+    Validation.assertString(text, "text");
+
+    if (text.length === 0) {
+      return {operations: []};
+    }
+
+    const before = index > 0 ? this._getVisibleItems(index - 1, 1)[0] : null;
+    const op: ICrdtInsertOperation = {
+      type: "insert",
+      id: {client: this._clientId, clock: this._getClock(this._clientId)},
+      lamport: this._lamport,
+      origin: before !== null ? {client: before.client, clock: before.clock} : null,
+      text
+    };
+
+    this._integrate(op, []);
+    return {operations: [op]};
+  }
+
+  /**
+   * Deletes text from the document.
+   *
+   * @param index
+   *   The start index of the range to delete.
+   * @param length
+   *   The length of the range to delete.
+   *
+   * @returns
+   *   The update to send to the other copies of the document.
+   */
+  public delete(index: number, length: number): ICrdtUpdate {
+    this._assertIndex(index, "index");
+    Validation.assertNonNegativeInteger(length, "length");
+    if (index + length > this._length) {
+      throw new Error(`The range ${index} to ${index + length} is outside of the document (${this._length})`);
+    }
+
+    if (length === 0) {
+      return {operations: []};
+    }
+
+    const targets: ICrdtDeleteOperation["targets"] = [];
+    this._getVisibleItems(index, length).forEach((item) => {
+      const last = targets.length > 0 ? targets[targets.length - 1] : null;
+      if (last !== null && last.client === item.client && last.clock + last.length === item.clock) {
+        last.length++;
+      } else {
+        targets.push({client: item.client, clock: item.clock, length: 1});
+      }
+    });
+
+    const op: ICrdtDeleteOperation = {
+      type: "delete",
+      id: {client: this._clientId, clock: this._getClock(this._clientId)},
+      targets
+    };
+
+    this._integrate(op, []);
+    return {operations: [op]};
+  }
+
+  /**
+   * Applies an update from another copy of the document. Operations that
+   * have already been applied are ignored, and operations that depend on
+   * operations that have not been received yet are buffered.
+   *
+   * @param update
+   *   The update to apply.
+   *
+   * @returns
+   *   The changes to the text caused by the update, in the order they
+   *   happened. The index of each change is relative to the text after the
+   *   changes before it.
+   */
+  public applyUpdate(update: ICrdtUpdate): ContentOperation[] {
+    Validation.assertDefined(update, "update");
+    Validation.assertArray(update.operations, "update.operations");
+    update.operations.forEach(CrdtDocument._validateOperation);
+
+    const changes: ContentOperation[] = [];
+    let pending = this._pending.concat(update.operations);
+    let progress = true;
+
+    while (progress) {
+      progress = false;
+      const blocked: CrdtOperation[] = [];
+      pending.forEach((op) => {
+        const clock = this._getClock(op.id.client);
+        if (op.id.clock < clock) {
+          return;
+        } else if (op.id.clock === clock && this._hasDependencies(op)) {
+          this._integrate(op, changes);
+          progress = true;
+        } else {
+          blocked.push(op);
+        }
+      });
+      pending = blocked;
+    }
+
+    this._pending = pending;
+    return changes;
+  }
+
+  /**
+   * Determines if there are remote operations waiting for the operations
+   * they depend on.
+   */
+  public hasPendingOperations(): boolean {
+    return this._pending.length > 0;
+  }
+
+  /**
+   * Gets the state vector that describes which operations this copy of the
+   * document has integrated.
+   */
+  public getStateVector(): ICrdtStateVector {
+    const stateVector: ICrdtStateVector = {};
+    this._clocks.forEach((clock, client) => stateVector[client] = clock);
+    return stateVector;
+  }
+
+  /**
+   * Gets an update with the operations that another copy of the document is
+   * missing.
+   *
+   * @param stateVector
+   *   The state vector of the other copy. If omitted, the update contains
+   *   the full state of the document.
+   *
+   * @returns
+   *   The update to send to the other copy.
+   */
+  public getUpdate(stateVector: ICrdtStateVector = {}): ICrdtUpdate {
+    Validation.assertDefined(stateVector, "stateVector");
+    return {
+      operations: this._log.filter((op) => op.id.clock >= (stateVector[op.id.client] || 0))
+    };
+  }
+
+  /**
+   * Creates a position that follows the text around it, for example to
+   * share a cursor with other copies of the document.
+   *
+   * @param index
+   *   The current index of the position.
+   *
+   * @returns
+   *   The relative position.
+   */
+  public getRelativePosition(index: number): IRelativePosition {
+    this._assertIndex(index, "index");
+
+    if (index === 0) {
+      return {item: null};
+    }
+
+    const item = this._getVisibleItems(index - 1, 1)[0];
+    return {item: {client: item.client, clock: item.clock}};
+  }
+
+  /**
+   * Finds the current index of a relative position.
+   *
+   * @param position
+   *   The relative position.
+   *
+   * @returns
+   *   The index, or null if the character the position is attached to has
+   *   not been received yet.
+   */
+  public resolveRelativePosition(position: IRelativePosition): number | null {
+    Validation.assertDefined(position, "position");
+
+    if (position.item === null) {
+      return 0;
+    }
+
+    const target = this._itemsById.get(CrdtDocument._key(position.item.client, position.item.clock));
+    if (target === undefined) {
+      return null;
+    }
+
+    let index = 0;
+    for (const item of this._items) {
+      if (!item.deleted) {
+        index++;
+      }
+      if (item === target) {
+        break;
+      }
+    }
+    return index;
+  }
+
+  /**
+   * @internal
+   */
+  private _assertIndex(index: number, name: string): void {
+    Validation.assertNonNegativeInteger(index, name);
+    if (index > this._length) {
+      throw new Error(`${name} must not be greater than the length of the document (${this._length}): ${index}`);
+    }
+  }
+
+  /**
+   * @internal
+   */
+  private _getClock(client: number): number {
+    const clock = this._clocks.get(client);
+    return clock !== undefined ? clock : 0;
+  }
+
+  /**
+   * @internal
+   */
+  private _hasItem(id: ICrdtId): boolean {
+    return this._itemsById.has(CrdtDocument._key(id.client, id.clock));
+  }
+
+  /**
+   * Determines if the characters an operation refers to have been received.
+   *
+   * @internal
+   */
+  private _hasDependencies(op: CrdtOperation): boolean {
+    if (op.type === "insert") {
+      return op.origin === null || this._hasItem(op.origin);
+    }
+
+    return op.targets.every((target) => {
+      for (let i = 0; i < target.length; i++) {
+        if (!this._hasItem({client: target.client, clock: target.clock + i})) {
+          return false;
+        }
+      }
+      return true;
+    });
+  }
+
+  /**
+   * Gets a range of characters that are not deleted.
+   *
+   * @internal
+   */
+  private _getVisibleItems(index: number, length: number): IItem[] {
+    const result: IItem[] = [];
+    let visible = 0;
+    for (const item of this._items) {
+      if (result.length === length) {
+        break;
+      }
+      if (!item.deleted) {
+        if (visible >= index) {
+          result.push(item);
+        }
+        visible++;
+      }
+    }
+    return result;
+  }
+
+  /**
+   * @internal
+   */
+  private _integrate(op: CrdtOperation, changes: ContentOperation[]): void {
+    if (op.type === "insert") {
+      this._integrateInsert(op, changes);
+      this._clocks.set(op.id.client, op.id.clock + op.text.length);
+    } else {
+      this._integrateDelete(op, changes);
+      this._clocks.set(op.id.client, op.id.clock + 1);
+    }
+    this._log.push(op);
+  }
+
+  /**
+   * Places each character of an insert after the character before it,
+   * skipping over characters that were concurrently inserted at the same
+   * place and that sort after it. Characters that end up next to each other
+   * are spliced into the document together.
+   *
+   * @internal
+   */
+  private _integrateInsert(op: ICrdtInsertOperation, changes: ContentOperation[]): void {
+    let position = 0;
+    let index = 0;
+    if (op.origin !== null) {
+      const origin = this._itemsById.get(CrdtDocument._key(op.origin.client, op.origin.clock));
+      position = this._items.indexOf(origin) + 1;
+      for (let i = 0; i < position; i++) {
+        if (!this._items[i].deleted) {
+          index++;
+        }
+      }
+    }
+
+    let run: IItem[] = [];
+    const flush = () => {
+      // Splice in chunks, to stay below the engine's argument count limit.
+      for (let i = 0; i < run.length; i += CrdtDocument._SPLICE_CHUNK) {
+        this._items.splice(position + i, 0, ...run.slice(i, i + CrdtDocument._SPLICE_CHUNK));
+      }
+      position += run.length;
+      run = [];
+    };
+
+    for (let i = 0; i < op.text.length; i++) {
+      const item: IItem = {
+        client: op.id.client,
+        clock: op.id.clock + i,
+        lamport: op.lamport + i,
+        char: op.text.charAt(i),
+        deleted: false
+      };
+
+      let next = position;
+      while (next < this._items.length && CrdtDocument._isAfter(this._items[next], item)) {
+        if (!this._items[next].deleted) {
+          index++;
+        }
+        next++;
+      }
+
+      if (next !== position) {
+        const skipped = next - position;
+        flush();
+        position += skipped;
+      }
+
+      run.push(item);
+      this._itemsById.set(CrdtDocument._key(item.client, item.clock), item);
+      this._length++;
+
+      const last = changes.length > 0 ? changes[changes.length - 1] : null;
+      if (last !== null && last.type === "insert" && last.index + last.text.length === index) {
+        (last as IInsertOperation).text += item.char;
+      } else {
+        changes.push({type: "insert", index, text: item.char});
+      }
+      index++;
+    }
+    flush();
+
+    this._lamport = Math.max(this._lamport, op.lamport + op.text.length);
+  }
+
+  /**
+   * @internal
+   */
+  private _integrateDelete(op: ICrdtDeleteOperation, changes: ContentOperation[]): void {
+    const targets = new Set<IItem>();
+    op.targets.forEach((target) => {
+      for (let i = 0; i < target.length; i++) {
+        targets.add(this._itemsById.get(CrdtDocument._key(target.client, target.clock + i)));
+      }
+    });
+
+    let index = 0;
+    for (const item of this._items) {
+      if (item.deleted) {
+        continue;
+      }
+
+      if (targets.has(item)) {
+        item.deleted = true;
+        this._length--;
+
+        const last = changes.length > 0 ? changes[changes.length - 1] : null;
+        if (last !== null && last.type === "delete" && last.index === index) {
+          (last as IDeleteOperation).length++;
+        } else {
+          changes.push({type: "delete", index, length: 1});
+        }
+      } else {
+        index++;
+      }
+    }
+  }
+}
+
+/**
+ * A single character of the document.
+ *
+ * @internal
+ */
+interface IItem {
+  client: number;
+  clock: number;
+  lamport: number;
+  char: string;
+  deleted: boolean;
+}
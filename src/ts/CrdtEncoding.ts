@@ -0,0 +1,145 @@
+/*
+ * Copyright (c) 2019 Convergence Labs, Inc.
+ *
+ * This file is part of the CodeMirror Collaborative Extensions, which is
+ * released under the terms of the MIT license. A copy of the MIT license
+ * is usually provided as part of this source code package in the LICENCE
+ * file. If it was not, please see <https://opensource.org/licenses/MIT>
+ */
+
+import {BinaryReader} from "./BinaryReader";
+import {BinaryWriter} from "./BinaryWriter";
+import {CrdtOperation, ICrdtStateVector, ICrdtUpdate} from "./CrdtUpdate";
+import {Validation} from "./Validation";
+
+/**
+ * The CrdtEncoding converts CrdtDocument updates and state vectors to and
+ * from a compact binary format, for transports that carry binary data.
+ * Numbers are written as unsigned LEB128 variable length integers and text
+ * as UTF-8.
+ */
+export class CrdtEncoding {
+
+  /**
+   * Encodes an update as binary data.
+   *
+   * @param update
+   *   The update to encode.
+   */
+  public static encodeUpdate(update: ICrdtUpdate): Uint8Array {
+    Validation.assertDefined(update, "update");
+
+    const writer = new BinaryWriter();
+    writer.writeNumber(update.operations.length);
+    update.operations.forEach((op) => {
+      writer.writeNumber(op.type === "insert" ? CrdtEncoding._INSERT : CrdtEncoding._DELETE);
+      writer.writeNumber(op.id.client);
+      writer.writeNumber(op.id.clock);
+
+      if (op.type === "insert") {
+        writer.writeNumber(op.lamport);
+        if (op.origin === null) {
+          writer.writeNumber(0);
+        } else {
+          writer.writeNumber(1);
+          writer.writeNumber(op.origin.client);
+          writer.writeNumber(op.origin.clock);
+        }
+        writer.writeString(op.text);
+      } else {
+        writer.writeNumber(op.targets.length);
+        op.targets.forEach((target) => {
+          writer.writeNumber(target.client);
+          writer.writeNumber(target.clock);
+          writer.writeNumber(target.length);
+        });
+      }
+    });
+    return writer.toBytes();
+  }
+
+  /**
+   * Decodes an update from binary data.
+   *
+   * @param data
+   *   The binary data.
+   */
+  public static decodeUpdate(data: Uint8Array): ICrdtUpdate {
+    const reader = new BinaryReader(data);
+    const operations: CrdtOperation[] = [];
+
+    const count = reader.readNumber();
+    for (let i = 0; i < count; i++) {
+      const type = reader.readNumber();
+      const id = {client: reader.readNumber(), clock: reader.readNumber()};
+
+      if (type === CrdtEncoding._INSERT) {
+        const lamport = reader.readNumber();
+        const origin = reader.readNumber() === 1 ? {client: reader.readNumber(), clock: reader.readNumber()} : null;
+        const text = reader.readString();
+        operations.push({type: "insert", id, lamport, origin, text});
+      } else if (type === CrdtEncoding._DELETE) {
+        const targets = [];
+        const targetCount = reader.readNumber();
+        for (let j = 0; j < targetCount; j++) {
+          targets.push({client: reader.readNumber(), clock: reader.readNumber(), length: reader.readNumber()});
+        }
+        operations.push({type: "delete", id, targets});
+      } else {
+        throw new Error(`Unknown operation type in binary update: ${type}`);
+      }
+    }
+
+    reader.assertDone();
+    return {operations};
+  }
+
+  /**
+   * Encodes a state vector as binary data.
+   *
+   * @param stateVector
+   *   The state vector to encode.
+   */
+  public static encodeStateVector(stateVector: ICrdtStateVector): Uint8Array {
+    Validation.assertDefined(stateVector, "stateVector");
+
+    const clients = Object.keys(stateVector);
+    const writer = new BinaryWriter();
+    writer.writeNumber(clients.length);
+    clients.forEach((client) => {
+      writer.writeNumber(Number(client));
+      writer.writeNumber(stateVector[Number(client)]);
+    });
+    return writer.toBytes();
+  }
+
+  /**
+   * Decodes a state vector from binary data.
+   *
+   * @param data
+   *   The binary data.
+   */
+  public static decodeStateVector(data: Uint8Array): ICrdtStateVector {
+    const reader = new BinaryReader(data);
+    const stateVector: ICrdtStateVector = {};
+
+    const count = reader.readNumber();
+    for (let i = 0; i < count; i++) {
+      const client = reader.readNumber();
+      stateVector[client] = reader.readNumber();
+    }
+
+    reader.assertDone();
+    return stateVector;
+  }
+
+  /**
+   * @internal
+   */
+  private static readonly _INSERT = 0;
+
+  /**
+   * @internal
+   */
+  private static readonly _DELETE = 1;
+}
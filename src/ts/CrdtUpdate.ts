@@ -0,0 +1,74 @@
+/*
+ * Copyright (c) 2019 Convergence Labs, Inc.
+ *
+ * This file is part of the CodeMirror Collaborative Extensions, which is
+ * released under the terms of the MIT license. A copy of the MIT license
+ * is usually provided as part of this source code package in the LICENCE
+ * file. If it was not, please see <https://opensource.org/licenses/MIT>
+ */
+
+/**
+ * Uniquely identifies a character, or an operation, in a CrdtDocument. Each
+ * client numbers its characters and operations with a contiguous clock that
+ * starts at 0.
+ */
+export interface ICrdtId {
+  client: number;
+  clock: number;
+}
+
+/**
+ * Inserts a run of characters. The characters are identified by consecutive
+ * clocks starting at the id of the operation. The first character is placed
+ * after the origin character (or at the start of the document if the origin
+ * is null) and every following character after the one before it.
+ */
+export interface ICrdtInsertOperation {
+  type: "insert";
+  id: ICrdtId;
+  lamport: number;
+  origin: ICrdtId | null;
+  text: string;
+}
+
+/**
+ * Deletes characters, which are kept in the document as tombstones. Each
+ * target range covers a run of characters from one client with consecutive
+ * clocks. The operation itself uses a single clock.
+ */
+export interface ICrdtDeleteOperation {
+  type: "delete";
+  id: ICrdtId;
+  targets: Array<{client: number, clock: number, length: number}>;
+}
+
+/**
+ * An operation on a CrdtDocument.
+ */
+export type CrdtOperation = ICrdtInsertOperation | ICrdtDeleteOperation;
+
+/**
+ * A set of operations exchanged between CrdtDocuments. Updates are plain
+ * objects, so they can be sent as JSON, or encoded with the CrdtEncoding.
+ */
+export interface ICrdtUpdate {
+  operations: CrdtOperation[];
+}
+
+/**
+ * Maps each client to the number of clocks of that client a document has
+ * integrated. It describes which operations a document has seen, so that a
+ * peer can send just the ones that are missing.
+ */
+export interface ICrdtStateVector {
+  [client: number]: number;
+}
+
+/**
+ * A position in a CrdtDocument that stays attached to the character before
+ * it, no matter what is inserted or deleted elsewhere. A null item refers to
+ * the start of the document.
+ */
+export interface IRelativePosition {
+  item: ICrdtId | null;
+}
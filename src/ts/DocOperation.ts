@@ -0,0 +1,28 @@
+/*
+ * Copyright (c) 2019 Convergence Labs, Inc.
+ *
+ * This file is part of the CodeMirror Collaborative Extensions, which is
+ * released under the terms of the MIT license. A copy of the MIT license
+ * is usually provided as part of this source code package in the LICENCE
+ * file. If it was not, please see <https://opensource.org/licenses/MIT>
+ */
+
+import {Doc} from "codemirror";
+
+/**
+ * A helper class that runs a function in a CodeMirror operation, if the
+ * document is shown in an editor, so that the editor renders once. A
+ * document that is not shown in an editor has no operations.
+ *
+ * @internal
+ */
+export class DocOperation {
+  public static run(doc: Doc, f: () => void): void {
+    const editor = doc.getEditor();
+    if (editor) {
+      editor.operation(f);
+    } else {
+      f();
+    }
+  }
+}
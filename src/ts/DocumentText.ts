@@ -0,0 +1,137 @@
+/*
+ * Copyright (c) 2019 Convergence Labs, Inc.
+ *
+ * This file is part of the CodeMirror Collaborative Extensions, which is
+ * released under the terms of the MIT license. A copy of the MIT license
+ * is usually provided as part of this source code package in the LICENCE
+ * file. If it was not, please see <https://opensource.org/licenses/MIT>
+ */
+
+import {EditorChange, Position} from "codemirror";
+
+/**
+ * A copy of the text of a CodeMirror document, kept up to date from the
+ * document's "change" events. CodeMirror reports the changes of an operation
+ * once the operation has ended, and those of a document that is not shown in
+ * an editor on a timer, so when a change is reported later changes may
+ * already have been made. The positions of a change can't be resolved
+ * against the document itself then, but they can be resolved against a copy
+ * that is updated in the order the changes are reported.
+ *
+ * Positions are relative to the first line of the document, which is not 0
+ * for a sub-view.
+ *
+ * @internal
+ */
+export class DocumentText {
+  private _lines: string[];
+  private _length: number;
+
+  constructor(text: string) {
+    this._lines = text.split("\n");
+    this._length = text.length;
+  }
+
+  public getLength(): number {
+    return this._length;
+  }
+
+  public getLineCount(): number {
+    return this._lines.length;
+  }
+
+  public getText(): string {
+    return this._lines.join("\n");
+  }
+
+  public clone(): DocumentText {
+    const clone = new DocumentText("");
+    clone._lines = this._lines.slice(0);
+    clone._length = this._length;
+    return clone;
+  }
+
+  public equals(other: DocumentText): boolean {
+    return this._length === other._length &&
+      this._lines.length === other._lines.length &&
+      this._lines.every((line, i) => line === other._lines[i]);
+  }
+
+  /**
+   * Converts a position to a zero-based index, clipping it to the text.
+   */
+  public indexFromPos(position: Position): number {
+    const line = Math.min(Math.max(position.line, 0), this._lines.length - 1);
+    let index = 0;
+    for (let i = 0; i < line; i++) {
+      index += this._lines[i].length + 1;
+    }
+    return index + Math.min(Math.max(position.ch, 0), this._lines[line].length);
+  }
+
+  /**
+   * Converts a zero-based index to a position, clipping it to the text.
+   */
+  public posFromIndex(index: number): Position {
+    let remaining = Math.min(Math.max(index, 0), this._length);
+    let line = 0;
+    while (remaining > this._lines[line].length) {
+      remaining -= this._lines[line].length + 1;
+      line++;
+    }
+    return {line, ch: remaining};
+  }
+
+  /**
+   * Replaces a range of the text.
+   *
+   * @returns
+   *   The text that was removed.
+   */
+  public replace(index: number, length: number, text: string): string {
+    const from = this.posFromIndex(index);
+    const to = this.posFromIndex(index + length);
+    const first = this._lines[from.line];
+    const last = this._lines[to.line];
+
+    const removed = from.line === to.line ?
+      first.substring(from.ch, to.ch) :
+      [first.substring(from.ch)].concat(this._lines.slice(from.line + 1, to.line), last.substring(0, to.ch)).join("\n");
+    const lines = (first.substring(0, from.ch) + text + last.substring(to.ch)).split("\n");
+
+    this._lines = this._lines.slice(0, from.line).concat(lines, this._lines.slice(to.line + 1));
+    this._length += text.length - removed.length;
+    return removed;
+  }
+
+  /**
+   * Applies a change reported by a "change" event of the document.
+   *
+   * @param change
+   *   The change.
+   * @param firstLine
+   *   The number of the first line of the document.
+   * @returns
+   *   The change as zero-based indices, relative to the text before it.
+   */
+  public applyChange(change: EditorChange, firstLine: number): IDocumentTextChange {
+    const index = this.indexFromPos({line: change.from.line - firstLine, ch: change.from.ch});
+    const length = change.removed !== undefined ?
+      change.removed.join("\n").length :
+      this.indexFromPos({line: change.to.line - firstLine, ch: change.to.ch}) - index;
+    const inserted = change.text.join("\n");
+    const removed = this.replace(index, length, inserted);
+    return {index, removed, inserted};
+  }
+}
+
+/**
+ * A change to a DocumentText, as zero-based indices.
+ *
+ * @internal
+ */
+export interface IDocumentTextChange {
+  index: number;
+  removed: string;
+  inserted: string;
+}
@@ -0,0 +1,263 @@
+/*
+ * Copyright (c) 2019 Convergence Labs, Inc.
+ *
+ * This file is part of the CodeMirror Collaborative Extensions, which is
+ * released under the terms of the MIT license. A copy of the MIT license
+ * is usually provided as part of this source code package in the LICENCE
+ * file. If it was not, please see <https://opensource.org/licenses/MIT>
+ */
+
+import {IDocumentChecksum, IDocumentDivergence, IDocumentSnapshot} from "./IDocumentChecksum";
+import {IDocumentVerifierOptions} from "./IDocumentVerifierOptions";
+import {StringHash} from "./StringHash";
+import {Validation} from "./Validation";
+
+/**
+ * The DocumentVerifier detects when the content of an editor has silently
+ * diverged from that of its peers. Peers periodically exchange cheap
+ * checksums of their content at a given version; when the checksums don't
+ * match, a snapshot of the authoritative content can be compared to find the
+ * difference, and the editor can be resynchronized with it.
+ */
+export class DocumentVerifier {
+
+  /**
+   * Computes a 32 bit polynomial rolling hash of a string. Servers and other
+   * peers must use the same function to produce comparable checksums.
+   *
+   * @param text
+   *   The text to hash.
+   *
+   * @returns
+   *   The hash, as an unsigned 32 bit integer.
+   */
+  public static hash(text: string): number {
+    Validation.assertString(text, "text");
+    return StringHash.hash(text);
+  }
+
+  /**
+   * Option defaults.
+   *
+   * @internal
+   */
+  private static readonly _DEFAULTS = {
+    autoResync: false,
+    remoteOrigin: "remote"
+  };
+
+  /**
+   * Finds the smallest range that differs between two strings, by skipping
+   * their common prefix and suffix.
+   *
+   * @internal
+   */
+  private static _diff(local: string, remote: string): {index: number, localText: string, remoteText: string} {
+    const maxPrefix = Math.min(local.length, remote.length);
+    let prefix = 0;
+    while (prefix < maxPrefix && local.charCodeAt(prefix) === remote.charCodeAt(prefix)) {
+      prefix++;
+    }
+
+    const maxSuffix = maxPrefix - prefix;
+    let suffix = 0;
+    while (suffix < maxSuffix &&
+    local.charCodeAt(local.length - 1 - suffix) === remote.charCodeAt(remote.length - 1 - suffix)) {
+      suffix++;
+    }
+
+    return {
+      index: prefix,
+      localText: local.substring(prefix, local.length - suffix),
+      remoteText: remote.substring(prefix, remote.length - suffix)
+    };
+  }
+
+  /**
+   * The options that configure the DocumentVerifier.
+   * @internal
+   */
+  private readonly _options: IDocumentVerifierOptions;
+
+  /**
+   * Constructs a new DocumentVerifier using the supplied options.
+   *
+   * @param options
+   *   The options that configure the DocumentVerifier.
+   */
+  constructor(options: IDocumentVerifierOptions) {
+    this._options = {...DocumentVerifier._DEFAULTS, ...options};
+
+    Validation.assertDefined(this._options, "options");
+    Validation.assertDefined(this._options.editor, "options.editor");
+    Validation.assertFunction(this._options.getVersion, "options.getVersion");
+  }
+
+  /**
+   * Computes the checksum of the editor's content at the current version.
+   *
+   * @returns
+   *   The checksum to share with peers.
+   */
+  public getChecksum(): IDocumentChecksum {
+    const content = this._getContent();
+    return {
+      version: this._options.getVersion(),
+      length: content.length,
+      hash: DocumentVerifier.hash(content)
+    };
+  }
+
+  /**
+   * Takes a snapshot of the editor's content at the current version.
+   *
+   * @returns
+   *   The snapshot to share with peers.
+   */
+  public getSnapshot(): IDocumentSnapshot {
+    return {
+      version: this._options.getVersion(),
+      content: this._getContent()
+    };
+  }
+
+  /**
+   * Compares a peer's checksum with the checksum of the editor's content.
+   *
+   * @param checksum
+   *   The peer's checksum, which must be for the current version.
+   *
+   * @returns
+   *   True if the content matches, false if it has diverged.
+   */
+  public verifyChecksum(checksum: IDocumentChecksum): boolean {
+    Validation.assertDefined(checksum, "checksum");
+    Validation.assertNumber(checksum.length, "checksum.length");
+    Validation.assertNumber(checksum.hash, "checksum.hash");
+
+    const local = this.getChecksum();
+    this._assertVersion(checksum.version, local.version);
+    return local.length === checksum.length && local.hash === checksum.hash;
+  }
+
+  /**
+   * Compares a peer's snapshot with the editor's content. If they differ,
+   * the divergence is reported through onDivergence, and the editor is
+   * resynchronized if autoResync is enabled.
+   *
+   * @param snapshot
+   *   The peer's snapshot, which must be for the current version.
+   *
+   * @returns
+   *   The divergence, or null if the content matches.
+   */
+  public verifySnapshot(snapshot: IDocumentSnapshot): IDocumentDivergence | null {
+    Validation.assertDefined(snapshot, "snapshot");
+    Validation.assertString(snapshot.content, "snapshot.content");
+
+    const version = this._options.getVersion();
+    this._assertVersion(snapshot.version, version);
+
+    const local = this._getContent();
+    if (local === snapshot.content) {
+      return null;
+    }
+
+    const divergence = {version, ...DocumentVerifier._diff(local, snapshot.content)};
+
+    if (this._options.onDivergence) {
+      this._options.onDivergence(divergence);
+    }
+
+    if (this._options.autoResync) {
+      this._applyDivergence(divergence);
+    }
+
+    return divergence;
+  }
+
+  /**
+   * Replaces the editor's content with a snapshot. Only the text that
+   * differs is replaced, so the local cursor, the scroll position and the
+   * remote cursors and selections outside of it are left where they are.
+   *
+   * @param snapshot
+   *   The snapshot to resynchronize with.
+   */
+  public resync(snapshot: IDocumentSnapshot): void {
+    Validation.assertDefined(snapshot, "snapshot");
+    Validation.assertString(snapshot.content, "snapshot.content");
+
+    const local = this._getContent();
+    if (local !== snapshot.content) {
+      this._applyDivergence({version: snapshot.version, ...DocumentVerifier._diff(local, snapshot.content)});
+    }
+  }
+
+  /**
+   * Gets the content of the editor. Lines are always separated by "\n", as
+   * in the indices of the editor, regardless of the lineSeparator option.
+   *
+   * @internal
+   */
+  private _getContent(): string {
+    return this._options.editor.getValue("\n");
+  }
+
+  /**
+   * @internal
+   */
+  private _assertVersion(version: number, localVersion: number): void {
+    Validation.assertNumber(version, "version");
+    if (version !== localVersion) {
+      throw new Error(`Can not verify version ${version} of the document, which is at version ${localVersion}.`);
+    }
+  }
+
+  /**
+   * Replaces the local text of a divergence with the remote text, restoring
+   * the selections and scroll position afterwards.
+   *
+   * @internal
+   */
+  private _applyDivergence(divergence: IDocumentDivergence): void {
+    const editor = this._options.editor;
+    const {index, localText, remoteText} = divergence;
+    const end = index + localText.length;
+
+    // Maps an index in the old content to the new content. Indices inside
+    // the replaced text keep their offset, clipped to the new text.
+    const mapIndex = (i: number) => {
+      if (i <= index) {
+        return i;
+      } else if (i >= end) {
+        return i + remoteText.length - localText.length;
+      } else {
+        return Math.min(i, index + remoteText.length);
+      }
+    };
+
+    const scroll = editor.getScrollInfo();
+    const selections = editor.listSelections().map(({anchor, head}) => ({
+      anchor: mapIndex(editor.indexFromPos(anchor)),
+      head: mapIndex(editor.indexFromPos(head))
+    }));
+
+    editor.operation(() => {
+      if (this._options.contentManager) {
+        this._options.contentManager.applyOperations([
+          {type: "replace", index, length: localText.length, text: remoteText}
+        ]);
+      } else {
+        editor.replaceRange(
+          remoteText, editor.posFromIndex(index), editor.posFromIndex(end), this._options.remoteOrigin);
+      }
+
+      editor.setSelections(selections.map(({anchor, head}) => ({
+        anchor: editor.posFromIndex(anchor),
+        head: editor.posFromIndex(head)
+      })));
+      editor.scrollTo(scroll.left, scroll.top);
+    });
+  }
+}
@@ -0,0 +1,110 @@
+/*
+ * Copyright (c) 2019 Convergence Labs, Inc.
+ *
+ * This file is part of the CodeMirror Collaborative Extensions, which is
+ * released under the terms of the MIT license. A copy of the MIT license
+ * is usually provided as part of this source code package in the LICENCE
+ * file. If it was not, please see <https://opensource.org/licenses/MIT>
+ */
+
+import {Editor, Position} from "codemirror";
+import {EditorOverlay} from "./EditorOverlay";
+
+/**
+ * An indicator at the top or bottom edge of the viewport that points to a
+ * remote cursor that is scrolled out of view. Clicking the indicator
+ * scrolls the cursor into view.
+ *
+ * @internal
+ */
+export class EdgeIndicator {
+
+  private readonly _editor: Editor;
+  private readonly _overlay: EditorOverlay;
+  private readonly _getPosition: () => Position | null;
+  private readonly _domNode: HTMLDivElement;
+  private _visible: boolean;
+
+  /**
+   * @param editor
+   *   The editor to add the indicator to.
+   * @param color
+   *   The css color of the indicator.
+   * @param label
+   *   The text of the indicator.
+   * @param getPosition
+   *   Gets the current position the indicator points to. The position must
+   *   be tracked by a PositionTracker acquired before the indicator was
+   *   created, so that it is up to date when the indicator handles changes.
+   */
+  constructor(editor: Editor, color: string, label: string | undefined, getPosition: () => Position | null) {
+    this._editor = editor;
+    this._getPosition = getPosition;
+    this._overlay = EditorOverlay.acquire(editor);
+    this._visible = true;
+
+    this._domNode = document.createElement("div");
+    this._domNode.className = "codemirror-remote-edge-indicator";
+    this._domNode.style.background = color;
+    this._domNode.textContent = label !== undefined ? label : "";
+    this._domNode.addEventListener("mousedown", this._onMouseDown);
+
+    this._editor.on("scroll", this.update);
+    this._editor.on("changes", this.update);
+    this._editor.on("refresh", this.update);
+  }
+
+  public setVisible(visible: boolean): void {
+    this._visible = visible;
+    this.update();
+  }
+
+  public dispose(): void {
+    this._editor.off("scroll", this.update);
+    this._editor.off("changes", this.update);
+    this._editor.off("refresh", this.update);
+    this._detach();
+    this._overlay.release();
+  }
+
+  /**
+   * Moves the indicator to the edge the position is beyond, or removes it
+   * if the position is in view.
+   */
+  public update = () => {
+    const position = this._getPosition();
+    if (!this._visible || position === null) {
+      this._detach();
+      return;
+    }
+
+    const coords = this._editor.cursorCoords(position, "local");
+    const scrollInfo = this._editor.getScrollInfo();
+    let container: HTMLDivElement | null = null;
+    if (coords.bottom <= scrollInfo.top) {
+      container = this._overlay.getTopNode();
+    } else if (coords.top >= scrollInfo.top + scrollInfo.clientHeight) {
+      container = this._overlay.getBottomNode();
+    }
+
+    if (container === null) {
+      this._detach();
+    } else if (this._domNode.parentNode !== container) {
+      container.appendChild(this._domNode);
+    }
+  }
+
+  private _detach(): void {
+    if (this._domNode.parentNode) {
+      this._domNode.parentNode.removeChild(this._domNode);
+    }
+  }
+
+  private _onMouseDown = (e: MouseEvent) => {
+    e.preventDefault();
+    const position = this._getPosition();
+    if (position !== null) {
+      this._editor.scrollIntoView(position, this._editor.getScrollInfo().clientHeight / 2);
+    }
+  }
+}
@@ -7,15 +7,24 @@
  * file. If it was not, please see <https://opensource.org/licenses/MIT>
  */
 
-import {Editor, EditorChangeCancellable, EditorChangeLinkedList} from "codemirror";
+import {Doc, Editor, EditorChange, EditorChangeCancellable} from "codemirror";
+import {ContentOperation} from "./ContentOperation";
+import {DocOperation} from "./DocOperation";
+import {DocumentText, IDocumentTextChange} from "./DocumentText";
+import {EventEmitter} from "./EventEmitter";
+import {IDocEvents} from "./IDocEvents";
+import {IEditorContentManagerEvents} from "./IEditorContentManagerEvents";
 import {IEditorContentManagerOptions} from "./IEditorContentManagerOptions";
+import {TextOperation} from "./TextOperation";
+import {UndoManager} from "./UndoManager";
 import {Validation} from "./Validation";
 
 /**
  * The EditorContentManager facilitates listening to local content changes and
- * the playback of remote content changes into the editor.
+ * the playback of remote content changes into the editor. It emits the events
+ * described by IEditorContentManagerEvents.
  */
-export class EditorContentManager {
+export class EditorContentManager extends EventEmitter<IEditorContentManagerEvents> {
 
   /**
    * Option defaults.
@@ -32,9 +41,116 @@ export class EditorContentManager {
     onDelete: () => {
       // no-op
     },
-    remoteOrigin: "remote"
+    remoteOrigin: "remote",
+    selectiveUndo: false
   };
 
+  /**
+   * The time (in milliseconds) within which consecutive local changes of the
+   * same kind are merged into one undo step. This matches the default value
+   * of CodeMirror's historyEventDelay option.
+   *
+   * @internal
+   */
+  private static readonly _HISTORY_EVENT_DELAY = 1250;
+
+  /**
+   * The undo depth used when there is no editor to read the undoDepth
+   * option from. This matches CodeMirror's default.
+   *
+   * @internal
+   */
+  private static readonly _UNDO_DEPTH = 200;
+
+  /**
+   * Replaces the undo method of an editor. CodeMirror's undo command, key
+   * bindings and context menu call the undo method of the editor, which
+   * calls the undo method of the Doc prototype rather than that of the
+   * document shown, so the document's own method is called instead.
+   *
+   * @internal
+   */
+  private static _undoEditorDoc(this: Editor): void {
+    this.getDoc().undo();
+  }
+
+  /**
+   * Replaces the redo method of an editor. See _undoEditorDoc.
+   *
+   * @internal
+   */
+  private static _redoEditorDoc(this: Editor): void {
+    this.getDoc().redo();
+  }
+
+  /**
+   * A helper method that validates a ContentOperation and normalizes it to
+   * a range replacement.
+   *
+   * @internal
+   */
+  private static _toRange(operation: ContentOperation, i: number): IOperationRange {
+    const name = `operations[${i}]`;
+    Validation.assertDefined(operation, name);
+    Validation.assertNumber(operation.index, `${name}.index`);
+
+    switch (operation.type) {
+      case "insert":
+        Validation.assertString(operation.text, `${name}.text`);
+        return {index: operation.index, length: 0, text: operation.text};
+      case "replace":
+        Validation.assertNumber(operation.length, `${name}.length`);
+        Validation.assertString(operation.text, `${name}.text`);
+        return {index: operation.index, length: operation.length, text: operation.text};
+      case "delete":
+        Validation.assertNumber(operation.length, `${name}.length`);
+        return {index: operation.index, length: operation.length, text: ""};
+      default:
+        throw new Error(`${name}.type must be one of "insert", "replace" or "delete": ${JSON.stringify(operation)}`);
+    }
+  }
+
+  /**
+   * A helper method that builds the operation for a change.
+   *
+   * @internal
+   */
+  private static _toOperation(change: IDocumentTextChange,
+                              length: number,
+                              kind: ChangeKind,
+                              batch: number,
+                              origin: string | undefined): IOperation {
+    const {index, removed, inserted} = change;
+    return {
+      from: index,
+      to: index + removed.length,
+      inserted: inserted !== "" ? inserted : null,
+      deleted: removed !== "" ? removed : null,
+      length, kind, batch, origin
+    };
+  }
+
+  /**
+   * A helper method that computes a single change that turns one text into
+   * another.
+   *
+   * @internal
+   */
+  private static _diff(before: string, after: string): IDocumentTextChange {
+    const length = Math.min(before.length, after.length);
+    let start = 0;
+    while (start < length && before.charAt(start) === after.charAt(start)) {
+      start++;
+    }
+    let beforeEnd = before.length;
+    let afterEnd = after.length;
+    while (beforeEnd > start && afterEnd > start && before.charAt(beforeEnd - 1) === after.charAt(afterEnd - 1)) {
+      beforeEnd--;
+      afterEnd--;
+    }
+    return {index: start, removed: before.substring(start, beforeEnd), inserted: after.substring(start, afterEnd)};
+  }
+
   /**
    * The options that configure the EditorContentManager.
    * @internal
@@ -42,12 +158,83 @@ export class EditorContentManager {
   private readonly _options: IEditorContentManagerOptions;
 
   /**
-   * A flag denoting if outgoing events should be suppressed.
+   * The document whose content is managed.
    * @internal
    */
-  private _suppress: boolean;
+  private readonly _doc: Doc;
 
-  private _operationQueue: IOperation[];
+  /**
+   * The documents linked to the managed document, whose changes are
+   * propagated to it.
+   * @internal
+   */
+  private _linkedDocs: Doc[];
+
+  /**
+   * Set while the content manager changes the document itself. The changes
+   * are processed as they are made, rather than from their "change" events.
+   * @internal
+   */
+  private _applying: boolean;
+
+  /**
+   * The author of the remote edits being applied, if any.
+   * @internal
+   */
+  private _remoteAuthor: string | null;
+
+  /**
+   * The text of the document as far as it has been processed: local changes
+   * up to this text have been reported, and remote changes applied.
+   * @internal
+   */
+  private _content: DocumentText;
+
+  /**
+   * The text of the document according to the "change" events received so
+   * far, while those events lag behind the processed content. This is the
+   * case after the content manager changed the document itself, or reported
+   * local changes before their events arrived. Null otherwise.
+   * @internal
+   */
+  private _received: DocumentText | null;
+
+  /**
+   * The local changes captured in "beforeChange", whose "change" events
+   * have not been received yet, if the events are in step with the changes.
+   * This allows the changes to be reported before their events arrive. Null
+   * marks a change that could not be captured.
+   * @internal
+   */
+  private _capturedChanges: Array<IDocumentTextChange | null>;
+
+  /**
+   * Identifies the batch of changes being processed. Changes that are
+   * reported one after another, without a change being made in between,
+   * such as the changes of one CodeMirror operation, belong to the same
+   * batch.
+   * @internal
+   */
+  private _batch: number;
+
+  /**
+   * Set when a change is made, so that the next change that is reported
+   * starts a new batch.
+   * @internal
+   */
+  private _newBatch: boolean;
+
+  /**
+   * The history entry being built from the changes of the current batch.
+   * @internal
+   */
+  private _pendingHistory: IPendingHistory | null;
+
+  /**
+   * Tracks the local undo history when selective undo is enabled.
+   * @internal
+   */
+  private readonly _undoManager: UndoManager | null;
 
   /**
    * Constructs a new EditorContentManager using the supplied options.
@@ -56,18 +243,54 @@ export class EditorContentManager {
    *   The options that configure the EditorContentManager.
    */
   constructor(options: IEditorContentManagerOptions) {
+    super();
+
     this._options = {...EditorContentManager._DEFAULTS, ...options};
 
     Validation.assertDefined(this._options, "options");
-    Validation.assertDefined(this._options.editor, "options.editor");
+    if (this._options.doc === undefined) {
+      Validation.assertDefined(this._options.editor, "options.editor");
+    }
     Validation.assertFunction(this._options.onInsert, "options.onInsert");
     Validation.assertFunction(this._options.onReplace, "options.onReplace");
     Validation.assertFunction(this._options.onDelete, "options.onDelete");
 
-    this._options.editor.on("beforeChange", this._onBeforeChange);
-    this._options.editor.on("changes", this._onChanges);
+    this._doc = this._options.doc !== undefined ? this._options.doc : this._options.editor.getDoc();
+    this._linkedDocs = [];
+
+    const doc = this._doc as Doc & IDocEvents;
+    doc.on("beforeChange", this._onBeforeChange);
+    doc.on("change", this._onChange);
+    this._watchLinkedDocs();
+
+    this._applying = false;
+    this._remoteAuthor = null;
+    this._content = new DocumentText(this._doc.getValue("\n"));
+    this._received = null;
+    this._capturedChanges = [];
+    this._batch = 0;
+    this._newBatch = true;
+    this._pendingHistory = null;
+
+    if (this._options.selectiveUndo) {
+      this._undoManager = new UndoManager(
+        this._options.editor !== undefined ?
+          this._options.editor.getOption("undoDepth") :
+          EditorContentManager._UNDO_DEPTH,
+        EditorContentManager._HISTORY_EVENT_DELAY);
 
-    this._operationQueue = [];
+      // Undo and redo of the document, and of the editor it is shown in,
+      // are routed to this content manager.
+      this._doc.undo = () => this.undo();
+      this._doc.redo = () => this.redo();
+      const editor = this._options.editor !== undefined ? this._options.editor : this._doc.getEditor();
+      if (editor) {
+        editor.undo = EditorContentManager._undoEditorDoc;
+        editor.redo = EditorContentManager._redoEditorDoc;
+      }
+    } else {
+      this._undoManager = null;
+    }
   }
 
   /**
@@ -79,10 +302,9 @@ export class EditorContentManager {
    *   The text to insert.
    */
   public insert(index: number, text: string): void {
-    this._suppress = true;
-    const from = this._options.editor.posFromIndex(index);
-    this._options.editor.replaceRange(text, from, undefined, this._options.remoteOrigin);
-    this._suppress = false;
+    this._apply([{index, length: 0, text}], "remote");
+
+    this._emit("remoteChangeApplied", {operations: [{type: "insert", index, text}], author: null});
   }
 
   /**
@@ -96,11 +318,9 @@ export class EditorContentManager {
    *   The text to insert.
    */
   public replace(index: number, length: number, text: string): void {
-    this._suppress = true;
-    const from = this._options.editor.posFromIndex(index);
-    const to = this._options.editor.posFromIndex(index + length);
-    this._options.editor.replaceRange(text, from, to, this._options.remoteOrigin);
-    this._suppress = false;
+    this._apply([{index, length, text}], "remote");
+
+    this._emit("remoteChangeApplied", {operations: [{type: "replace", index, length, text}], author: null});
   }
 
   /**
@@ -112,97 +332,540 @@ export class EditorContentManager {
    *   The length of the  range to remove.
    */
   public delete(index: number, length: number): void {
-    this._suppress = true;
-    const from = this._options.editor.posFromIndex(index);
-    const to = this._options.editor.posFromIndex(index + length);
-    this._options.editor.replaceRange("", from, to, this._options.remoteOrigin);
-    this._suppress = false;
+    this._apply([{index, length, text: ""}], "remote");
+
+    this._emit("remoteChangeApplied", {operations: [{type: "delete", index, length}], author: null});
+  }
+
+  /**
+   * Applies a set of remote edits as a single atomic change. All of the edits
+   * are applied within one CodeMirror operation, so the editor renders once,
+   * fires a single "changes" event and records a single undo step.
+   *
+   * The indices of every operation are relative to the document as it was
+   * before any of the operations were applied (for example the matches of a
+   * find-and-replace-all). The indices of later operations are adjusted to
+   * account for the earlier ones. Operations must not overlap, and must be
+   * within the document; otherwise an error is thrown and none of the
+   * operations are applied.
+   *
+   * @param operations
+   *   The edits to apply.
+   * @param author
+   *   The id of the user who made the edits, for attribution. See
+   *   getRemoteAuthor.
+   */
+  public applyOperations(operations: ContentOperation[], author?: string): void {
+    Validation.assertArray(operations, "operations");
+    if (author !== undefined) {
+      Validation.assertString(author, "author");
+    }
+
+    const ranges = this._toSequentialRanges(operations.map(EditorContentManager._toRange));
+
+    this._remoteAuthor = author !== undefined ? author : null;
+    try {
+      this._apply(ranges, "remote");
+    } finally {
+      this._remoteAuthor = null;
+    }
+
+    this._emit("remoteChangeApplied", {operations, author: author !== undefined ? author : null});
+  }
+
+  /**
+   * Gets the author of the remote edits that are being applied. This allows
+   * listeners of the editor's change events, such as an AttributionTracker,
+   * to tell who made a remote edit.
+   *
+   * @returns
+   *   The author passed to applyOperations while it is applying edits, or
+   *   null otherwise.
+   */
+  public getRemoteAuthor(): string | null {
+    return this._remoteAuthor;
+  }
+
+  /**
+   * Reports the local changes that CodeMirror has not reported yet, for
+   * example because an operation is still in progress or the document is
+   * not shown in an editor, through the onInsert, onReplace and onDelete
+   * callbacks. Call this before acting on state that depends on every local
+   * change having been reported, such as transforming a remote operation
+   * against the local changes the server has not seen yet. The remote edit
+   * methods do this themselves before they change the document.
+   */
+  public flush(): void {
+    this._reportUnprocessedChanges();
+  }
+
+  /**
+   * Undoes the last local change that has not yet been undone. Changes made
+   * by remote users are never undone; instead the local change is transformed
+   * so that it still applies to the current document. The undo is reported
+   * as a local change through the onInsert, onReplace and onDelete callbacks.
+   * Requires the selectiveUndo option.
+   */
+  public undo(): void {
+    this._applyHistory("undo");
+  }
+
+  /**
+   * Redoes the last local change that was undone. The redo is reported as a
+   * local change through the onInsert, onReplace and onDelete callbacks.
+   * Requires the selectiveUndo option.
+   */
+  public redo(): void {
+    this._applyHistory("redo");
+  }
+
+  /**
+   * Determines if there are local changes that can be undone.
+   *
+   * @returns
+   *   True if undo() will change the document, false otherwise.
+   */
+  public canUndo(): boolean {
+    const undoManager = this._getUndoManager();
+    const pending = this._pendingHistory;
+    return this._hasUnprocessedChanges() || (pending !== null && pending.kind !== "undo") || undoManager.canUndo();
+  }
+
+  /**
+   * Gets the document whose content is managed.
+   *
+   * @returns
+   *   The document the content manager is bound to.
+   */
+  public getDoc(): Doc {
+    return this._doc;
+  }
+
+  /**
+   * Determines if there are undone local changes that can be redone.
+   *
+   * @returns
+   *   True if redo() will change the document, false otherwise.
+   */
+  public canRedo(): boolean {
+    const undoManager = this._getUndoManager();
+    const pending = this._pendingHistory;
+    // A new local change clears the redo history once it is recorded.
+    if (this._hasUnprocessedChanges() || (pending !== null && pending.kind === "local")) {
+      return false;
+    }
+    return (pending !== null && pending.kind === "undo") || undoManager.canRedo();
   }
 
   /**
    * Disposes of the content manager, freeing any resources.
    */
   public dispose(): void {
-    this._options.editor.off("beforeChange", this._onBeforeChange);
-    this._options.editor.off("changes", this._onChanges);
+    const doc = this._doc as Doc & IDocEvents;
+    doc.off("beforeChange", this._onBeforeChange);
+    doc.off("change", this._onChange);
+    this._linkedDocs.forEach((linked: Doc & IDocEvents) => linked.off("beforeChange", this._onBeforeChange));
+    this._linkedDocs = [];
+    this._received = null;
+    this._capturedChanges = [];
+
+    // The editor's methods are left in place, as they only differ from
+    // CodeMirror's for documents whose methods are replaced.
+    if (this._undoManager !== null) {
+      delete this._doc.undo;
+      delete this._doc.redo;
+    }
+
+    this._emit("disposed", undefined);
+    this._removeAllListeners();
   }
 
   /**
-   * A helper method to process local changes from CodeMirror. Before change
-   * is used because the from and to positions from code mirror are relative
-   * to the state of the document before the change in the "changes" event,
-   * but the document has already been changed. So we use before changes to
-   * calculate the from and to index before the document is changed. This
-   * method then pushes the change data into a queue that will then be
-   * picked up by the "change" event.
+   * A helper method that validates a set of ranges, relative to the document
+   * before any of them are applied, and adjusts their indices so that they
+   * can be applied one after another.
    *
-   * @param editor
-   *   The editor that the change originated from.
-   * @param changeObj
-   *   The object that specifies the change.
+   * @internal
+   */
+  private _toSequentialRanges(ranges: IOperationRange[]): IOperationRange[] {
+    // Every range is checked before any of them is applied, so that a batch
+    // is either applied completely or not at all.
+    const documentLength = this._getDocumentLength();
+    return ranges.map((range, i) => {
+      if (range.index < 0 || range.length < 0 || range.index + range.length > documentLength) {
+        throw new Error(`operations[${i}] is outside of the document, whose length is ${documentLength}`);
+      }
+
+      let index = range.index;
+      for (let j = 0; j < i; j++) {
+        const prior = ranges[j];
+        if (prior.index + prior.length <= range.index) {
+          index += prior.text.length - prior.length;
+        } else if (prior.index < range.index + range.length && range.index < prior.index + prior.length) {
+          throw new Error(`operations[${i}] overlaps operations[${j}]`);
+        }
+      }
+      return {index, length: range.length, text: range.text};
+    });
+  }
+
+  /**
+   * A helper method that applies a set of ranges, one after another, in a
+   * single operation. Local changes that have not been reported yet are
+   * reported first, so that the ranges are applied after them.
+   *
+   * @returns
+   *   The index immediately after the last applied range.
    *
    * @internal
    */
-  private _onBeforeChange = (editor: Editor, changeObj: EditorChangeCancellable) => {
-    if (this._suppress) {
+  private _apply(ranges: IOperationRange[], kind: ChangeKind): number {
+    this._reportUnprocessedChanges();
+
+    // The "change" events of these changes are received later, possibly
+    // only after this method returns.
+    if (this._received === null) {
+      this._received = this._content.clone();
+    }
+
+    const doc = this._doc;
+    const origin = kind === "remote" ? this._options.remoteOrigin : kind;
+    const batch = ++this._batch;
+    const operations: IOperation[] = [];
+    let end = 0;
+
+    this._applying = true;
+    try {
+      DocOperation.run(this._doc, () => {
+        ranges.forEach(({index, length, text}) => {
+          const documentLength = this._getDocumentLength();
+          const from = doc.posFromIndex(index);
+          const to = doc.posFromIndex(index + length);
+          const deleted = doc.getRange(from, to);
+          doc.replaceRange(text, from, to, origin);
+
+          operations.push(EditorContentManager._toOperation(
+            {index, removed: deleted, inserted: text}, documentLength, kind, batch, origin));
+          end = index + text.length;
+        });
+      });
+    } finally {
+      this._applying = false;
+      this._content = new DocumentText(doc.getValue("\n"));
+      this._newBatch = true;
+      this._checkReceived();
+    }
+
+    operations.forEach((operation) => this._processOperation(operation));
+    return end;
+  }
+
+  /**
+   * A helper method that applies the last entry of the undo or redo history
+   * and places the cursor at the end of the change.
+   *
+   * @internal
+   */
+  private _applyHistory(kind: "undo" | "redo"): void {
+    const undoManager = this._getUndoManager();
+    this._reportUnprocessedChanges();
+    this._flushPendingHistory();
+
+    const operation = kind === "undo" ? undoManager.popUndo() : undoManager.popRedo();
+    if (operation === null) {
       return;
     }
 
-    const from = editor.indexFromPos(changeObj.from);
-    const to = editor.indexFromPos(changeObj.to);
+    const ranges = this._toSequentialRanges(operation.toContentOperations().map(EditorContentManager._toRange));
+    const end = this._apply(ranges, kind);
+    this._doc.setCursor(this._doc.posFromIndex(end));
+  }
+
+  /**
+   * A helper method that gets the undo manager, or throws an exception if
+   * selective undo is not enabled.
+   *
+   * @internal
+   */
+  private _getUndoManager(): UndoManager {
+    if (this._undoManager === null) {
+      throw new Error("Selective undo is not enabled. Set the 'selectiveUndo' option to use it.");
+    }
+
+    return this._undoManager;
+  }
+
+  /**
+   * A helper method that determines if there are local changes that have not
+   * been reported yet.
+   *
+   * @internal
+   */
+  private _hasUnprocessedChanges(): boolean {
+    return this._doc.getValue("\n") !== this._content.getText();
+  }
+
+  /**
+   * A helper method that listens to the documents linked to the managed
+   * document, as documents can be linked and unlinked at any time.
+   *
+   * @internal
+   */
+  private _watchLinkedDocs(): void {
+    const linkedDocs: Doc[] = [];
+    this._doc.iterLinkedDocs((linked) => linkedDocs.push(linked));
 
-    let deleted: string | null = null;
-    let inserted: string | null = null;
+    this._linkedDocs
+      .filter((linked) => linkedDocs.indexOf(linked) < 0)
+      .forEach((linked: Doc & IDocEvents) => linked.off("beforeChange", this._onBeforeChange));
+    linkedDocs
+      .filter((linked) => this._linkedDocs.indexOf(linked) < 0)
+      .forEach((linked: Doc & IDocEvents) => linked.on("beforeChange", this._onBeforeChange));
+
+    this._linkedDocs = linkedDocs;
+  }
 
-    // Code the from and to are the same for in inserts because the
-    // insert happens "at" a specific index. The delete on the other
-    // hand covers a non empty range.
-    if (from !== to) {
-      deleted = editor.getRange(changeObj.from, changeObj.to);
+  /**
+   * A helper method to compute the length of the document in the same units
+   * as indexFromPos.
+   *
+   * @internal
+   */
+  private _getDocumentLength(): number {
+    const doc = this._doc;
+    const lastLine = doc.lastLine();
+    return doc.indexFromPos({line: lastLine, ch: doc.getLine(lastLine).length});
+  }
+
+  /**
+   * Captures a change to the document, or to a linked document, before it
+   * is made, while its indices can still be computed. The change is only
+   * reported once its "change" event arrives, unless the content manager
+   * has to report it before changing the document itself.
+   *
+   * @param doc
+   *   The document that the change originated from.
+   * @param changeObj
+   *   The object that specifies the change.
+   *
+   * @internal
+   */
+  private _onBeforeChange = (doc: Doc, changeObj: EditorChangeCancellable) => {
+    this._watchLinkedDocs();
+    this._newBatch = true;
+    if (this._applying || (doc !== this._doc && this._linkedDocs.indexOf(doc) < 0)) {
+      return;
     }
 
-    // If you insert a new line you will get ["", ""] in the 'text' property
-    // so if the first element in the text array is non-empty or if you have
-    // more than one element, you know you have an insert.
-    if (changeObj.text[0] !== "" || changeObj.text.length > 1) {
-      inserted = changeObj.text.join("\n");
+    // Sub-views only receive the changes within their lines, and changes
+    // that overlap their first or last line are clipped. Clipped changes
+    // can't be captured.
+    const managed = this._doc;
+    if (changeObj.to.line < managed.firstLine() || changeObj.from.line > managed.lastLine()) {
+      return;
+    } else if (changeObj.from.line < managed.firstLine() || changeObj.to.line > managed.lastLine()) {
+      this._capturedChanges.push(null);
+      return;
     }
 
-    this._operationQueue.push({from, to, inserted, deleted});
+    const index = managed.indexFromPos(changeObj.from);
+    this._capturedChanges.push({
+      index,
+      removed: managed.getRange(changeObj.from, changeObj.to, "\n"),
+      inserted: changeObj.text.join("\n")
+    });
   }
 
   /**
-   * A helper method to process local changes from CodeMirror.
+   * A helper method to process changes from CodeMirror. The from and to
+   * positions of a change are relative to the document before the change,
+   * but CodeMirror reports the changes of an operation once the operation
+   * has ended, and the changes of a document that is not shown in an editor
+   * on a timer, when later changes may already have been made. So the
+   * change is resolved against a copy of the text that is updated in the
+   * order the changes are reported.
    *
    * @param _
-   *   The editor that the change originated from.
-   * @param changes
-   *   The array of changes.
+   *   The document that was changed.
+   * @param changeObj
+   *   The change.
    *
    * @private
    * @internal
    */
-  private _onChanges = (_: Editor, changes: EditorChangeLinkedList[]) => {
-    if (this._suppress) {
+  private _onChange = (_: Doc, changeObj: EditorChange) => {
+    const firstLine = this._doc.firstLine();
+    if (this._received !== null) {
+      // The change was made by the content manager, or was already reported.
+      // Local changes made since are reported right away, as the events of a
+      // document that is not shown in an editor may arrive after theirs.
+      this._received.applyChange(changeObj, firstLine);
+      if (!this._applying) {
+        this._reportUnprocessedChanges();
+      }
+      this._checkReceived();
       return;
     }
 
-    changes.forEach((changeObj: EditorChangeLinkedList) => {
-      const {from, to, inserted, deleted} = this._operationQueue.shift();
+    this._capturedChanges.shift();
+    const length = this._content.getLength();
+    const change = this._content.applyChange(changeObj, firstLine);
+    if (this._newBatch) {
+      this._batch++;
+      this._newBatch = false;
+    }
 
+    this._processOperation(EditorContentManager._toOperation(change, length, "local", this._batch, changeObj.origin));
+  }
+
+  /**
+   * Reports the local changes whose "change" events have not been received
+   * yet. The document can't be changed by the content manager before they
+   * are reported, as the indices of the reported changes would then be
+   * wrong. The events of the reported changes are ignored when they are
+   * received.
+   *
+   * The changes captured in "beforeChange" are reported if they turn the
+   * processed content into the document. Otherwise, for example if a change
+   * was cancelled by another "beforeChange" handler, the difference is
+   * reported as a single change.
+   *
+   * @internal
+   */
+  private _reportUnprocessedChanges(): void {
+    const captured = this._capturedChanges;
+    this._capturedChanges = [];
+
+    const text = this._doc.getValue("\n");
+    const processed = this._content.getText();
+    if (text === processed) {
+      return;
+    }
+
+    const replayed = this._content.clone();
+    const exact = captured.every((change) =>
+      change !== null && replayed.replace(change.index, change.removed.length, change.inserted) === change.removed);
+    const changes = exact && replayed.getText() === text ?
+      captured :
+      [EditorContentManager._diff(processed, text)];
+
+    if (this._received === null) {
+      this._received = this._content;
+    }
+    this._content = new DocumentText(text);
+
+    const batch = ++this._batch;
+    let length = processed.length;
+    changes.forEach((change) => {
+      this._processOperation(EditorContentManager._toOperation(change, length, "local", batch, undefined));
+      length += change.inserted.length - change.removed.length;
+    });
+    this._newBatch = true;
+  }
+
+  /**
+   * Stops ignoring "change" events once the events received have caught up
+   * with the processed content.
+   *
+   * @internal
+   */
+  private _checkReceived(): void {
+    if (!this._applying && this._received !== null && this._received.equals(this._content)) {
+      this._received = null;
+    }
+  }
+
+  /**
+   * Reports a local change, and records it in the undo history.
+   *
+   * @internal
+   */
+  private _processOperation(operation: IOperation): void {
+    const {from, to, inserted, deleted, kind} = operation;
+
+    if (kind !== "remote") {
       if (inserted !== null && deleted === null) {
         this._options.onInsert(from, inserted);
+        this._emit("localChange", {type: "insert", index: from, text: inserted});
       } else if (inserted !== null && deleted !== null) {
         this._options.onReplace(from, to - from, inserted);
+        this._emit("localChange", {type: "replace", index: from, length: to - from, text: inserted});
       } else if (inserted === null && deleted !== null) {
         this._options.onDelete(from, to - from);
-      } else {
-        throw new Error("Unexpected change: " + JSON.stringify(changeObj));
+        this._emit("localChange", {type: "delete", index: from, length: to - from});
+      } else if (kind === "local") {
+        throw new Error("Unexpected change: " + JSON.stringify({from, to}));
       }
-    });
+    }
+
+    if (this._undoManager !== null) {
+      this._recordHistory(operation);
+    }
+  }
+
+  /**
+   * A helper method that records a change in the undo history. Remote
+   * changes transform the history, while the inverses of consecutive local,
+   * undo or redo changes of one batch, such as one CodeMirror operation,
+   * are combined into a single history entry.
+   *
+   * @internal
+   */
+  private _recordHistory(operation: IOperation): void {
+    const {from, to, inserted, deleted, length, kind, batch, origin} = operation;
+    const insertedText = inserted || "";
+    const forward = TextOperation.fromChange(length, from, to - from, insertedText);
+
+    if (kind === "remote") {
+      this._flushPendingHistory();
+      this._undoManager.transform(forward);
+      return;
+    }
+
+    const inverse = TextOperation.fromChange(forward.targetLength, from, insertedText.length, deleted || "");
+    const pending = this._pendingHistory;
+    if (pending !== null && pending.kind === kind && pending.batch === batch) {
+      pending.inverse = inverse.compose(pending.inverse);
+      return;
+    }
+
+    this._flushPendingHistory();
+    this._pendingHistory = {kind, inverse, origin, batch};
+  }
+
+  /**
+   * Adds the history entry built from the current batch of changes to the
+   * undo history. This is done once the next batch starts, or when the
+   * history is used.
+   *
+   * @internal
+   */
+  private _flushPendingHistory(): void {
+    const pending = this._pendingHistory;
+    if (pending === null) {
+      return;
+    }
+
+    this._pendingHistory = null;
+    switch (pending.kind) {
+      case "local":
+        this._undoManager.addLocal(pending.inverse, pending.origin);
+        break;
+      case "undo":
+        this._undoManager.addUndone(pending.inverse);
+        break;
+      case "redo":
+        this._undoManager.addRedone(pending.inverse);
+        break;
+    }
   }
 }
 
+/**
+ * @internal
+ */
+type ChangeKind = "local" | "remote" | "undo" | "redo";
+
 /**
  * @internal
  */
@@ -211,4 +874,27 @@ interface IOperation {
   to: number;
   inserted: string;
   deleted: string;
+  length: number;
+  kind: ChangeKind;
+  batch: number;
+  origin: string | undefined;
+}
+
+/**
+ * @internal
+ */
+interface IPendingHistory {
+  kind: ChangeKind;
+  inverse: TextOperation;
+  origin: string | undefined;
+  batch: number;
+}
+
+/**
+ * @internal
+ */
+interface IOperationRange {
+  index: number;
+  length: number;
+  text: string;
 }
@@ -0,0 +1,127 @@
+/*
+ * Copyright (c) 2019 Convergence Labs, Inc.
+ *
+ * This file is part of the CodeMirror Collaborative Extensions, which is
+ * released under the terms of the MIT license. A copy of the MIT license
+ * is usually provided as part of this source code package in the LICENCE
+ * file. If it was not, please see <https://opensource.org/licenses/MIT>
+ */
+
+import {Editor} from "codemirror";
+import {Validation} from "./Validation";
+
+/**
+ * The EditorOverlay is a shared, per-editor, set of containers laid over the
+ * editor: one at the top and one at the bottom of the viewport for edge
+ * indicators, one along the vertical scrollbar for scrollbar ticks and one
+ * beside it for remote viewports. Every remote cursor, selection and viewport
+ * that shows indicators adds its own nodes to these containers.
+ *
+ * @internal
+ */
+export class EditorOverlay {
+
+  /**
+   * Gets the shared EditorOverlay for an editor, creating it if needed.
+   * Every call must be balanced by a call to release().
+   *
+   * @param editor
+   *   The editor to overlay.
+   * @returns
+   *   The shared EditorOverlay for the editor.
+   */
+  public static acquire(editor: Editor): EditorOverlay {
+    Validation.assertDefined(editor, "editor");
+
+    let overlay = EditorOverlay._overlays.get(editor);
+    if (overlay === undefined) {
+      overlay = new EditorOverlay(editor);
+      EditorOverlay._overlays.set(editor, overlay);
+    }
+
+    overlay._references++;
+    return overlay;
+  }
+
+  /**
+   * The shared overlays, by editor.
+   */
+  private static readonly _overlays = new Map<Editor, EditorOverlay>();
+
+  private static _createNode(className: string): HTMLDivElement {
+    const node = document.createElement("div");
+    node.className = className;
+    return node;
+  }
+
+  private readonly _editor: Editor;
+  private readonly _topNode: HTMLDivElement;
+  private readonly _bottomNode: HTMLDivElement;
+  private readonly _scrollbarNode: HTMLDivElement;
+  private readonly _viewportNode: HTMLDivElement;
+  private _references: number;
+
+  private constructor(editor: Editor) {
+    this._editor = editor;
+    this._references = 0;
+
+    this._topNode = EditorOverlay._createNode(
+      "codemirror-remote-edge-indicators codemirror-remote-edge-indicators-top");
+    this._bottomNode = EditorOverlay._createNode(
+      "codemirror-remote-edge-indicators codemirror-remote-edge-indicators-bottom");
+    this._scrollbarNode = EditorOverlay._createNode("codemirror-remote-scrollbar-ticks");
+    this._viewportNode = EditorOverlay._createNode("codemirror-remote-viewports");
+
+    const wrapper = this._editor.getWrapperElement();
+    wrapper.appendChild(this._topNode);
+    wrapper.appendChild(this._bottomNode);
+    wrapper.appendChild(this._scrollbarNode);
+    wrapper.appendChild(this._viewportNode);
+  }
+
+  /**
+   * Gets the container for indicators of things above the viewport.
+   */
+  public getTopNode(): HTMLDivElement {
+    return this._topNode;
+  }
+
+  /**
+   * Gets the container for indicators of things below the viewport.
+   */
+  public getBottomNode(): HTMLDivElement {
+    return this._bottomNode;
+  }
+
+  /**
+   * Gets the container for scrollbar ticks. Ticks are positioned with
+   * percentages of the document height.
+   */
+  public getScrollbarNode(): HTMLDivElement {
+    return this._scrollbarNode;
+  }
+
+  /**
+   * Gets the container for remote viewports. Viewports are positioned with
+   * percentages of the document height.
+   */
+  public getViewportNode(): HTMLDivElement {
+    return this._viewportNode;
+  }
+
+  /**
+   * Releases a reference to this overlay. When the last reference is
+   * released the containers are removed from the editor.
+   */
+  public release(): void {
+    this._references--;
+    if (this._references === 0) {
+      [this._topNode, this._bottomNode, this._scrollbarNode, this._viewportNode].forEach((node) => {
+        if (node.parentNode) {
+          node.parentNode.removeChild(node);
+        }
+      });
+      EditorOverlay._overlays.delete(this._editor);
+    }
+  }
+}
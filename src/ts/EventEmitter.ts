@@ -0,0 +1,99 @@
+/*
+ * Copyright (c) 2019 Convergence Labs, Inc.
+ *
+ * This file is part of the CodeMirror Collaborative Extensions, which is
+ * released under the terms of the MIT license. A copy of the MIT license
+ * is usually provided as part of this source code package in the LICENCE
+ * file. If it was not, please see <https://opensource.org/licenses/MIT>
+ */
+
+import {Validation} from "./Validation";
+
+/**
+ * A callback that receives an event.
+ */
+export type EventCallback<T> = (event: T) => void;
+
+/**
+ * The EventEmitter is the base class of the objects that emit events. The
+ * events an object emits, and the values passed to their listeners, are
+ * described by an interface that maps each event name to its value.
+ */
+export class EventEmitter<TEvents> {
+
+  /**
+   * The registered listeners, by event name.
+   * @internal
+   */
+  private readonly _listeners: Map<keyof TEvents, Array<EventCallback<any>>>;
+
+  /**
+   * Constructs a new EventEmitter.
+   *
+   * @internal
+   * @hidden
+   */
+  constructor() {
+    this._listeners = new Map<keyof TEvents, Array<EventCallback<any>>>();
+  }
+
+  /**
+   * Registers a listener for an event.
+   *
+   * @param event
+   *   The name of the event.
+   * @param listener
+   *   The listener to call when the event is emitted.
+   */
+  public on<K extends keyof TEvents & string>(event: K, listener: EventCallback<TEvents[K]>): void {
+    Validation.assertString(event, "event");
+    Validation.assertFunction(listener, "listener");
+
+    let listeners = this._listeners.get(event);
+    if (listeners === undefined) {
+      listeners = [];
+      this._listeners.set(event, listeners);
+    }
+    listeners.push(listener);
+  }
+
+  /**
+   * Removes a listener added with on.
+   *
+   * @param event
+   *   The name of the event.
+   * @param listener
+   *   The listener to remove.
+   */
+  public off<K extends keyof TEvents & string>(event: K, listener: EventCallback<TEvents[K]>): void {
+    const listeners = this._listeners.get(event);
+    if (listeners !== undefined) {
+      const index = listeners.indexOf(listener);
+      if (index >= 0) {
+        listeners.splice(index, 1);
+      }
+    }
+  }
+
+  /**
+   * Calls the listeners of an event. Listeners added or removed while the
+   * event is being emitted take effect from the next event.
+   *
+   * @internal
+   */
+  public _emit<K extends keyof TEvents & string>(event: K, value: TEvents[K]): void {
+    const listeners = this._listeners.get(event);
+    if (listeners !== undefined) {
+      listeners.slice(0).forEach((listener) => listener(value));
+    }
+  }
+
+  /**
+   * Removes all listeners, once the object will not emit any more events.
+   *
+   * @internal
+   */
+  public _removeAllListeners(): void {
+    this._listeners.clear();
+  }
+}
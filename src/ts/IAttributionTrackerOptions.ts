@@ -0,0 +1,62 @@
+/*
+ * Copyright (c) 2019 Convergence Labs, Inc.
+ *
+ * This file is part of the CodeMirror Collaborative Extensions, which is
+ * released under the terms of the MIT license. A copy of the MIT license
+ * is usually provided as part of this source code package in the LICENCE
+ * file. If it was not, please see <https://opensource.org/licenses/MIT>
+ */
+
+import {Doc, Editor} from "codemirror";
+import {AttributionStyle} from "./Attribution";
+import {EditorContentManager} from "./EditorContentManager";
+
+/**
+ * The IAttributionTrackerOptions interface represents the set of options that
+ * configures how the AttributionTracker behaves.
+ */
+export interface IAttributionTrackerOptions {
+  /**
+   * The instance of the CodeMirror editor to track. Either the editor or the
+   * doc must be set.
+   */
+  editor?: Editor;
+
+  /**
+   * The CodeMirror document to track. Defaults to the editor's document when
+   * the tracker is created. The attribution stays with the document when
+   * another document is swapped into the editor.
+   */
+  doc?: Doc;
+
+  /**
+   * The content manager that applies remote edits to the editor. The author
+   * of a remote edit is the one passed to its applyOperations method. If not
+   * set, remote edits are not attributed.
+   */
+  contentManager?: EditorContentManager;
+
+  /**
+   * The id of the local user, that local edits are attributed to. If not set,
+   * local edits are not attributed.
+   */
+  localAuthor?: string;
+
+  /**
+   * How attributed text is rendered. Defaults to "none".
+   */
+  style?: AttributionStyle;
+
+  /**
+   * Gets the css color of an author. Required unless the style is "none".
+   *
+   * @param author
+   *   The id of the author.
+   */
+  getColor?: (author: string) => string;
+
+  /**
+   * The source id used by the content manager when making remote edits.
+   */
+  remoteOrigin?: string;
+}
@@ -0,0 +1,100 @@
+/*
+ * Copyright (c) 2019 Convergence Labs, Inc.
+ *
+ * This file is part of the CodeMirror Collaborative Extensions, which is
+ * released under the terms of the MIT license. A copy of the MIT license
+ * is usually provided as part of this source code package in the LICENCE
+ * file. If it was not, please see <https://opensource.org/licenses/MIT>
+ */
+
+import {Editor} from "codemirror";
+import {AttributionStyle} from "./Attribution";
+import {ITransport} from "./ITransport";
+
+/**
+ * Describes how a remote user is rendered.
+ */
+export interface IRemoteUserInfo {
+  /**
+   * The css color the user's cursor and selection are rendered in.
+   */
+  color: string;
+
+  /**
+   * The label shown in the user's cursor tooltip.
+   */
+  label?: string;
+}
+
+/**
+ * The ICollaborationBindingOptions interface represents the set of options
+ * that configures how the CollaborationBinding behaves.
+ */
+export interface ICollaborationBindingOptions {
+  /**
+   * The instance of the CodeMirror editor to synchronize.
+   */
+  editor: Editor;
+
+  /**
+   * The transport used to exchange messages with other users.
+   */
+  transport: ITransport;
+
+  /**
+   * The unique id of the local user.
+   */
+  userId: string;
+
+  /**
+   * The color and label that other users render the local user with. These
+   * are announced when the binding joins the session.
+   */
+  user?: IRemoteUserInfo;
+
+  /**
+   * Provides the color and label of a remote user that did not announce
+   * them when joining. If not set, such users are rendered in the default
+   * color without a label.
+   *
+   * @param userId
+   *   The unique id of the remote user.
+   */
+  resolveUser?: (userId: string) => IRemoteUserInfo;
+
+  /**
+   * Called when a message received from the transport can not be decoded,
+   * for example because it was sent by a newer release. The message is
+   * ignored. If not set, the error is thrown.
+   *
+   * @param error
+   *   The error describing why the message was rejected.
+   * @param message
+   *   The raw message.
+   */
+  onMessageError?: (error: Error, message: string) => void;
+
+  /**
+   * Determines if tooltips will be shown when remote cursors are moved.
+   */
+  tooltips?: boolean;
+
+  /**
+   * The time (in seconds) that a tooltip should remain visible after the
+   * cursor was last moved.
+   */
+  tooltipDuration?: number;
+
+  /**
+   * The delay (in milliseconds) used to throttle outgoing cursor and
+   * selection messages. Defaults to 0.
+   */
+  selectionDelay?: number;
+
+  /**
+   * Tracks who wrote each part of the document with an AttributionTracker,
+   * rendered in the given style using the colors of the users. If not set,
+   * authorship is not tracked.
+   */
+  attribution?: AttributionStyle;
+}
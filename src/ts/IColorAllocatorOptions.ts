@@ -0,0 +1,42 @@
+/*
+ * Copyright (c) 2019 Convergence Labs, Inc.
+ *
+ * This file is part of the CodeMirror Collaborative Extensions, which is
+ * released under the terms of the MIT license. A copy of the MIT license
+ * is usually provided as part of this source code package in the LICENCE
+ * file. If it was not, please see <https://opensource.org/licenses/MIT>
+ */
+
+import {Editor} from "codemirror";
+
+/**
+ * The IColorAllocatorOptions interface represents the set of options that
+ * configures how the ColorAllocator assigns colors.
+ */
+export interface IColorAllocatorOptions {
+  /**
+   * The editor whose theme the colors should stand out against. The
+   * background color is read from the editor when colors are allocated, so
+   * colors allocated after a theme change suit the new theme.
+   */
+  editor?: Editor;
+
+  /**
+   * The background color the colors should stand out against. Takes
+   * precedence over the editor's background. If neither is set, a white
+   * background is assumed.
+   */
+  background?: string;
+
+  /**
+   * The colors to allocate from. Defaults to ColorAllocator.LIGHT_PALETTE on
+   * light backgrounds and ColorAllocator.DARK_PALETTE on dark backgrounds.
+   */
+  palette?: string[];
+
+  /**
+   * The minimum WCAG contrast ratio between a color and the background.
+   * Colors of the palette with less contrast are skipped. Defaults to 2.
+   */
+  minContrast?: number;
+}
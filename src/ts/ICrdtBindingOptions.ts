@@ -0,0 +1,43 @@
+/*
+ * Copyright (c) 2019 Convergence Labs, Inc.
+ *
+ * This file is part of the CodeMirror Collaborative Extensions, which is
+ * released under the terms of the MIT license. A copy of the MIT license
+ * is usually provided as part of this source code package in the LICENCE
+ * file. If it was not, please see <https://opensource.org/licenses/MIT>
+ */
+
+import {Editor} from "codemirror";
+import {CrdtDocument} from "./CrdtDocument";
+import {ICrdtUpdate} from "./CrdtUpdate";
+
+/**
+ * The ICrdtBindingOptions interface represents the set of options that
+ * configures how the CrdtBinding behaves.
+ */
+export interface ICrdtBindingOptions {
+  /**
+   * The instance of the CodeMirror editor to synchronize.
+   */
+  editor: Editor;
+
+  /**
+   * The document to bind the editor to. The editor's content is replaced
+   * with the text of the document.
+   */
+  document: CrdtDocument;
+
+  /**
+   * Sends an update caused by a local change to the other copies of the
+   * document.
+   *
+   * @param update
+   *   The update to send.
+   */
+  onUpdate: (update: ICrdtUpdate) => void;
+
+  /**
+   * The source id that will be used when applying remote updates.
+   */
+  remoteOrigin?: string;
+}
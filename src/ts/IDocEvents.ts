@@ -0,0 +1,24 @@
+/*
+ * Copyright (c) 2019 Convergence Labs, Inc.
+ *
+ * This file is part of the CodeMirror Collaborative Extensions, which is
+ * released under the terms of the MIT license. A copy of the MIT license
+ * is usually provided as part of this source code package in the LICENCE
+ * file. If it was not, please see <https://opensource.org/licenses/MIT>
+ */
+
+import {Doc, EditorChange, EditorChangeCancellable} from "codemirror";
+
+/**
+ * The events of a CodeMirror document, which the typings don't declare. A
+ * Doc is cast to Doc & IDocEvents to listen to them.
+ *
+ * @internal
+ */
+export interface IDocEvents {
+  on(event: "beforeChange", handler: (doc: Doc, changeObj: EditorChangeCancellable) => void): void;
+  on(event: "change", handler: (doc: Doc, changeObj: EditorChange) => void): void;
+
+  off(event: "beforeChange", handler: (doc: Doc, changeObj: EditorChangeCancellable) => void): void;
+  off(event: "change", handler: (doc: Doc, changeObj: EditorChange) => void): void;
+}
@@ -0,0 +1,71 @@
+/*
+ * Copyright (c) 2019 Convergence Labs, Inc.
+ *
+ * This file is part of the CodeMirror Collaborative Extensions, which is
+ * released under the terms of the MIT license. A copy of the MIT license
+ * is usually provided as part of this source code package in the LICENCE
+ * file. If it was not, please see <https://opensource.org/licenses/MIT>
+ */
+
+/**
+ * A checksum of the content of a document at a specific version.
+ */
+export interface IDocumentChecksum {
+  /**
+   * The version of the document the checksum was computed at.
+   */
+  version: number;
+
+  /**
+   * The length of the content.
+   */
+  length: number;
+
+  /**
+   * A 32 bit hash of the content, as computed by DocumentVerifier.hash.
+   */
+  hash: number;
+}
+
+/**
+ * The full content of a document at a specific version.
+ */
+export interface IDocumentSnapshot {
+  /**
+   * The version of the document the snapshot was taken at.
+   */
+  version: number;
+
+  /**
+   * The content of the document.
+   */
+  content: string;
+}
+
+/**
+ * Describes how the local content of a document differs from a snapshot.
+ * Replacing the local text at index with the remote text makes the two
+ * identical. The common text before and after the difference is excluded,
+ * so the difference is as small as possible.
+ */
+export interface IDocumentDivergence {
+  /**
+   * The version of the document at which the divergence was detected.
+   */
+  version: number;
+
+  /**
+   * The index at which the local content first differs from the snapshot.
+   */
+  index: number;
+
+  /**
+   * The differing text in the local content.
+   */
+  localText: string;
+
+  /**
+   * The differing text in the snapshot.
+   */
+  remoteText: string;
+}
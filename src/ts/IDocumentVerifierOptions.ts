@@ -0,0 +1,59 @@
+/*
+ * Copyright (c) 2019 Convergence Labs, Inc.
+ *
+ * This file is part of the CodeMirror Collaborative Extensions, which is
+ * released under the terms of the MIT license. A copy of the MIT license
+ * is usually provided as part of this source code package in the LICENCE
+ * file. If it was not, please see <https://opensource.org/licenses/MIT>
+ */
+
+import {Editor} from "codemirror";
+import {EditorContentManager} from "./EditorContentManager";
+import {IDocumentDivergence} from "./IDocumentChecksum";
+
+/**
+ * The IDocumentVerifierOptions interface represents the set of options that
+ * configures how the DocumentVerifier behaves.
+ */
+export interface IDocumentVerifierOptions {
+  /**
+   * The instance of the CodeMirror editor to verify.
+   */
+  editor: Editor;
+
+  /**
+   * Gets the current version of the document, for example the revision of
+   * a TextOperationClient. The content of such a client only matches the
+   * server's while it is synchronized, and the client must be reset after a
+   * resync.
+   */
+  getVersion: () => number;
+
+  /**
+   * The content manager capturing local changes to the editor, if any. When
+   * set, a resync is applied through it, so that the change is not reported
+   * as a local edit. For a TextOperationClient, this is the client's
+   * getContentManager().
+   */
+  contentManager?: EditorContentManager;
+
+  /**
+   * Called when a snapshot shows that the local content has diverged.
+   *
+   * @param divergence
+   *   How the local content differs from the snapshot.
+   */
+  onDivergence?: (divergence: IDocumentDivergence) => void;
+
+  /**
+   * If true, the local content is resynchronized with a snapshot as soon as
+   * a divergence is detected. Defaults to false.
+   */
+  autoResync?: boolean;
+
+  /**
+   * The source id that will be used when resynchronizing the editor without
+   * a content manager.
+   */
+  remoteOrigin?: string;
+}
@@ -0,0 +1,48 @@
+/*
+ * Copyright (c) 2019 Convergence Labs, Inc.
+ *
+ * This file is part of the CodeMirror Collaborative Extensions, which is
+ * released under the terms of the MIT license. A copy of the MIT license
+ * is usually provided as part of this source code package in the LICENCE
+ * file. If it was not, please see <https://opensource.org/licenses/MIT>
+ */
+
+import {ContentOperation} from "./ContentOperation";
+
+/**
+ * The events emitted by an EditorContentManager, and the values passed to
+ * their listeners.
+ */
+export interface IEditorContentManagerEvents {
+  /**
+   * The local user changed the document, including by selective undo and
+   * redo. Receives the change, which is also reported through the onInsert,
+   * onReplace and onDelete callbacks.
+   */
+  localChange: ContentOperation;
+
+  /**
+   * Remote edits were applied to the editor.
+   */
+  remoteChangeApplied: IRemoteChange;
+
+  /**
+   * The content manager was disposed.
+   */
+  disposed: void;
+}
+
+/**
+ * Remote edits applied to the editor by an EditorContentManager.
+ */
+export interface IRemoteChange {
+  /**
+   * The edits, in the form passed to applyOperations.
+   */
+  operations: ContentOperation[];
+
+  /**
+   * The author passed to applyOperations, or null if there was none.
+   */
+  author: string | null;
+}
@@ -7,7 +7,7 @@
  * file. If it was not, please see <https://opensource.org/licenses/MIT>
  */
 
-import {Editor} from "codemirror";
+import {Doc, Editor} from "codemirror";
 
 /**
  * The IEditorContentManagerOptions interface represents the set of options that
@@ -15,9 +15,20 @@ import {Editor} from "codemirror";
  */
 export interface IEditorContentManagerOptions {
   /**
-   * The instance of the CodeMirror editor to add the remote cursors to.
+   * The instance of the CodeMirror editor whose content is managed. Either
+   * the editor or the doc must be set. The editor is also needed for the
+   * undo and redo key bindings of selective undo.
    */
-  editor: Editor;
+  editor?: Editor;
+
+  /**
+   * The CodeMirror document whose content is managed. Defaults to the
+   * editor's document when the content manager is created. The content
+   * manager stays bound to the document when another document is swapped
+   * into the editor, and also captures local changes made through documents
+   * linked to it, for example in other editors.
+   */
+  doc?: Doc;
 
   /**
    * Handles cases where text was inserted into the editor.
@@ -56,5 +67,13 @@ export interface IEditorContentManagerOptions {
    */
   remoteOrigin?: string;
 
+  /**
+   * Enables collaboration-aware undo and redo. When enabled, the content
+   * manager keeps its own history containing only local changes, and the
+   * editor's undo and redo key bindings are routed to it, so that undoing
+   * never reverts a change made by a remote user. Defaults to false.
+   */
+  selectiveUndo?: boolean;
+
   id?: string;
 }
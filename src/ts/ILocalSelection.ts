@@ -0,0 +1,49 @@
+/*
+ * Copyright (c) 2019 Convergence Labs, Inc.
+ *
+ * This file is part of the CodeMirror Collaborative Extensions, which is
+ * released under the terms of the MIT license. A copy of the MIT license
+ * is usually provided as part of this source code package in the LICENCE
+ * file. If it was not, please see <https://opensource.org/licenses/MIT>
+ */
+
+import {Position} from "codemirror";
+import {ISelectionRange} from "./ISelectionRange";
+
+/**
+ * A selected range of the local user, expressed both as CodeMirror positions
+ * and as zero-based text indices.
+ */
+export interface ILocalSelectionRange extends ISelectionRange {
+  /**
+   * The zero-based index of the anchor.
+   */
+  anchorIndex: number;
+
+  /**
+   * The zero-based index of the head.
+   */
+  headIndex: number;
+}
+
+/**
+ * The ILocalSelection interface represents the cursor and selections of the
+ * local user, in a form suitable for sending to remote users.
+ */
+export interface ILocalSelection {
+  /**
+   * The position of the primary cursor.
+   */
+  cursor: Position;
+
+  /**
+   * The zero-based index of the primary cursor.
+   */
+  cursorIndex: number;
+
+  /**
+   * All of the selected ranges. Ranges that are empty represent additional
+   * cursors. The first range is the primary range.
+   */
+  ranges: ILocalSelectionRange[];
+}
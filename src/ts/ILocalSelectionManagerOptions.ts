@@ -0,0 +1,49 @@
+/*
+ * Copyright (c) 2019 Convergence Labs, Inc.
+ *
+ * This file is part of the CodeMirror Collaborative Extensions, which is
+ * released under the terms of the MIT license. A copy of the MIT license
+ * is usually provided as part of this source code package in the LICENCE
+ * file. If it was not, please see <https://opensource.org/licenses/MIT>
+ */
+
+import {Editor} from "codemirror";
+import {ILocalSelection} from "./ILocalSelection";
+
+/**
+ * The ILocalSelectionManagerOptions interface represents the set of options
+ * that configures how the LocalSelectionManager behaves.
+ */
+export interface ILocalSelectionManagerOptions {
+  /**
+   * The instance of the CodeMirror editor to listen to.
+   */
+  editor: Editor;
+
+  /**
+   * Handles changes to the local user's cursor and selections.
+   *
+   * @param selection
+   *   The current cursor and selections of the local user.
+   */
+  onSelectionChanged: (selection: ILocalSelection) => void;
+
+  /**
+   * How rapid changes are rate limited. "debounce" waits until the selection
+   * has stopped changing for the delay, while "throttle" emits at most once
+   * per delay. Defaults to "debounce".
+   */
+  rateLimit?: "debounce" | "throttle";
+
+  /**
+   * The delay (in milliseconds) used to rate limit changes. Defaults to 0,
+   * which emits once the current CodeMirror operation has completed.
+   */
+  delay?: number;
+
+  /**
+   * The source id used by the EditorContentManager when making remote edits.
+   * Cursor activity caused only by remote edits is not emitted.
+   */
+  remoteOrigin?: string;
+}
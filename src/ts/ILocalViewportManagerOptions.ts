@@ -0,0 +1,37 @@
+/*
+ * Copyright (c) 2019 Convergence Labs, Inc.
+ *
+ * This file is part of the CodeMirror Collaborative Extensions, which is
+ * released under the terms of the MIT license. A copy of the MIT license
+ * is usually provided as part of this source code package in the LICENCE
+ * file. If it was not, please see <https://opensource.org/licenses/MIT>
+ */
+
+import {Editor} from "codemirror";
+import {IViewport} from "./IViewport";
+
+/**
+ * The ILocalViewportManagerOptions interface represents the set of options
+ * that configures how the LocalViewportManager behaves.
+ */
+export interface ILocalViewportManagerOptions {
+  /**
+   * The instance of the CodeMirror editor to listen to.
+   */
+  editor: Editor;
+
+  /**
+   * Handles changes to the lines the local user is looking at.
+   *
+   * @param viewport
+   *   The lines that are currently visible.
+   */
+  onViewportChanged: (viewport: IViewport) => void;
+
+  /**
+   * The delay (in milliseconds) the viewport must stop changing for before
+   * it is emitted, so that scrolling does not flood remote users with
+   * updates. Defaults to 100.
+   */
+  delay?: number;
+}
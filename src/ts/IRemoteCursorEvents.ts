@@ -0,0 +1,86 @@
+/*
+ * Copyright (c) 2019 Convergence Labs, Inc.
+ *
+ * This file is part of the CodeMirror Collaborative Extensions, which is
+ * released under the terms of the MIT license. A copy of the MIT license
+ * is usually provided as part of this source code package in the LICENCE
+ * file. If it was not, please see <https://opensource.org/licenses/MIT>
+ */
+
+import {Position} from "codemirror";
+import {RemoteCursor} from "./RemoteCursor";
+
+/**
+ * The events emitted by a RemoteCursor, and the values passed to their
+ * listeners.
+ */
+export interface IRemoteCursorEvents {
+  /**
+   * The cursor was moved, either by setting its positions or by an edit
+   * that moved its carets. Receives the positions of the cursor's carets.
+   */
+  cursorMoved: Position[];
+
+  /**
+   * The cursor was shown or hidden. Receives true if it is now visible.
+   */
+  visibilityChanged: boolean;
+
+  /**
+   * The local user started following the cursor.
+   */
+  followStarted: void;
+
+  /**
+   * The local user stopped following the cursor.
+   */
+  followStopped: void;
+
+  /**
+   * The cursor was disposed.
+   */
+  disposed: void;
+}
+
+/**
+ * The events emitted by a RemoteCursorManager, and the values passed to
+ * their listeners. Each, except disposed, receives the cursor the event is
+ * about.
+ */
+export interface IRemoteCursorManagerEvents {
+  /**
+   * A cursor was added.
+   */
+  cursorAdded: RemoteCursor;
+
+  /**
+   * A cursor was removed, or disposed.
+   */
+  cursorRemoved: RemoteCursor;
+
+  /**
+   * A cursor was moved, either by setting its positions or by an edit.
+   */
+  cursorMoved: RemoteCursor;
+
+  /**
+   * A cursor was shown or hidden.
+   */
+  visibilityChanged: RemoteCursor;
+
+  /**
+   * The local user started following a cursor.
+   */
+  followStarted: RemoteCursor;
+
+  /**
+   * The local user stopped following a cursor, either explicitly, because
+   * the local user scrolled or typed, or because the cursor was removed.
+   */
+  followStopped: RemoteCursor;
+
+  /**
+   * The manager was disposed.
+   */
+  disposed: void;
+}
@@ -7,7 +7,10 @@
  * file. If it was not, please see <https://opensource.org/licenses/MIT>
  */
 
-import {Editor} from "codemirror";
+import {Doc, Editor} from "codemirror";
+import {ColorAllocator} from "./ColorAllocator";
+import {RemoteCursorActivityState} from "./RemoteCursorActivityState";
+import {RemoteCursorTooltipPlacement, RemoteCursorTooltipRenderer} from "./RemoteCursorTooltip";
 
 /**
  * The IRemoteCursorManagerOptions interface represents the set of options that
@@ -19,14 +22,131 @@ export interface IRemoteCursorManagerOptions {
    */
   editor: Editor;
 
+  /**
+   * The document the remote cursors are in. Defaults to the editor's
+   * document when the manager is created. The cursors are only rendered
+   * while the editor shows this document, and keep following edits to it
+   * while another document is swapped in.
+   */
+  doc?: Doc;
+
   /**
    * Determines if tooltips will be shown when the cursor is moved.
    */
   tooltips?: boolean;
 
+  /**
+   * Assigns colors to cursors that are added without one. Share the same
+   * allocator with the RemoteSelectionManager, so that a user's cursor and
+   * selection get the same color.
+   */
+  colorAllocator?: ColorAllocator;
+
+  /**
+   * The width (in pixels) of the carets. Defaults to 2.
+   */
+  caretWidth?: number;
+
+  /**
+   * The css color of the tooltip text, or "auto" to use black or white,
+   * whichever is more readable on the cursor's color. If not set, the color
+   * from the stylesheet is used.
+   */
+  tooltipTextColor?: string;
+
   /**
    * The time (in seconds) that the tooltip should remain visible after
    * it was last moved.
    */
   tooltipDuration?: number;
-}
\ No newline at end of file
+
+  /**
+   * Renders the content of the tooltips. By default the label is rendered
+   * as plain text; a renderer can add avatars, status badges, etc. Any text
+   * from untrusted users should be added with textContent or text nodes,
+   * rather than innerHTML.
+   */
+  tooltipRenderer?: RemoteCursorTooltipRenderer;
+
+  /**
+   * Where tooltips are placed relative to the cursor. Tooltips that would
+   * extend past the right edge of the editor are flipped to the left of the
+   * cursor. Defaults to "auto".
+   */
+  tooltipPlacement?: RemoteCursorTooltipPlacement;
+
+  /**
+   * If true, tooltips are always shown instead of only after the cursor was
+   * moved. Defaults to false.
+   */
+  tooltipAlwaysVisible?: boolean;
+
+  /**
+   * If true, remote cursors that are scrolled out of view are indicated at
+   * the top or bottom edge of the editor. Clicking an indicator scrolls the
+   * cursor into view. Defaults to false.
+   */
+  edgeIndicators?: boolean;
+
+  /**
+   * If true, the positions of remote cursors are marked on the vertical
+   * scrollbar. Defaults to false.
+   */
+  scrollbarTicks?: boolean;
+
+  /**
+   * The name of a gutter, configured with the editor's "gutters" option, in
+   * which to mark the lines that remote cursors are on with the initials of
+   * their users. If not set, no gutter markers are shown.
+   */
+  presenceGutter?: string;
+
+  /**
+   * The time (in seconds) without activity after which a remote cursor is
+   * considered idle. Defaults to 30.
+   */
+  idleTimeout?: number;
+
+  /**
+   * The time (in seconds) without activity after which a remote cursor is
+   * considered away. Defaults to 300.
+   */
+  awayTimeout?: number;
+
+  /**
+   * The time (in seconds) after a remote user last typed that their cursor
+   * shows that they are typing. Defaults to 1.
+   */
+  typingTimeout?: number;
+
+  /**
+   * Called when a remote cursor's activity state changes, or when its user
+   * starts or stops typing.
+   *
+   * @param id
+   *   The unique id of the remote cursor.
+   * @param state
+   *   The new activity state.
+   * @param typing
+   *   Whether the user is typing.
+   */
+  onActivityChanged?: (id: string, state: RemoteCursorActivityState, typing: boolean) => void;
+
+  /**
+   * Called when the local user starts following a remote cursor.
+   *
+   * @param id
+   *   The id of the followed cursor.
+   */
+  onFollowStarted?: (id: string) => void;
+
+  /**
+   * Called when the local user stops following a remote cursor, either
+   * explicitly, because the local user scrolled or typed, or because the
+   * cursor was removed.
+   *
+   * @param id
+   *   The id of the cursor that was followed.
+   */
+  onFollowStopped?: (id: string) => void;
+}
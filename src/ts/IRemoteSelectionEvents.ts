@@ -0,0 +1,64 @@
+/*
+ * Copyright (c) 2019 Convergence Labs, Inc.
+ *
+ * This file is part of the CodeMirror Collaborative Extensions, which is
+ * released under the terms of the MIT license. A copy of the MIT license
+ * is usually provided as part of this source code package in the LICENCE
+ * file. If it was not, please see <https://opensource.org/licenses/MIT>
+ */
+
+import {ISelectionRange} from "./ISelectionRange";
+import {RemoteSelection} from "./RemoteSelection";
+
+/**
+ * The events emitted by a RemoteSelection, and the values passed to their
+ * listeners.
+ */
+export interface IRemoteSelectionEvents {
+  /**
+   * The ranges of the selection were set. Receives the new ranges.
+   */
+  selectionChanged: ISelectionRange[];
+
+  /**
+   * The selection was shown or hidden. Receives true if it is now visible.
+   */
+  visibilityChanged: boolean;
+
+  /**
+   * The selection was disposed.
+   */
+  disposed: void;
+}
+
+/**
+ * The events emitted by a RemoteSelectionManager, and the values passed to
+ * their listeners. Each, except disposed, receives the selection the event
+ * is about.
+ */
+export interface IRemoteSelectionManagerEvents {
+  /**
+   * A selection was added.
+   */
+  selectionAdded: RemoteSelection;
+
+  /**
+   * A selection was removed, or disposed.
+   */
+  selectionRemoved: RemoteSelection;
+
+  /**
+   * The ranges of a selection were set.
+   */
+  selectionChanged: RemoteSelection;
+
+  /**
+   * A selection was shown or hidden.
+   */
+  visibilityChanged: RemoteSelection;
+
+  /**
+   * The manager was disposed.
+   */
+  disposed: void;
+}
@@ -11,11 +11,64 @@
  * The IRemoteSelectionManagerOptions represents the options that
  * configure the behavior a the RemoteSelectionManager.
  */
-import {Editor} from "codemirror";
+import {Doc, Editor} from "codemirror";
+import {ColorAllocator} from "./ColorAllocator";
 
 export interface IRemoteSelectionManagerOptions {
   /**
    * The CodeMirror Editor instance to render the remote selections into.
    */
   editor: Editor;
-}
\ No newline at end of file
+
+  /**
+   * The document the remote selections are in. Defaults to the editor's
+   * document when the manager is created. The selections are only rendered
+   * while the editor shows this document, and keep following edits to it
+   * while another document is swapped in.
+   */
+  doc?: Doc;
+
+  /**
+   * Assigns colors to selections that are added without one. Share the same
+   * allocator with the RemoteCursorManager, so that a user's cursor and
+   * selection get the same color.
+   */
+  colorAllocator?: ColorAllocator;
+
+  /**
+   * The opacity of the selection highlight, between 0 and 1. Defaults to 0.3.
+   */
+  selectionOpacity?: number;
+
+  /**
+   * The nonce to set on the style element that colors the selections, for
+   * pages with a Content Security Policy that does not allow inline styles.
+   * Not needed in browsers that support constructable stylesheets.
+   */
+  styleNonce?: string;
+
+  /**
+   * Determines if text inserted at the start of a remote selection, by either
+   * a local or remote user, becomes part of the selection. Defaults to false.
+   */
+  inclusiveLeft?: boolean;
+
+  /**
+   * Determines if text inserted at the end of a remote selection, by either
+   * a local or remote user, becomes part of the selection. Defaults to false.
+   */
+  inclusiveRight?: boolean;
+
+  /**
+   * If true, the ranges of remote selections are marked on the vertical
+   * scrollbar. Defaults to false.
+   */
+  scrollbarTicks?: boolean;
+
+  /**
+   * The name of a gutter, configured with the editor's "gutters" option, in
+   * which to mark the lines that remote selections cover with the initials
+   * of their users. If not set, no gutter markers are shown.
+   */
+  presenceGutter?: string;
+}
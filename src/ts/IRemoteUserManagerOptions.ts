@@ -0,0 +1,19 @@
+/*
+ * Copyright (c) 2019 Convergence Labs, Inc.
+ *
+ * This file is part of the CodeMirror Collaborative Extensions, which is
+ * released under the terms of the MIT license. A copy of the MIT license
+ * is usually provided as part of this source code package in the LICENCE
+ * file. If it was not, please see <https://opensource.org/licenses/MIT>
+ */
+
+import {IRemoteCursorManagerOptions} from "./IRemoteCursorManagerOptions";
+import {IRemoteSelectionManagerOptions} from "./IRemoteSelectionManagerOptions";
+
+/**
+ * The IRemoteUserManagerOptions interface represents the set of options that
+ * configures how the RemoteUserManager works. The options are passed on to
+ * the underlying RemoteCursorManager and RemoteSelectionManager.
+ */
+export interface IRemoteUserManagerOptions extends IRemoteCursorManagerOptions, IRemoteSelectionManagerOptions {
+}
@@ -0,0 +1,27 @@
+/*
+ * Copyright (c) 2019 Convergence Labs, Inc.
+ *
+ * This file is part of the CodeMirror Collaborative Extensions, which is
+ * released under the terms of the MIT license. A copy of the MIT license
+ * is usually provided as part of this source code package in the LICENCE
+ * file. If it was not, please see <https://opensource.org/licenses/MIT>
+ */
+
+import {Position} from "codemirror";
+import {ISelectionRange} from "./ISelectionRange";
+
+/**
+ * The IRemoteUserUpdate interface represents a change to what a remote user
+ * is doing in the editor. Properties that are omitted are left unchanged.
+ */
+export interface IRemoteUserUpdate {
+  /**
+   * The position of the remote user's cursor.
+   */
+  cursor?: Position;
+
+  /**
+   * The remote user's selected ranges.
+   */
+  selections?: ISelectionRange[];
+}
@@ -0,0 +1,29 @@
+/*
+ * Copyright (c) 2019 Convergence Labs, Inc.
+ *
+ * This file is part of the CodeMirror Collaborative Extensions, which is
+ * released under the terms of the MIT license. A copy of the MIT license
+ * is usually provided as part of this source code package in the LICENCE
+ * file. If it was not, please see <https://opensource.org/licenses/MIT>
+ */
+
+import {Editor} from "codemirror";
+
+/**
+ * The IRemoteViewportManagerOptions represents the options that configure
+ * the behavior of the RemoteViewportManager.
+ */
+export interface IRemoteViewportManagerOptions {
+  /**
+   * The CodeMirror Editor instance to render the remote viewports into.
+   */
+  editor: Editor;
+
+  /**
+   * The name of a gutter, configured with the editor's "gutters" option, to
+   * render the remote viewports in as colored bars next to the visible lines.
+   * If not set, the viewports are rendered as bars along the right edge of
+   * the editor, scaled to the height of the document, like a minimap.
+   */
+  gutter?: string;
+}
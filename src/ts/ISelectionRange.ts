@@ -0,0 +1,27 @@
+/*
+ * Copyright (c) 2019 Convergence Labs, Inc.
+ *
+ * This file is part of the CodeMirror Collaborative Extensions, which is
+ * released under the terms of the MIT license. A copy of the MIT license
+ * is usually provided as part of this source code package in the LICENCE
+ * file. If it was not, please see <https://opensource.org/licenses/MIT>
+ */
+
+import {Position} from "codemirror";
+
+/**
+ * The ISelectionRange interface represents a single selected range, in the
+ * same form as CodeMirror's own selections. The anchor is the position where
+ * the selection started and the head is the position where the cursor is.
+ */
+export interface ISelectionRange {
+  /**
+   * The fixed end of the range.
+   */
+  anchor: Position;
+
+  /**
+   * The moving end of the range, where the cursor is.
+   */
+  head: Position;
+}
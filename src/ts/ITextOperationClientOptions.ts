@@ -0,0 +1,56 @@
+/*
+ * Copyright (c) 2019 Convergence Labs, Inc.
+ *
+ * This file is part of the CodeMirror Collaborative Extensions, which is
+ * released under the terms of the MIT license. A copy of the MIT license
+ * is usually provided as part of this source code package in the LICENCE
+ * file. If it was not, please see <https://opensource.org/licenses/MIT>
+ */
+
+import {Editor} from "codemirror";
+import {TextOperation} from "./TextOperation";
+import {TextOperationClientSyncStatus} from "./TextOperationClient";
+
+/**
+ * The ITextOperationClientOptions interface represents the set of options that
+ * configures how the TextOperationClient behaves.
+ */
+export interface ITextOperationClientOptions {
+  /**
+   * The instance of the CodeMirror editor to synchronize.
+   */
+  editor: Editor;
+
+  /**
+   * Sends a local operation to the server. The operation was made against
+   * the specified revision of the document. The server is expected to
+   * acknowledge the operation, which must be reported back to the client
+   * using TextOperationClient.serverAck().
+   *
+   * @param revision
+   *   The revision the operation was made against.
+   * @param operation
+   *   The operation to send.
+   */
+  sendOperation: (revision: number, operation: TextOperation) => void;
+
+  /**
+   * The revision of the document currently loaded into the editor. Defaults
+   * to 0.
+   */
+  revision?: number;
+
+  /**
+   * The source id that will be used when applying server operations.
+   */
+  remoteOrigin?: string;
+
+  /**
+   * Called when the client goes offline, starts syncing local operations
+   * with the server, or has no more local operations waiting on the server.
+   *
+   * @param status
+   *   The new sync status.
+   */
+  onSyncStatusChanged?: (status: TextOperationClientSyncStatus) => void;
+}
@@ -0,0 +1,45 @@
+/*
+ * Copyright (c) 2019 Convergence Labs, Inc.
+ *
+ * This file is part of the CodeMirror Collaborative Extensions, which is
+ * released under the terms of the MIT license. A copy of the MIT license
+ * is usually provided as part of this source code package in the LICENCE
+ * file. If it was not, please see <https://opensource.org/licenses/MIT>
+ */
+
+/**
+ * A callback that receives a message from a transport.
+ */
+export type TransportMessageListener = (message: string) => void;
+
+/**
+ * The ITransport interface connects a CollaborationBinding to the network (or
+ * any other channel). A transport sends serialized messages to every other
+ * participant and delivers the messages they send. Messages sent by a
+ * transport must not be delivered back to the same transport.
+ */
+export interface ITransport {
+  /**
+   * Sends a message to all other participants.
+   *
+   * @param message
+   *   The serialized message.
+   */
+  send(message: string): void;
+
+  /**
+   * Registers a listener for messages from other participants.
+   *
+   * @param listener
+   *   The listener to add.
+   */
+  addMessageListener(listener: TransportMessageListener): void;
+
+  /**
+   * Removes a listener added with addMessageListener.
+   *
+   * @param listener
+   *   The listener to remove.
+   */
+  removeMessageListener(listener: TransportMessageListener): void;
+}
@@ -0,0 +1,23 @@
+/*
+ * Copyright (c) 2019 Convergence Labs, Inc.
+ *
+ * This file is part of the CodeMirror Collaborative Extensions, which is
+ * released under the terms of the MIT license. A copy of the MIT license
+ * is usually provided as part of this source code package in the LICENCE
+ * file. If it was not, please see <https://opensource.org/licenses/MIT>
+ */
+
+/**
+ * A range of lines of a document that a user is looking at.
+ */
+export interface IViewport {
+  /**
+   * The first visible line, zero-based.
+   */
+  from: number;
+
+  /**
+   * The line after the last visible line.
+   */
+  to: number;
+}
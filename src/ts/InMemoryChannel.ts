@@ -0,0 +1,95 @@
+/*
+ * Copyright (c) 2019 Convergence Labs, Inc.
+ *
+ * This file is part of the CodeMirror Collaborative Extensions, which is
+ * released under the terms of the MIT license. A copy of the MIT license
+ * is usually provided as part of this source code package in the LICENCE
+ * file. If it was not, please see <https://opensource.org/licenses/MIT>
+ */
+
+import {InMemoryTransport} from "./InMemoryTransport";
+import {ITransport} from "./ITransport";
+
+/**
+ * The InMemoryChannel connects multiple transports without a server, so that
+ * several editors in one page, or in one test process, can be synchronized.
+ * Every message sent by one transport is broadcast to all of the others.
+ */
+export class InMemoryChannel {
+
+  /**
+   * The transports connected to this channel.
+   *
+   * @internal
+   */
+  private readonly _transports: InMemoryTransport[];
+
+  /**
+   * Whether messages are delivered asynchronously.
+   *
+   * @internal
+   */
+  private readonly _async: boolean;
+
+  /**
+   * Creates a new InMemoryChannel.
+   *
+   * @param async
+   *   If true, messages are delivered asynchronously (in the order they were
+   *   sent), which more closely resembles a network. Defaults to false, in
+   *   which case messages are delivered before send() returns.
+   */
+  constructor(async: boolean = false) {
+    this._transports = [];
+    this._async = async;
+  }
+
+  /**
+   * Creates a new transport connected to this channel.
+   *
+   * @returns
+   *   The new transport.
+   */
+  public createTransport(): ITransport {
+    const transport = new InMemoryTransport(this._broadcast);
+    this._transports.push(transport);
+    return transport;
+  }
+
+  /**
+   * Disconnects a transport from this channel. It will no longer receive
+   * messages, and messages it sends are dropped.
+   *
+   * @param transport
+   *   The transport to disconnect.
+   */
+  public removeTransport(transport: ITransport): void {
+    const index = this._transports.indexOf(transport as InMemoryTransport);
+    if (index >= 0) {
+      this._transports.splice(index, 1);
+    }
+  }
+
+  /**
+   * @internal
+   */
+  private _broadcast = (sender: InMemoryTransport, message: string) => {
+    if (this._transports.indexOf(sender) < 0) {
+      return;
+    }
+
+    this._transports
+      .filter((transport) => transport !== sender)
+      .forEach((transport) => {
+        if (this._async) {
+          setTimeout(() => {
+            if (this._transports.indexOf(transport) >= 0) {
+              transport.deliver(message);
+            }
+          }, 0);
+        } else {
+          transport.deliver(message);
+        }
+      });
+  }
+}
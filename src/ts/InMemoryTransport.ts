@@ -0,0 +1,45 @@
+/*
+ * Copyright (c) 2019 Convergence Labs, Inc.
+ *
+ * This file is part of the CodeMirror Collaborative Extensions, which is
+ * released under the terms of the MIT license. A copy of the MIT license
+ * is usually provided as part of this source code package in the LICENCE
+ * file. If it was not, please see <https://opensource.org/licenses/MIT>
+ */
+
+import {ITransport, TransportMessageListener} from "./ITransport";
+
+/**
+ * A transport connected to an InMemoryChannel.
+ *
+ * @internal
+ */
+export class InMemoryTransport implements ITransport {
+
+  private readonly _broadcast: (sender: InMemoryTransport, message: string) => void;
+  private readonly _listeners: TransportMessageListener[];
+
+  constructor(broadcast: (sender: InMemoryTransport, message: string) => void) {
+    this._broadcast = broadcast;
+    this._listeners = [];
+  }
+
+  public send(message: string): void {
+    this._broadcast(this, message);
+  }
+
+  public addMessageListener(listener: TransportMessageListener): void {
+    this._listeners.push(listener);
+  }
+
+  public removeMessageListener(listener: TransportMessageListener): void {
+    const index = this._listeners.indexOf(listener);
+    if (index >= 0) {
+      this._listeners.splice(index, 1);
+    }
+  }
+
+  public deliver(message: string): void {
+    this._listeners.slice(0).forEach((listener) => listener(message));
+  }
+}
@@ -0,0 +1,200 @@
+/*
+ * Copyright (c) 2019 Convergence Labs, Inc.
+ *
+ * This file is part of the CodeMirror Collaborative Extensions, which is
+ * released under the terms of the MIT license. A copy of the MIT license
+ * is usually provided as part of this source code package in the LICENCE
+ * file. If it was not, please see <https://opensource.org/licenses/MIT>
+ */
+
+import {Editor, EditorChangeCancellable} from "codemirror";
+import {ILocalSelection} from "./ILocalSelection";
+import {ILocalSelectionManagerOptions} from "./ILocalSelectionManagerOptions";
+import {Validation} from "./Validation";
+
+/**
+ * The LocalSelectionManager listens to the local user's cursor and selections
+ * and emits rate limited updates that are suitable for sending to remote
+ * users, where they can be rendered with the RemoteCursorManager and the
+ * RemoteSelectionManager. It pairs with the EditorContentManager, which does
+ * the same for content changes.
+ */
+export class LocalSelectionManager {
+
+  /**
+   * Option defaults.
+   *
+   * @internal
+   */
+  private static readonly _DEFAULTS: Partial<ILocalSelectionManagerOptions> = {
+    rateLimit: "debounce",
+    delay: 0,
+    remoteOrigin: "remote"
+  };
+
+  /**
+   * The options that configure the LocalSelectionManager.
+   * @internal
+   */
+  private readonly _options: ILocalSelectionManagerOptions;
+
+  /**
+   * The pending rate limit timer, if any.
+   * @internal
+   */
+  private _timer: any;
+
+  /**
+   * The time the last update was emitted, used when throttling.
+   * @internal
+   */
+  private _lastEmitted: number;
+
+  /**
+   * Set when a remote edit was made in the current CodeMirror operation.
+   * @internal
+   */
+  private _remoteChange: boolean;
+
+  /**
+   * Set when a local edit was made in the current CodeMirror operation.
+   * @internal
+   */
+  private _localChange: boolean;
+
+  /**
+   * Constructs a new LocalSelectionManager using the supplied options.
+   *
+   * @param options
+   *   The options that configure the LocalSelectionManager.
+   */
+  constructor(options: ILocalSelectionManagerOptions) {
+    this._options = {...LocalSelectionManager._DEFAULTS, ...options};
+
+    Validation.assertDefined(this._options, "options");
+    Validation.assertDefined(this._options.editor, "options.editor");
+    Validation.assertFunction(this._options.onSelectionChanged, "options.onSelectionChanged");
+    Validation.assertNumber(this._options.delay, "options.delay");
+    if (this._options.rateLimit !== "debounce" && this._options.rateLimit !== "throttle") {
+      throw new Error(`options.rateLimit must be "debounce" or "throttle" but was: ${this._options.rateLimit}`);
+    }
+
+    this._timer = null;
+    this._lastEmitted = 0;
+    this._remoteChange = false;
+    this._localChange = false;
+
+    this._options.editor.on("beforeChange", this._onBeforeChange);
+    this._options.editor.on("cursorActivity", this._onCursorActivity);
+    this._options.editor.on("changes", this._onChanges);
+  }
+
+  /**
+   * Gets the current cursor and selections of the local user.
+   *
+   * @returns
+   *   The local user's cursor and selections.
+   */
+  public getSelection(): ILocalSelection {
+    const editor = this._options.editor;
+    const cursor = editor.getCursor("head");
+    return {
+      cursor: {line: cursor.line, ch: cursor.ch},
+      cursorIndex: editor.indexFromPos(cursor),
+      ranges: editor.listSelections().map(({anchor, head}) => ({
+        anchor: {line: anchor.line, ch: anchor.ch},
+        head: {line: head.line, ch: head.ch},
+        anchorIndex: editor.indexFromPos(anchor),
+        headIndex: editor.indexFromPos(head)
+      }))
+    };
+  }
+
+  /**
+   * Immediately emits any pending update.
+   */
+  public flush(): void {
+    if (this._timer !== null) {
+      this._emit();
+    }
+  }
+
+  /**
+   * Disposes of the LocalSelectionManager, freeing any resources. Pending
+   * updates are discarded.
+   */
+  public dispose(): void {
+    this._options.editor.off("beforeChange", this._onBeforeChange);
+    this._options.editor.off("cursorActivity", this._onCursorActivity);
+    this._options.editor.off("changes", this._onChanges);
+    this._clearTimer();
+  }
+
+  /**
+   * Records whether edits in the current operation are local or remote.
+   * CodeMirror fires "beforeChange" for every edit before "cursorActivity".
+   *
+   * @internal
+   */
+  private _onBeforeChange = (_: Editor, changeObj: EditorChangeCancellable) => {
+    if (changeObj.origin === this._options.remoteOrigin) {
+      this._remoteChange = true;
+    } else {
+      this._localChange = true;
+    }
+  }
+
+  /**
+   * Resets the change flags at the end of each operation. CodeMirror only
+   * fires "cursorActivity" when an edit touches the selection, but always
+   * fires "changes" last.
+   *
+   * @internal
+   */
+  private _onChanges = () => {
+    this._remoteChange = false;
+    this._localChange = false;
+  }
+
+  /**
+   * @internal
+   */
+  private _onCursorActivity = () => {
+    const remoteOnly = this._remoteChange && !this._localChange;
+    this._remoteChange = false;
+    this._localChange = false;
+
+    // When a remote edit moves the local cursor, remote users will apply the
+    // same edit, so there is nothing new to tell them.
+    if (remoteOnly) {
+      return;
+    }
+
+    if (this._options.rateLimit === "debounce") {
+      this._clearTimer();
+      this._timer = setTimeout(this._emit, this._options.delay);
+    } else if (this._timer === null) {
+      const wait = Math.max(0, this._lastEmitted + this._options.delay - Date.now());
+      this._timer = setTimeout(this._emit, wait);
+    }
+  }
+
+  /**
+   * @internal
+   */
+  private _emit = () => {
+    this._clearTimer();
+    this._lastEmitted = Date.now();
+    this._options.onSelectionChanged(this.getSelection());
+  }
+
+  /**
+   * @internal
+   */
+  private _clearTimer(): void {
+    if (this._timer !== null) {
+      clearTimeout(this._timer);
+      this._timer = null;
+    }
+  }
+}
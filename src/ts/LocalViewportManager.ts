@@ -0,0 +1,137 @@
+/*
+ * Copyright (c) 2019 Convergence Labs, Inc.
+ *
+ * This file is part of the CodeMirror Collaborative Extensions, which is
+ * released under the terms of the MIT license. A copy of the MIT license
+ * is usually provided as part of this source code package in the LICENCE
+ * file. If it was not, please see <https://opensource.org/licenses/MIT>
+ */
+
+import {ILocalViewportManagerOptions} from "./ILocalViewportManagerOptions";
+import {IViewport} from "./IViewport";
+import {Validation} from "./Validation";
+
+/**
+ * The LocalViewportManager listens to the local editor's scroll position and
+ * size and emits the range of lines the local user is looking at, so that it
+ * can be rendered for remote users with the RemoteViewportManager.
+ */
+export class LocalViewportManager {
+
+  /**
+   * Option defaults.
+   *
+   * @internal
+   */
+  private static readonly _DEFAULTS = {
+    delay: 100
+  };
+
+  /**
+   * The options that configure the LocalViewportManager.
+   * @internal
+   */
+  private readonly _options: ILocalViewportManagerOptions;
+
+  /**
+   * The pending debounce timer, if any.
+   * @internal
+   */
+  private _timer: any;
+
+  /**
+   * The viewport that was last emitted.
+   * @internal
+   */
+  private _lastViewport: IViewport | null;
+
+  /**
+   * Constructs a new LocalViewportManager using the supplied options.
+   *
+   * @param options
+   *   The options that configure the LocalViewportManager.
+   */
+  constructor(options: ILocalViewportManagerOptions) {
+    this._options = {...LocalViewportManager._DEFAULTS, ...options};
+
+    Validation.assertDefined(this._options, "options");
+    Validation.assertDefined(this._options.editor, "options.editor");
+    Validation.assertFunction(this._options.onViewportChanged, "options.onViewportChanged");
+    Validation.assertNumber(this._options.delay, "options.delay");
+
+    this._timer = null;
+    this._lastViewport = null;
+
+    this._options.editor.on("scroll", this._onViewportActivity);
+    this._options.editor.on("refresh", this._onViewportActivity);
+    this._options.editor.on("changes", this._onViewportActivity);
+  }
+
+  /**
+   * Gets the range of lines that is currently visible in the editor.
+   *
+   * @returns
+   *   The local user's viewport.
+   */
+  public getViewport(): IViewport {
+    const editor = this._options.editor;
+    const scrollInfo = editor.getScrollInfo();
+    const from = editor.lineAtHeight(scrollInfo.top, "local");
+    const last = editor.lineAtHeight(scrollInfo.top + Math.max(0, scrollInfo.clientHeight - 1), "local");
+    return {from, to: Math.min(last + 1, editor.lineCount())};
+  }
+
+  /**
+   * Immediately emits any pending update.
+   */
+  public flush(): void {
+    if (this._timer !== null) {
+      this._emit();
+    }
+  }
+
+  /**
+   * Disposes of the LocalViewportManager, freeing any resources. Pending
+   * updates are discarded.
+   */
+  public dispose(): void {
+    this._options.editor.off("scroll", this._onViewportActivity);
+    this._options.editor.off("refresh", this._onViewportActivity);
+    this._options.editor.off("changes", this._onViewportActivity);
+    this._clearTimer();
+  }
+
+  /**
+   * @internal
+   */
+  private _onViewportActivity = () => {
+    this._clearTimer();
+    this._timer = setTimeout(this._emit, this._options.delay);
+  }
+
+  /**
+   * Emits the viewport, unless it is the same as the last one emitted.
+   *
+   * @internal
+   */
+  private _emit = () => {
+    this._clearTimer();
+
+    const viewport = this.getViewport();
+    const last = this._lastViewport;
+    if (last === null || last.from !== viewport.from || last.to !== viewport.to) {
+      this._lastViewport = viewport;
+      this._options.onViewportChanged(viewport);
+    }
+  }
+
+  /**
+   * @internal
+   */
+  private _clearTimer(): void {
+    if (this._timer !== null) {
+      clearTimeout(this._timer);
+      this._timer = null;
+    }
+  }
+}
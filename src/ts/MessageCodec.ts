@@ -0,0 +1,155 @@
+/*
+ * Copyright (c) 2019 Convergence Labs, Inc.
+ *
+ * This file is part of the CodeMirror Collaborative Extensions, which is
+ * released under the terms of the MIT license. A copy of the MIT license
+ * is usually provided as part of this source code package in the LICENCE
+ * file. If it was not, please see <https://opensource.org/licenses/MIT>
+ */
+
+import {CollaborationMessage} from "./CollaborationMessage";
+import {Validation} from "./Validation";
+
+/**
+ * The MessageCodec encodes CollaborationMessages to, and decodes them from,
+ * the JSON wire format. Every encoded message carries the protocol version
+ * it was written with, and decoded messages are validated before they are
+ * returned, so that a malformed or incompatible payload is rejected with a
+ * clear error instead of corrupting the editor.
+ *
+ * Decoders accept any version up to their own, which allows newer clients to
+ * read messages from older ones. Properties that a decoder does not know
+ * about are ignored.
+ */
+export class MessageCodec {
+
+  /**
+   * The protocol version written by this release.
+   */
+  public static readonly VERSION = 1;
+
+  /**
+   * Encodes a message for sending over a transport.
+   *
+   * @param message
+   *   The message to encode.
+   *
+   * @returns
+   *   The encoded message.
+   */
+  public static encode(message: CollaborationMessage): string {
+    MessageCodec.validate(message);
+    return JSON.stringify({version: MessageCodec.VERSION, ...message});
+  }
+
+  /**
+   * Decodes a message received from a transport.
+   *
+   * @param data
+   *   The encoded message.
+   *
+   * @returns
+   *   The decoded message.
+   *
+   * @throws
+   *   If the data is not a valid message, or was written with a newer
+   *   protocol version than this release supports.
+   */
+  public static decode(data: string): CollaborationMessage {
+    Validation.assertString(data, "data");
+
+    let json: unknown;
+    try {
+      json = JSON.parse(data);
+    } catch (e) {
+      throw new Error(`Malformed message, it is not valid JSON: ${data}`);
+    }
+
+    if (typeof json !== "object" || json === null || Array.isArray(json)) {
+      throw new Error(`Malformed message, it must be an object: ${data}`);
+    }
+
+    const {version, ...message} = json as {[field: string]: unknown};
+    if (typeof version !== "number" || version < 1 || Math.floor(version) !== version) {
+      throw new Error(`Malformed message, version must be a positive integer but was: ${version}`);
+    }
+
+    if (version > MessageCodec.VERSION) {
+      throw new Error(
+        `Unsupported message version ${version}, this release supports up to version ${MessageCodec.VERSION}`);
+    }
+
+    MessageCodec.validate(message);
+    return message;
+  }
+
+  /**
+   * Validates that an object is a well formed message.
+   *
+   * @param message
+   *   The object to validate.
+   *
+   * @throws
+   *   If the object is not a well formed message.
+   */
+  public static validate(message: unknown): asserts message is CollaborationMessage {
+    Validation.assertObject(message, "message");
+    Validation.assertString(message.userId, "message.userId");
+
+    switch (message.type) {
+      case "content":
+        Validation.assertArray(message.operations, "message.operations");
+        message.operations.forEach((op, i) =>
+          MessageCodec._validateContentOperation(op, `message.operations[${i}]`));
+        break;
+      case "cursor":
+        Validation.assertArray(message.indices, "message.indices");
+        message.indices.forEach((index, i) =>
+          Validation.assertNonNegativeInteger(index, `message.indices[${i}]`));
+        break;
+      case "selection":
+        Validation.assertArray(message.ranges, "message.ranges");
+        message.ranges.forEach((range, i) => {
+          Validation.assertObject(range, `message.ranges[${i}]`);
+          Validation.assertNonNegativeInteger(range.anchor, `message.ranges[${i}].anchor`);
+          Validation.assertNonNegativeInteger(range.head, `message.ranges[${i}].head`);
+        });
+        break;
+      case "join":
+        if (message.color !== undefined) {
+          Validation.assertString(message.color, "message.color");
+        }
+        if (message.label !== undefined) {
+          Validation.assertString(message.label, "message.label");
+        }
+        break;
+      case "leave":
+        break;
+      default:
+        throw new Error(`Unknown message type: ${message.type}`);
+    }
+  }
+
+  /**
+   * @internal
+   */
+  private static _validateContentOperation(op: unknown, name: string): void {
+    Validation.assertObject(op, name);
+    Validation.assertNonNegativeInteger(op.index, `${name}.index`);
+
+    switch (op.type) {
+      case "insert":
+        Validation.assertString(op.text, `${name}.text`);
+        break;
+      case "replace":
+        Validation.assertNonNegativeInteger(op.length, `${name}.length`);
+        Validation.assertString(op.text, `${name}.text`);
+        break;
+      case "delete":
+        Validation.assertNonNegativeInteger(op.length, `${name}.length`);
+        break;
+      default:
+        throw new Error(`${name}.type must be "insert", "replace" or "delete" but was: ${op.type}`);
+    }
+  }
+}
@@ -0,0 +1,119 @@
+/*
+ * Copyright (c) 2019 Convergence Labs, Inc.
+ *
+ * This file is part of the CodeMirror Collaborative Extensions, which is
+ * released under the terms of the MIT license. A copy of the MIT license
+ * is usually provided as part of this source code package in the LICENCE
+ * file. If it was not, please see <https://opensource.org/licenses/MIT>
+ */
+
+import {Doc, EditorChange, Position} from "codemirror";
+import {IDocEvents} from "./IDocEvents";
+import {OnPositionChanged, TrackedPosition} from "./TrackedPosition";
+import {Validation} from "./Validation";
+
+/**
+ * The PositionTracker is a shared, per-document, service that keeps anchored
+ * decorations (remote cursors, remote selections, etc.) in sync with edits to
+ * the document. Rather than each decoration listening to the document and
+ * shifting its own indices, decorations register TrackedPositions with the
+ * single PositionTracker for their document. The tracker listens to the
+ * document's "change" event once, and notifies only the positions that moved.
+ * As the tracker is bound to the document rather than an editor, positions
+ * keep following edits while the document is swapped out of its editor.
+ *
+ * @internal
+ */
+export class PositionTracker {
+
+  /**
+   * Gets the shared PositionTracker for a document, creating it if needed.
+   * Every call must be balanced by a call to release().
+   *
+   * @param doc
+   *   The document to track positions in.
+   * @returns
+   *   The shared PositionTracker for the document.
+   */
+  public static acquire(doc: Doc): PositionTracker {
+    Validation.assertDefined(doc, "doc");
+
+    let tracker = PositionTracker._trackers.get(doc);
+    if (tracker === undefined) {
+      tracker = new PositionTracker(doc);
+      PositionTracker._trackers.set(doc, tracker);
+    }
+
+    tracker._references++;
+    return tracker;
+  }
+
+  /**
+   * The shared trackers, by document.
+   */
+  private static readonly _trackers = new Map<Doc, PositionTracker>();
+
+  private readonly _doc: Doc;
+  private readonly _positions: TrackedPosition[];
+  private _references: number;
+
+  private constructor(doc: Doc) {
+    this._doc = doc;
+    this._positions = [];
+    this._references = 0;
+
+    (this._doc as Doc & IDocEvents).on("change", this._onChange);
+  }
+
+  /**
+   * Starts tracking a position.
+   *
+   * @param position
+   *   The initial position.
+   * @param onChanged
+   *   Called with the new position whenever an edit moves the position.
+   * @param insertLeft
+   *   If true, text inserted exactly at the position ends up to the left of
+   *   it (the position moves forward). Defaults to false.
+   * @returns
+   *   The TrackedPosition, which must be disposed when no longer needed.
+   */
+  public track(position: Position, onChanged: OnPositionChanged, insertLeft: boolean = false): TrackedPosition {
+    const trackedPosition = new TrackedPosition(
+      this._doc,
+      position,
+      insertLeft,
+      onChanged,
+      (disposed) => this._positions.splice(this._positions.indexOf(disposed), 1));
+    this._positions.push(trackedPosition);
+    return trackedPosition;
+  }
+
+  /**
+   * Releases a reference to this tracker. When the last reference is
+   * released the tracker stops listening to the document. Releasing a
+   * tracker more often than it was acquired throws an error, rather than
+   * releasing the tracker that has since been acquired for the document.
+   */
+  public release(): void {
+    if (this._references === 0) {
+      throw new Error("The PositionTracker has already been released.");
+    }
+
+    this._references--;
+    if (this._references === 0) {
+      this._positions.slice(0).forEach((position) => position.dispose());
+      (this._doc as Doc & IDocEvents).off("change", this._onChange);
+      PositionTracker._trackers.delete(this._doc);
+    }
+  }
+
+  private _onChange = (_: Doc, change: EditorChange) => {
+    // Copy the array since listeners may dispose positions.
+    this._positions.slice(0).forEach((position) => {
+      if (!position.isDisposed()) {
+        position.update(change);
+      }
+    });
+  }
+}
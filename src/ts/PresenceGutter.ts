@@ -0,0 +1,184 @@
+/*
+ * Copyright (c) 2019 Convergence Labs, Inc.
+ *
+ * This file is part of the CodeMirror Collaborative Extensions, which is
+ * released under the terms of the MIT license. A copy of the MIT license
+ * is usually provided as part of this source code package in the LICENCE
+ * file. If it was not, please see <https://opensource.org/licenses/MIT>
+ */
+
+import {Editor} from "codemirror";
+import {Validation} from "./Validation";
+
+/**
+ * Something that shows a remote user's presence in the gutter: a remote
+ * cursor or a remote selection.
+ *
+ * @internal
+ */
+export interface IPresenceGutterEntry {
+  /**
+   * The userland id of the remote user. Entries with the same id are shown
+   * as a single marker.
+   */
+  id: string;
+  color: string;
+  label: string | undefined;
+
+  /**
+   * Gets the lines the entry is on, or an empty array if it is hidden.
+   */
+  getLines: () => number[];
+}
+
+/**
+ * The PresenceGutter is a shared, per-editor and gutter, set of markers that
+ * show which lines remote users' cursors and selections are on. Each line
+ * gets a dot with the initials of every user on it, stacked side by side.
+ * Remote cursors and selections add entries as they are created and update
+ * the gutter as they move; the gutter also updates itself when the document
+ * changes, since the entries move with the text.
+ *
+ * @internal
+ */
+export class PresenceGutter {
+
+  /**
+   * Gets the shared PresenceGutter for a gutter of an editor, creating it if
+   * needed. Every call must be balanced by a call to release().
+   *
+   * @param editor
+   *   The editor the gutter belongs to.
+   * @param gutter
+   *   The name of the gutter, as configured in the "gutters" option.
+   * @returns
+   *   The shared PresenceGutter.
+   */
+  public static acquire(editor: Editor, gutter: string): PresenceGutter {
+    Validation.assertDefined(editor, "editor");
+    Validation.assertString(gutter, "gutter");
+
+    let gutters = PresenceGutter._gutters.get(editor);
+    if (gutters === undefined) {
+      gutters = new Map<string, PresenceGutter>();
+      PresenceGutter._gutters.set(editor, gutters);
+    }
+
+    let presenceGutter = gutters.get(gutter);
+    if (presenceGutter === undefined) {
+      presenceGutter = new PresenceGutter(editor, gutter);
+      gutters.set(gutter, presenceGutter);
+    }
+
+    presenceGutter._references++;
+    return presenceGutter;
+  }
+
+  /**
+   * The shared gutters, by editor and gutter name.
+   */
+  private static readonly _gutters = new Map<Editor, Map<string, PresenceGutter>>();
+
+  /**
+   * Gets up to two initials from a label, or the id if there is no label.
+   */
+  private static _initials(entry: IPresenceGutterEntry): string {
+    const name = entry.label !== undefined && entry.label.trim() !== "" ? entry.label : entry.id;
+    return name.trim().split(/\s+/).slice(0, 2).map((word) => word.charAt(0).toUpperCase()).join("");
+  }
+
+  private static _createMarker(entries: IPresenceGutterEntry[]): HTMLElement {
+    const marker = document.createElement("div");
+    marker.className = "codemirror-remote-presence-marker";
+    marker.title = entries.map((entry) => entry.label !== undefined ? entry.label : entry.id).join(", ");
+
+    entries.forEach((entry) => {
+      const dot = document.createElement("span");
+      dot.className = "codemirror-remote-presence-dot";
+      dot.style.background = entry.color;
+      dot.textContent = PresenceGutter._initials(entry);
+      marker.appendChild(dot);
+    });
+    return marker;
+  }
+
+  private readonly _editor: Editor;
+  private readonly _gutter: string;
+  private readonly _entries: IPresenceGutterEntry[];
+  private _references: number;
+
+  private constructor(editor: Editor, gutter: string) {
+    this._editor = editor;
+    this._gutter = gutter;
+    this._entries = [];
+    this._references = 0;
+
+    this._editor.on("changes", this.update);
+  }
+
+  public add(entry: IPresenceGutterEntry): void {
+    this._entries.push(entry);
+    this.update();
+  }
+
+  public remove(entry: IPresenceGutterEntry): void {
+    const index = this._entries.indexOf(entry);
+    if (index >= 0) {
+      this._entries.splice(index, 1);
+      this.update();
+    }
+  }
+
+  /**
+   * Re-renders the markers from the current lines of the entries.
+   */
+  public update = () => {
+    const lineCount = this._editor.lineCount();
+    const lines = new Map<number, IPresenceGutterEntry[]>();
+    this._entries.forEach((entry) => {
+      entry.getLines().forEach((line) => {
+        if (line < 0 || line >= lineCount) {
+          return;
+        }
+
+        if (!lines.has(line)) {
+          lines.set(line, []);
+        }
+        const lineEntries = lines.get(line);
+        if (!lineEntries.some((other) => other.id === entry.id)) {
+          lineEntries.push(entry);
+        }
+      });
+    });
+
+    this._editor.operation(() => {
+      this._editor.clearGutter(this._gutter);
+      lines.forEach((lineEntries, line) => {
+        this._editor.setGutterMarker(line, this._gutter, PresenceGutter._createMarker(lineEntries));
+      });
+    });
+  }
+
+  /**
+   * Releases a reference to this gutter. When the last reference is released
+   * the markers are removed from the editor. Releasing a gutter more often
+   * than it was acquired throws an error.
+   */
+  public release(): void {
+    if (this._references === 0) {
+      throw new Error("The PresenceGutter has already been released.");
+    }
+
+    this._references--;
+    if (this._references === 0) {
+      this._editor.off("changes", this.update);
+      this._editor.clearGutter(this._gutter);
+
+      const gutters = PresenceGutter._gutters.get(this._editor);
+      gutters.delete(this._gutter);
+      if (gutters.size === 0) {
+        PresenceGutter._gutters.delete(this._editor);
+      }
+    }
+  }
+}
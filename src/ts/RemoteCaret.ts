@@ -0,0 +1,102 @@
+/*
+ * Copyright (c) 2019 Convergence Labs, Inc.
+ *
+ * This file is part of the CodeMirror Collaborative Extensions, which is
+ * released under the terms of the MIT license. A copy of the MIT license
+ * is usually provided as part of this source code package in the LICENCE
+ * file. If it was not, please see <https://opensource.org/licenses/MIT>
+ */
+
+import {Editor, Position} from "codemirror";
+import {PositionTracker} from "./PositionTracker";
+import {TrackedPosition} from "./TrackedPosition";
+
+/**
+ * A single caret node of a remote cursor. The caret is added to CodeMirror
+ * as a widget and follows the text around it as edits are made.
+ *
+ * @internal
+ */
+export class RemoteCaret {
+
+  private readonly _editor: Editor;
+  private readonly _domNode: HTMLDivElement;
+  private readonly _trackedPosition: TrackedPosition;
+  private readonly _onMoved: () => void;
+
+  constructor(editor: Editor,
+              positionTracker: PositionTracker,
+              color: string,
+              width: number,
+              position: Position,
+              onMoved: () => void) {
+    this._editor = editor;
+    this._onMoved = onMoved;
+
+    this._domNode = document.createElement("div");
+    this._domNode.className = "codemirror-remote-cursor";
+    this._domNode.style.width = `${width}px`;
+
+    // The bar is a separate element, so that the activity states can fade it
+    // without fading the tooltip, which is also a child of the caret.
+    const bar = document.createElement("div");
+    bar.className = "codemirror-remote-cursor-bar";
+    bar.style.background = color;
+    this._domNode.appendChild(bar);
+
+    this._editor.addWidget({line: 0, ch: 0}, this._domNode, false);
+
+    // Text inserted at the caret ends up before it, so the caret advances as
+    // its user types.
+    this._trackedPosition = positionTracker.track(position, this._onPositionChanged, true);
+    this._render(this._trackedPosition.getPosition());
+  }
+
+  public getDomNode(): HTMLDivElement {
+    return this._domNode;
+  }
+
+  public getPosition(): Position {
+    return this._trackedPosition.getPosition();
+  }
+
+  public setPosition(position: Position): void {
+    this._trackedPosition.setPosition(position);
+    this._render(this._trackedPosition.getPosition());
+  }
+
+  public refresh(): void {
+    // CodeMirror reports the changes of a document that is not shown in an
+    // editor asynchronously, so the position may not have been updated yet.
+    this._trackedPosition.update();
+    this._render(this._trackedPosition.getPosition());
+  }
+
+  public setVisible(visible: boolean): void {
+    this._domNode.style.display = visible ? "inherit" : "none";
+  }
+
+  public dispose(): void {
+    this._trackedPosition.dispose();
+
+    if (this._domNode.parentNode) {
+      this._domNode.parentNode.removeChild(this._domNode);
+    }
+  }
+
+  /**
+   * Re-renders the caret when an edit moves it.
+   */
+  private _onPositionChanged = (position: Position) => {
+    this._render(position);
+    this._onMoved();
+  }
+
+  private _render(position: Position): void {
+    const cursorCoords = this._editor.cursorCoords(position, "local");
+    const height = cursorCoords.bottom - cursorCoords.top;
+    this._domNode.style.height = height + "px";
+    this._domNode.style.left = cursorCoords.left + "px";
+    this._domNode.style.top = cursorCoords.top + "px";
+  }
+}
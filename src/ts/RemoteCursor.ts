@@ -8,14 +8,17 @@
  */
 
 import {Position} from "codemirror";
+import {EventEmitter} from "./EventEmitter";
+import {IRemoteCursorEvents} from "./IRemoteCursorEvents";
+import {RemoteCursorActivityState} from "./RemoteCursorActivityState";
 import {RemoteCursorWidget} from "./RemoteCursorWidget";
 
 /**
  * The RemoteCursor class represents a remote cursor in the CodeMirror
  * Editor. This class allows you to control the location and visibility
- * of the cursor.
+ * of the cursor, and emits the events described by IRemoteCursorEvents.
  */
-export class RemoteCursor {
+export class RemoteCursor extends EventEmitter<IRemoteCursorEvents> {
 
   /**
    * @internal
@@ -32,6 +35,7 @@ export class RemoteCursor {
    * @hidden
    */
   constructor(delegate: RemoteCursorWidget) {
+    super();
     this._delegate = delegate;
   }
 
@@ -55,6 +59,17 @@ export class RemoteCursor {
     return this._delegate.getPosition();
   }
 
+  /**
+   * Gets the positions of all of the cursor's carets, when the remote user
+   * has multiple cursors. The first position is the primary cursor.
+   *
+   * @returns
+   *   The positions of the cursor's carets.
+   */
+  public getPositions(): Position[] {
+    return this._delegate.getPositions();
+  }
+
   /**
    * Sets the location of the cursor based on a CodeMirror Position.
    *
@@ -65,6 +80,18 @@ export class RemoteCursor {
     this._delegate.setPosition(position);
   }
 
+  /**
+   * Sets the locations of the cursor's carets, for when the remote user has
+   * multiple cursors. A caret is rendered at each position, and the tooltip
+   * is shown at the first position.
+   *
+   * @param positions
+   *   The line / column positions of the carets.
+   */
+  public setPositions(positions: Position[]): void {
+    this._delegate.setPositions(positions);
+  }
+
   /**
    * Sets the location of the cursor using a zero-based text index.
    *
@@ -75,6 +102,45 @@ export class RemoteCursor {
     this._delegate.setIndex(index);
   }
 
+  /**
+   * Signals that the remote user typed, for example when a content change is
+   * received from them. The cursor shows that the user is typing for the
+   * typing timeout. Moving the cursor also counts as activity.
+   */
+  public markTyping(): void {
+    this._delegate.markTyping();
+  }
+
+  /**
+   * Gets how recently the remote user was active.
+   *
+   * @returns
+   *   The activity state of the cursor.
+   */
+  public getActivityState(): RemoteCursorActivityState {
+    return this._delegate.getActivityState();
+  }
+
+  /**
+   * Determines if the remote user is typing.
+   *
+   * @returns
+   *   True if the user typed within the typing timeout.
+   */
+  public isTyping(): boolean {
+    return this._delegate.isTyping();
+  }
+
+  /**
+   * Gets the time the remote user was last active ("last seen").
+   *
+   * @returns
+   *   The time of the last activity, in milliseconds since the epoch.
+   */
+  public getLastActivity(): number {
+    return this._delegate.getLastActivity();
+  }
+
   /**
    * Shows the cursor if it is hidden.
    */
@@ -89,6 +155,16 @@ export class RemoteCursor {
     this._delegate.hide();
   }
 
+  /**
+   * Determines if the cursor is shown.
+   *
+   * @returns
+   *   True if the cursor is shown, false if it is hidden.
+   */
+  public isVisible(): boolean {
+    return this._delegate.isVisible();
+  }
+
   /**
    * Determines if the cursor has already been disposed. A cursor is disposed
    * when it has been permanently removed from the editor.
@@ -0,0 +1,17 @@
+/*
+ * Copyright (c) 2019 Convergence Labs, Inc.
+ *
+ * This file is part of the CodeMirror Collaborative Extensions, which is
+ * released under the terms of the MIT license. A copy of the MIT license
+ * is usually provided as part of this source code package in the LICENCE
+ * file. If it was not, please see <https://opensource.org/licenses/MIT>
+ */
+
+/**
+ * How recently a remote user was active.
+ *
+ * - "active": The cursor moved, or the user typed, recently.
+ * - "idle": The user has not been active for the idle timeout.
+ * - "away": The user has not been active for the away timeout.
+ */
+export type RemoteCursorActivityState = "active" | "idle" | "away";
@@ -7,10 +7,13 @@
  * file. If it was not, please see <https://opensource.org/licenses/MIT>
  */
 
-import {Position} from "codemirror";
+import {Doc, Editor, Position} from "codemirror";
+import {EventEmitter} from "./EventEmitter";
+import {IRemoteCursorManagerEvents} from "./IRemoteCursorEvents";
 import {IRemoteCursorManagerOptions} from "./IRemoteCursorManagerOptions";
 import {RemoteCursor} from "./RemoteCursor";
 import {RemoteCursorWidget} from "./RemoteCursorWidget";
+import {RemoteSelection} from "./RemoteSelection";
 import {Validation} from "./Validation";
 
 /**
@@ -18,14 +21,39 @@ import {Validation} from "./Validation";
  * set of indicators that show where remote users's cursors are located when
  * using CodeMirror in a collaborative editing context.  The RemoteCursorManager
  * leverages CodeMirror's Widget concept to add cursor nodes to the editor.
+ * It emits the events described by IRemoteCursorManagerEvents.
  */
-export class RemoteCursorManager {
+export class RemoteCursorManager extends EventEmitter<IRemoteCursorManagerEvents> {
 
   /**
    * The default values for optional parameters.
    * @internal
    */
-  private static readonly DEFAULT_OPTIONS = {tooltips: true, tooltipDuration: 1};
+  private static readonly DEFAULT_OPTIONS: Partial<IRemoteCursorManagerOptions> = {
+    tooltips: true,
+    tooltipDuration: 1,
+    tooltipPlacement: "auto",
+    tooltipAlwaysVisible: false,
+    caretWidth: 2,
+    edgeIndicators: false,
+    scrollbarTicks: false,
+    idleTimeout: 30,
+    awayTimeout: 300,
+    typingTimeout: 1
+  };
+
+  /**
+   * The DOM events through which the local user scrolls or edits the
+   * document, which end follow mode.
+   * @internal
+   */
+  private static readonly LOCAL_INPUT_EVENTS = ["wheel", "mousedown", "touchstart", "keydown", "paste", "drop"];
+
+  /**
+   * Keys that don't scroll or edit on their own.
+   * @internal
+   */
+  private static readonly MODIFIER_KEYS = ["Shift", "Control", "Alt", "Meta"];
 
   /**
    * A counter that generates unique ids for the cursor widgets.
@@ -39,12 +67,36 @@ export class RemoteCursorManager {
    */
   private readonly _cursorWidgets: Map<string, any>;
 
+  /**
+   * Tracks the current cursors by the userland id.
+   * @internal
+   */
+  private readonly _cursors: Map<string, RemoteCursor>;
+
+  /**
+   * The ids of the cursors whose colors were allocated by the colorAllocator.
+   * @internal
+   */
+  private readonly _allocatedColors: Set<string>;
+
   /**
    * The options (and defaults) used to configure this instance.
    * @internal
    */
   private readonly _options: IRemoteCursorManagerOptions;
 
+  /**
+   * The cursor, and optionally the selection, being followed.
+   * @internal
+   */
+  private _following: {id: string, selection: RemoteSelection | null} | null;
+
+  /**
+   * A flag determining if the manager has been disposed.
+   * @internal
+   */
+  private _disposed: boolean;
+
   /**
    * Creates a new RemoteCursorManager with the supplied options.
    *
@@ -52,6 +104,8 @@ export class RemoteCursorManager {
    *   The options that will configure the RemoteCursorManager behavior.
    */
   constructor(options: IRemoteCursorManagerOptions) {
+    super();
+
     if (typeof  options !== "object") {
       throw new Error("'options' is a required parameter and must be an object.");
     }
@@ -63,9 +117,34 @@ export class RemoteCursorManager {
       throw new Error(`options.editor must be defined but was: ${options.editor}`);
     }
 
+    if (["above", "below", "auto"].indexOf(options.tooltipPlacement) < 0) {
+      throw new Error(
+        `options.tooltipPlacement must be "above", "below" or "auto" but was: ${options.tooltipPlacement}`);
+    }
+
+    if (options.doc === undefined) {
+      options.doc = options.editor.getDoc();
+    }
+
+    Validation.assertNumber(options.caretWidth, "options.caretWidth");
+
+    if (options.tooltipRenderer !== undefined) {
+      Validation.assertFunction(options.tooltipRenderer, "options.tooltipRenderer");
+    }
+
+    if (options.presenceGutter !== undefined) {
+      Validation.assertString(options.presenceGutter, "options.presenceGutter");
+    }
+
     this._options = options;
     this._cursorWidgets = new Map<string, RemoteCursorWidget>();
+    this._cursors = new Map<string, RemoteCursor>();
+    this._allocatedColors = new Set<string>();
     this._nextWidgetId = 0;
+    this._following = null;
+    this._disposed = false;
+
+    this._options.editor.on("swapDoc", this._onSwapDoc);
   }
 
   /**
@@ -74,15 +153,25 @@ export class RemoteCursorManager {
    * @param id
    *   A unique id that will be used to reference this cursor.
    * @param color
-   *   The css color that the cursor and tooltip should be rendered in.
+   *   The css color that the cursor and tooltip should be rendered in. May
+   *   be undefined if the colorAllocator option is set, to allocate one.
    * @param label
    *   An optional label for the tooltip. If tooltips are enabled.
    *
    * @returns
    *   The remote cursor widget that will be added to the editor.
    */
-  public addCursor(id: string, color: string, label?: string): RemoteCursor {
+  public addCursor(id: string, color: string | undefined, label?: string): RemoteCursor {
     Validation.assertString(id, "id");
+    this._assertNotDisposed();
+    if (this._cursorWidgets.has(id)) {
+      throw new Error("A cursor with this id already exists: " + id);
+    }
+
+    const allocated = color === undefined && this._options.colorAllocator !== undefined;
+    if (allocated) {
+      color = this._options.colorAllocator.allocate(id);
+    }
     Validation.assertString(color, "color");
 
     if (this._options.tooltips && typeof "label" !== "string") {
@@ -90,18 +179,35 @@ export class RemoteCursorManager {
     }
 
     const widgetId = "" + this._nextWidgetId++;
-    const tooltipDurationMs = this._options.tooltipDuration * 1000;
-    const cursorWidget = new RemoteCursorWidget(
-      this._options.editor,
-      widgetId,
-      color,
-      label,
-      this._options.tooltips,
-      tooltipDurationMs,
-      () => this.removeCursor(id));
+    let cursorWidget: RemoteCursorWidget;
+    try {
+      cursorWidget = new RemoteCursorWidget(
+        this._options.editor,
+        widgetId,
+        id,
+        color,
+        label,
+        this._options,
+        () => this._onCursorMoved(id),
+        () => this._onCursorVisibilityChanged(id),
+        () => this._onCursorDisposed(id));
+    } catch (e) {
+      // The cursor was not added, so neither is its color.
+      if (allocated) {
+        this._options.colorAllocator.release(id);
+      }
+      throw e;
+    }
+
+    if (allocated) {
+      this._allocatedColors.add(id);
+    }
+    const cursor = new RemoteCursor(cursorWidget);
     this._cursorWidgets.set(id, cursorWidget);
+    this._cursors.set(id, cursor);
 
-    return new RemoteCursor(cursorWidget);
+    this._emit("cursorAdded", cursor);
+    return cursor;
   }
 
   /**
@@ -115,9 +221,24 @@ export class RemoteCursorManager {
 
     const remoteCursorWidget = this._getCursor(id);
     if (!remoteCursorWidget.isDisposed()) {
+      // Disposing of the widget removes it, through _onCursorDisposed.
       remoteCursorWidget.dispose();
+      return;
+    }
+
+    if (this._following !== null && this._following.id === id) {
+      this.unfollow();
     }
+
+    const cursor = this._cursors.get(id);
     this._cursorWidgets.delete(id);
+    this._cursors.delete(id);
+
+    if (this._allocatedColors.delete(id)) {
+      this._options.colorAllocator.release(id);
+    }
+
+    this._emit("cursorRemoved", cursor);
   }
 
   /**
@@ -136,6 +257,22 @@ export class RemoteCursorManager {
     remoteCursorWidget.setPosition(position);
   }
 
+  /**
+   * Updates the locations of the carets of the specified remote cursor, for
+   * when the remote user has multiple cursors.
+   *
+   * @param id
+   *   The unique id of the cursor to update.
+   * @param positions
+   *   The locations of the carets to set.
+   */
+  public setCursorPositions(id: string, positions: Position[]) {
+    Validation.assertString(id, "id");
+
+    const remoteCursorWidget = this._getCursor(id);
+    remoteCursorWidget.setPositions(positions);
+  }
+
   /**
    * Updates the location of the specified remote cursor based on a zero-based
    * text index.
@@ -178,6 +315,326 @@ export class RemoteCursorManager {
     remoteCursorWidget.hide();
   }
 
+  /**
+   * Scrolls the editor so that the specified cursor is in the middle of the
+   * view. Nothing happens while the editor shows another document.
+   *
+   * @param id
+   *   The unique id of the cursor to scroll to.
+   */
+  public scrollToCursor(id: string): void {
+    Validation.assertString(id, "id");
+
+    const remoteCursorWidget = this._getCursor(id);
+    if (!this._isDocShown()) {
+      return;
+    }
+
+    const editor = this._options.editor;
+    editor.scrollIntoView(remoteCursorWidget.getPosition(), editor.getScrollInfo().clientHeight / 2);
+  }
+
+  /**
+   * Starts following the specified cursor: the editor is scrolled to keep the
+   * cursor in view as it moves, until the local user scrolls or types, or
+   * unfollow is called. Following a cursor stops following any other cursor.
+   *
+   * @param id
+   *   The unique id of the cursor to follow.
+   * @param selection
+   *   The remote user's selection, to also keep in view where it fits.
+   */
+  public follow(id: string, selection?: RemoteSelection): void {
+    Validation.assertString(id, "id");
+    this._getCursor(id);
+
+    if (this._following !== null && this._following.id !== id) {
+      this.unfollow();
+    }
+
+    const started = this._following === null;
+    this._following = {id, selection: selection !== undefined ? selection : null};
+
+    if (started) {
+      const wrapper = this._options.editor.getWrapperElement();
+      RemoteCursorManager.LOCAL_INPUT_EVENTS.forEach((type) =>
+        wrapper.addEventListener(type, this._onLocalInput, true));
+      this._options.editor.on("changes", this._onFollowedChanges);
+
+      if (this._options.onFollowStarted) {
+        this._options.onFollowStarted(id);
+      }
+
+      const cursor = this._cursors.get(id);
+      cursor._emit("followStarted", undefined);
+      this._emit("followStarted", cursor);
+    }
+
+    this._scrollToFollowed();
+  }
+
+  /**
+   * Stops following the followed cursor, if any.
+   */
+  public unfollow(): void {
+    if (this._following === null) {
+      return;
+    }
+
+    const id = this._following.id;
+    this._following = null;
+
+    const wrapper = this._options.editor.getWrapperElement();
+    RemoteCursorManager.LOCAL_INPUT_EVENTS.forEach((type) =>
+      wrapper.removeEventListener(type, this._onLocalInput, true));
+    this._options.editor.off("changes", this._onFollowedChanges);
+
+    if (this._options.onFollowStopped) {
+      this._options.onFollowStopped(id);
+    }
+
+    const cursor = this._cursors.get(id);
+    cursor._emit("followStopped", undefined);
+    this._emit("followStopped", cursor);
+  }
+
+  /**
+   * Gets the id of the cursor being followed.
+   *
+   * @returns
+   *   The id of the followed cursor, or null if no cursor is followed.
+   */
+  public getFollowedCursor(): string | null {
+    return this._following !== null ? this._following.id : null;
+  }
+
+  /**
+   * Gets all of the current remote cursors.
+   *
+   * @returns
+   *   The cursors, in the order they were added.
+   */
+  public getCursors(): RemoteCursor[] {
+    const cursors: RemoteCursor[] = [];
+    this._cursors.forEach((cursor) => cursors.push(cursor));
+    return cursors;
+  }
+
+  /**
+   * Determines if there is a remote cursor with the specified id.
+   *
+   * @param id
+   *   The unique id of the cursor.
+   * @returns
+   *   True if the cursor exists, false otherwise.
+   */
+  public has(id: string): boolean {
+    return this._cursors.has(id);
+  }
+
+  /**
+   * Gets a remote cursor by id.
+   *
+   * @param id
+   *   The unique id of the cursor.
+   * @returns
+   *   The cursor, or null if there is no cursor with the id.
+   */
+  public get(id: string): RemoteCursor | null {
+    return this._cursors.has(id) ? this._cursors.get(id) : null;
+  }
+
+  /**
+   * Removes all of the remote cursors from the editor.
+   */
+  public clear(): void {
+    this.getCursors().forEach((cursor) => cursor.dispose());
+  }
+
+  /**
+   * Moves the manager to another editor. All of the current cursors are
+   * removed, as they refer to the content of the previous document.
+   *
+   * @param editor
+   *   The editor to add remote cursors to.
+   * @param doc
+   *   The document the remote cursors are in. Defaults to the editor's
+   *   current document.
+   */
+  public setEditor(editor: Editor, doc?: Doc): void {
+    Validation.assertDefined(editor, "editor");
+    this._assertNotDisposed();
+
+    this.clear();
+    this._options.editor.off("swapDoc", this._onSwapDoc);
+    this._options.editor = editor;
+    this._options.doc = doc !== undefined ? doc : editor.getDoc();
+    this._options.editor.on("swapDoc", this._onSwapDoc);
+  }
+
+  /**
+   * Gets the document the remote cursors are in.
+   *
+   * @returns
+   *   The document of the manager.
+   */
+  public getDoc(): Doc {
+    return this._options.doc;
+  }
+
+  /**
+   * Replaces the document of the editor, as CodeMirror's swapDoc does. The
+   * cursors stay with the manager's document: they are hidden while another
+   * document is shown, and shown again when it is swapped back in.
+   *
+   * @param doc
+   *   The document to show in the editor.
+   * @returns
+   *   The previous document.
+   */
+  public swapDoc(doc: Doc): Doc {
+    Validation.assertDefined(doc, "doc");
+    this._assertNotDisposed();
+
+    return this._options.editor.swapDoc(doc);
+  }
+
+  /**
+   * Determines if the manager has been disposed.
+   *
+   * @returns
+   *   True if the manager has been disposed, false otherwise.
+   */
+  public isDisposed(): boolean {
+    return this._disposed;
+  }
+
+  /**
+   * Disposes of the manager, removing all of the remote cursors and
+   * releasing its resources. The manager can not be used afterwards.
+   */
+  public dispose(): void {
+    if (this._disposed) {
+      return;
+    }
+
+    this.clear();
+    this.unfollow();
+    this._options.editor.off("swapDoc", this._onSwapDoc);
+    this._disposed = true;
+
+    this._emit("disposed", undefined);
+    this._removeAllListeners();
+  }
+
+  /**
+   * Scrolls the followed cursor into view, along with its selection if the
+   * two fit in the view together.
+   * @internal
+   */
+  private _scrollToFollowed(): void {
+    const editor = this._options.editor;
+    if (!this._isDocShown()) {
+      return;
+    }
+
+    const position = this._getCursor(this._following.id).getPosition();
+    const selection = this._following.selection;
+    const margin = editor.defaultTextHeight() * 2;
+
+    if (selection !== null && !selection.isDisposed() && selection.getStartPosition() !== null) {
+      const start = selection.getStartPosition();
+      const end = selection.getEndPosition();
+      const top = Math.min(editor.cursorCoords(start, "local").top, editor.cursorCoords(position, "local").top);
+      const bottom = Math.max(editor.cursorCoords(end, "local").bottom, editor.cursorCoords(position, "local").bottom);
+      if (bottom - top + 2 * margin <= editor.getScrollInfo().clientHeight) {
+        editor.scrollIntoView({top, bottom, left: 0, right: 0}, margin);
+        return;
+      }
+    }
+
+    editor.scrollIntoView(position, margin);
+  }
+
+  /**
+   * @internal
+   */
+  private _onCursorMoved(id: string): void {
+    if (this._following !== null && this._following.id === id) {
+      this._scrollToFollowed();
+    }
+
+    const cursor = this._cursors.get(id);
+    cursor._emit("cursorMoved", cursor.getPositions());
+    this._emit("cursorMoved", cursor);
+  }
+
+  /**
+   * @internal
+   */
+  private _onCursorVisibilityChanged(id: string): void {
+    const cursor = this._cursors.get(id);
+    cursor._emit("visibilityChanged", cursor.isVisible());
+    this._emit("visibilityChanged", cursor);
+  }
+
+  /**
+   * @internal
+   */
+  private _onCursorDisposed(id: string): void {
+    const cursor = this._cursors.get(id);
+    this.removeCursor(id);
+    cursor._emit("disposed", undefined);
+    cursor._removeAllListeners();
+  }
+
+  /**
+   * @internal
+   */
+  private _onSwapDoc = () => {
+    const attached = this._isDocShown();
+    this._cursorWidgets.forEach((widget: RemoteCursorWidget) => widget.setAttached(attached));
+
+    if (attached && this._following !== null) {
+      this._scrollToFollowed();
+    }
+  }
+
+  /**
+   * Determines if the editor shows the manager's document.
+   * @internal
+   */
+  private _isDocShown(): boolean {
+    return this._options.editor.getDoc() === this._options.doc;
+  }
+
+  /**
+   * Keeps the followed cursor in view as the text around it changes.
+   * @internal
+   */
+  private _onFollowedChanges = () => {
+    this._scrollToFollowed();
+  }
+
+  /**
+   * @internal
+   */
+  private _onLocalInput = (e: Event) => {
+    if (e.type === "keydown" && RemoteCursorManager.MODIFIER_KEYS.indexOf((e as KeyboardEvent).key) >= 0) {
+      return;
+    }
+    this.unfollow();
+  }
+
+  /**
+   * @internal
+   */
+  private _assertNotDisposed(): void {
+    if (this._disposed) {
+      throw new Error("The RemoteCursorManager has been disposed.");
+    }
+  }
+
   /**
    * A helper method that gets a cursor by id, or throws an exception.
    * @internal
@@ -0,0 +1,46 @@
+/*
+ * Copyright (c) 2019 Convergence Labs, Inc.
+ *
+ * This file is part of the CodeMirror Collaborative Extensions, which is
+ * released under the terms of the MIT license. A copy of the MIT license
+ * is usually provided as part of this source code package in the LICENCE
+ * file. If it was not, please see <https://opensource.org/licenses/MIT>
+ */
+
+/**
+ * Where a remote cursor's tooltip is placed relative to the cursor. "auto"
+ * places it above the cursor, unless there is not enough room at the top of
+ * the editor, in which case it is placed below.
+ */
+export type RemoteCursorTooltipPlacement = "above" | "below" | "auto";
+
+/**
+ * Describes the remote cursor a tooltip is being rendered for.
+ */
+export interface IRemoteCursorTooltipContext {
+  /**
+   * The unique id of the remote cursor.
+   */
+  id: string;
+
+  /**
+   * The label of the remote cursor.
+   */
+  label: string | undefined;
+
+  /**
+   * The css color of the remote cursor.
+   */
+  color: string;
+}
+
+/**
+ * Renders the content of a remote cursor's tooltip.
+ *
+ * @param context
+ *   Describes the remote cursor.
+ *
+ * @returns
+ *   The DOM node to show in the tooltip.
+ */
+export type RemoteCursorTooltipRenderer = (context: IRemoteCursorTooltipContext) => Node;
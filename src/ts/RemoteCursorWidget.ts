@@ -7,9 +7,18 @@
  * file. If it was not, please see <https://opensource.org/licenses/MIT>
  */
 
-import {Editor, Position} from "codemirror";
-import {EditorContentManager} from "./EditorContentManager";
+import {Doc, Editor, Position} from "codemirror";
+import {ActivityTracker} from "./ActivityTracker";
+import {ColorAllocator} from "./ColorAllocator";
+import {EdgeIndicator} from "./EdgeIndicator";
+import {IRemoteCursorManagerOptions} from "./IRemoteCursorManagerOptions";
 import {OnDisposed} from "./OnDisposed";
+import {PositionTracker} from "./PositionTracker";
+import {IPresenceGutterEntry, PresenceGutter} from "./PresenceGutter";
+import {RemoteCaret} from "./RemoteCaret";
+import {RemoteCursorActivityState} from "./RemoteCursorActivityState";
+import {RemoteCursorTooltipPlacement} from "./RemoteCursorTooltip";
+import {ScrollbarTicks} from "./ScrollbarTicks";
 import {Validation} from "./Validation";
 
 /**
@@ -21,91 +30,235 @@ import {Validation} from "./Validation";
 export class RemoteCursorWidget {
 
   private readonly _id: string;
+  private readonly _cursorId: string;
   private readonly _editor: Editor;
+  private readonly _doc: Doc;
+  private readonly _color: string;
+  private readonly _caretWidth: number;
   private readonly _domNode: HTMLDivElement;
   private readonly _tooltipNode: HTMLDivElement | null;
   private readonly _tooltipDuration: number;
-  private readonly _contentManager: EditorContentManager;
+  private readonly _tooltipPlacement: RemoteCursorTooltipPlacement;
+  private readonly _tooltipAlwaysVisible: boolean;
+  private readonly _positionTracker: PositionTracker;
+  private readonly _primaryCaret: RemoteCaret;
+  private readonly _secondaryCarets: RemoteCaret[];
+  private readonly _activityTracker: ActivityTracker;
+  private readonly _edgeIndicator: EdgeIndicator | null;
+  private readonly _scrollbarTicks: ScrollbarTicks | null;
+  private readonly _presenceGutter: PresenceGutter | null;
+  private readonly _presenceEntry: IPresenceGutterEntry;
+  private readonly _onActivityChanged: IRemoteCursorManagerOptions["onActivityChanged"];
 
-  private _position: Position;
-  private _index: number;
   private _hideTimer: any;
+  private readonly _onMoved: () => void;
+  private readonly _onVisibilityChanged: () => void;
   private readonly _onDisposed: OnDisposed;
+  private _visible: boolean;
+  private _attached: boolean;
   private _disposed: boolean;
+  private _refreshingCarets: boolean;
 
   constructor(codeEditor: Editor,
               widgetId: string,
+              cursorId: string,
               color: string,
-              label: string,
-              tooltipEnabled: boolean,
-              tooltipDuration: number,
+              label: string | undefined,
+              options: IRemoteCursorManagerOptions,
+              onMoved: () => void,
+              onVisibilityChanged: () => void,
               onDisposed: OnDisposed) {
     this._editor = codeEditor;
-    this._tooltipDuration = tooltipDuration;
+    this._color = color;
+    this._caretWidth = options.caretWidth;
+    this._tooltipDuration = options.tooltipDuration * 1000;
+    this._tooltipPlacement = options.tooltipPlacement;
+    this._tooltipAlwaysVisible = options.tooltipAlwaysVisible;
     this._id = `codemirror-remote-cursor-${widgetId}`;
-
-    // Create the main node for the cursor element.
-    this._domNode = document.createElement("div");
-    this._domNode.className = "codemirror-remote-cursor";
-    this._domNode.style.background = color;
-
-    this._editor.addWidget({line: 0, ch: 0}, this._domNode, false);
+    this._cursorId = cursorId;
+    this._visible = true;
+
+    // The cursor is only rendered while the editor shows its document.
+    this._doc = options.doc;
+    this._attached = this._editor.getDoc() === this._doc;
+
+    // The tooltip renderer is userland code, so it runs before anything is
+    // added to the editor, where a renderer that throws would leave it.
+    const tooltipContent = options.tooltips && options.tooltipRenderer ?
+      options.tooltipRenderer({id: cursorId, label, color}) :
+      null;
+
+    // The carets follow the text around them as local and remote edits are
+    // made, using the position tracker shared by all decorations in the
+    // document.
+    this._positionTracker = PositionTracker.acquire(this._doc);
+
+    // Create the main caret for the cursor. Additional carets are created
+    // when the remote user has multiple cursors.
+    this._refreshingCarets = false;
+    this._primaryCaret = new RemoteCaret(
+      this._editor, this._positionTracker, color, this._caretWidth, {line: 0, ch: 0}, this._onCaretMoved);
+    this._primaryCaret.setVisible(this._isShown());
+    this._secondaryCarets = [];
+    this._domNode = this._primaryCaret.getDomNode();
+
+    // The activity state is reflected in css classes on the carets.
+    this._onActivityChanged = options.onActivityChanged;
+    this._activityTracker = new ActivityTracker(
+      options.idleTimeout * 1000,
+      options.awayTimeout * 1000,
+      options.typingTimeout * 1000,
+      this._onActivityTrackerChanged);
+    this._updateActivityClasses(this._primaryCaret);
+
+    // Indicators for when the cursor is scrolled out of view.
+    this._edgeIndicator = options.edgeIndicators ?
+      new EdgeIndicator(this._editor, color, label, () => this._primaryCaret.getPosition()) :
+      null;
+    this._scrollbarTicks = options.scrollbarTicks ?
+      new ScrollbarTicks(this._editor, color, "codemirror-remote-scrollbar-tick-cursor",
+        () => this.getPositions().map((position) => ({start: position, end: position}))) :
+      null;
+    this._presenceGutter = options.presenceGutter !== undefined ?
+      PresenceGutter.acquire(this._editor, options.presenceGutter) :
+      null;
+    this._presenceEntry = {
+      id: cursorId,
+      color,
+      label,
+      getLines: () => this._isShown() ? this.getPositions().map((position) => position.line) : []
+    };
+    if (this._presenceGutter !== null) {
+      this._presenceGutter.add(this._presenceEntry);
+    }
+    this._updateIndicators();
 
     // Create the tooltip element if the tooltip is enabled.
-    if (tooltipEnabled) {
+    if (options.tooltips) {
       this._tooltipNode = document.createElement("div");
       this._tooltipNode.className = "codemirror-remote-cursor-tooltip";
       this._tooltipNode.style.background = color;
+      if (options.tooltipTextColor !== undefined) {
+        this._tooltipNode.style.color = options.tooltipTextColor === "auto" ?
+          ColorAllocator.getContrastingTextColor(color) :
+          options.tooltipTextColor;
+      }
       this._tooltipNode.style.opacity = "0";
-      this._tooltipNode.innerHTML = label;
+
+      // The label is untrusted input from another user, so it is only ever
+      // rendered as text.
+      if (tooltipContent !== null) {
+        this._tooltipNode.appendChild(tooltipContent);
+      } else {
+        this._tooltipNode.textContent = label !== undefined ? label : "";
+      }
       this._domNode.appendChild(this._tooltipNode);
 
       // we only need to listen to scroll positions to update the
       // tooltip location on scrolling.
       this._editor.on("scroll", this._updateTooltipPosition);
+
+      if (this._tooltipAlwaysVisible) {
+        setTimeout(() => this._showTooltip(), 0);
+      }
     } else {
       this._tooltipNode = null;
     }
 
-    this._contentManager = new EditorContentManager({
-      editor: this._editor,
-      onInsert: this._onInsert,
-      onReplace: this._onReplace,
-      onDelete: this._onDelete,
-      id: "remote-cursor-" + widgetId
-    });
-
     this._hideTimer = null;
+    this._onMoved = onMoved;
+    this._onVisibilityChanged = onVisibilityChanged;
     this._onDisposed = onDisposed;
-
     this._disposed = false;
-
-    this._updatePosition({line: 0, ch: 0});
   }
 
   public hide(): void {
-    this._domNode.style.display = "none";
+    this._setVisible(false);
   }
 
   public show(): void {
-    this._domNode.style.display = "inherit";
+    this._setVisible(true);
+  }
+
+  public isVisible(): boolean {
+    return this._visible;
+  }
+
+  public setAttached(attached: boolean): void {
+    if (this._attached === attached) {
+      return;
+    }
+
+    this._attached = attached;
+    this._getCarets().forEach((caret) => {
+      caret.setVisible(this._isShown());
+      if (attached) {
+        caret.refresh();
+      }
+    });
+    this._updateIndicators();
   }
 
   public setIndex(index: number): void {
     Validation.assertNumber(index, "index");
 
-    const position = this._editor.posFromIndex(index);
+    const position = this._doc.posFromIndex(index);
     this.setPosition(position);
   }
 
   public setPosition(position: Position): void {
     Validation.assertPosition(position, "position");
 
-    this._updatePosition(position);
+    this.setPositions([position]);
+  }
+
+  public setPositions(positions: Position[]): void {
+    Validation.assertArray(positions, "positions");
+    if (positions.length === 0) {
+      throw new Error("positions must not be empty.");
+    }
+    positions.forEach((position, i) => Validation.assertPosition(position, `positions[${i}]`));
+
+    this._primaryCaret.setPosition(positions[0]);
+
+    const secondary = positions.slice(1);
+    this._secondaryCarets.splice(secondary.length).forEach((caret) => caret.dispose());
+    secondary.forEach((position, i) => {
+      if (i < this._secondaryCarets.length) {
+        this._secondaryCarets[i].setPosition(position);
+      } else {
+        const caret = new RemoteCaret(
+          this._editor, this._positionTracker, this._color, this._caretWidth, position, this._onCaretMoved);
+        caret.setVisible(this._isShown());
+        this._updateActivityClasses(caret);
+        this._secondaryCarets.push(caret);
+      }
+    });
+
+    this._activityTracker.markActive();
+    this._updateIndicators();
 
     if (this._tooltipNode !== null) {
       setTimeout(() => this._showTooltip(), 0);
     }
+
+    this._onMoved();
+  }
+
+  public markTyping(): void {
+    this._activityTracker.markTyping();
+  }
+
+  public getActivityState(): RemoteCursorActivityState {
+    return this._activityTracker.getState();
+  }
+
+  public isTyping(): boolean {
+    return this._activityTracker.isTyping();
+  }
+
+  public getLastActivity(): number {
+    return this._activityTracker.getLastActivity();
   }
 
   public isDisposed(): boolean {
@@ -118,12 +271,24 @@ export class RemoteCursorWidget {
     }
 
     this._editor.off("scroll", this._updateTooltipPosition);
-
-    this._contentManager.dispose();
-
-    if (this._domNode.parentNode) {
-      this._domNode.parentNode.removeChild(this._domNode);
+    if (this._hideTimer !== null) {
+      clearTimeout(this._hideTimer);
+      this._hideTimer = null;
+    }
+    this._activityTracker.dispose();
+    if (this._edgeIndicator !== null) {
+      this._edgeIndicator.dispose();
     }
+    if (this._scrollbarTicks !== null) {
+      this._scrollbarTicks.dispose();
+    }
+    if (this._presenceGutter !== null) {
+      this._presenceGutter.remove(this._presenceEntry);
+      this._presenceGutter.release();
+    }
+
+    this._getCarets().forEach((caret) => caret.dispose());
+    this._positionTracker.release();
 
     this._disposed = true;
     this._onDisposed();
@@ -134,22 +299,95 @@ export class RemoteCursorWidget {
   }
 
   public getPosition(): Position | null {
-    return this._position;
+    return this._primaryCaret.getPosition();
+  }
+
+  public getPositions(): Position[] {
+    return this._getCarets().map((caret) => caret.getPosition());
   }
 
-  private _updatePosition(position: Position): void {
-    const cursorCoords = this._editor.cursorCoords(position, "local");
-    const height = cursorCoords.bottom - cursorCoords.top;
-    this._domNode.style.height = height + "px";
-    this._domNode.style.left = cursorCoords.left + "px";
-    this._domNode.style.top = cursorCoords.top + "px";
-    this._index = this._editor.indexFromPos(position);
-    this._position = position;
+  private _setVisible(visible: boolean): void {
+    if (this._visible === visible) {
+      return;
+    }
+
+    this._visible = visible;
+    this._getCarets().forEach((caret) => caret.setVisible(this._isShown()));
+    this._updateIndicators();
+    this._onVisibilityChanged();
+  }
+
+  private _isShown(): boolean {
+    return this._visible && this._attached;
+  }
+
+  private _getCarets(): RemoteCaret[] {
+    return [this._primaryCaret, ...this._secondaryCarets];
+  }
+
+  private _updateIndicators(): void {
+    if (this._edgeIndicator !== null) {
+      this._edgeIndicator.setVisible(this._isShown());
+    }
+    if (this._scrollbarTicks !== null) {
+      this._scrollbarTicks.setVisible(this._isShown());
+    }
+    if (this._presenceGutter !== null) {
+      this._presenceGutter.update();
+    }
+  }
+
+  /**
+   * Reports that an edit moved the cursor. All carets are brought up to date
+   * first, so that the move is reported once per edit, with the positions of
+   * every caret after it.
+   */
+  private _onCaretMoved = () => {
+    if (this._refreshingCarets) {
+      return;
+    }
+
+    this._refreshingCarets = true;
+    try {
+      this._getCarets().forEach((caret) => caret.refresh());
+    } finally {
+      this._refreshingCarets = false;
+    }
+
+    this._onMoved();
+  }
+
+  private _updateActivityClasses(caret: RemoteCaret): void {
+    const state = this._activityTracker.getState();
+    const classList = caret.getDomNode().classList;
+    classList.toggle("codemirror-remote-cursor-active", state === "active");
+    classList.toggle("codemirror-remote-cursor-idle", state === "idle");
+    classList.toggle("codemirror-remote-cursor-away", state === "away");
+    classList.toggle("codemirror-remote-cursor-typing", this._activityTracker.isTyping());
+  }
+
+  private _onActivityTrackerChanged = () => {
+    this._getCarets().forEach((caret) => this._updateActivityClasses(caret));
+
+    if (this._onActivityChanged) {
+      this._onActivityChanged(this._cursorId, this._activityTracker.getState(), this._activityTracker.isTyping());
+    }
   }
 
   private _showTooltip(): void {
+    // The tooltip is shown asynchronously, so the cursor may have been
+    // disposed in the meantime.
+    if (this._disposed) {
+      return;
+    }
+
     this._updateTooltipPosition();
 
+    if (this._tooltipAlwaysVisible) {
+      this._setTooltipVisible(true);
+      return;
+    }
+
     if (this._hideTimer !== null) {
       clearTimeout(this._hideTimer);
     } else {
@@ -163,15 +401,31 @@ export class RemoteCursorWidget {
   }
 
   private _updateTooltipPosition = () => {
-    const distanceFromTop = this._domNode.offsetTop - this._editor.getScrollInfo().top;
-    if (distanceFromTop - this._tooltipNode.offsetHeight < 5) {
-      this._tooltipNode.style.top = `${this._tooltipNode.offsetHeight - 5}px`;
-    } else {
-      this._tooltipNode.style.top = `-${this._tooltipNode.offsetHeight}px`;
+    const scrollInfo = this._editor.getScrollInfo();
+    const tooltipHeight = this._tooltipNode.offsetHeight;
+    const tooltipWidth = this._tooltipNode.offsetWidth;
+
+    let above: boolean;
+    switch (this._tooltipPlacement) {
+      case "above":
+        above = true;
+        break;
+      case "below":
+        above = false;
+        break;
+      default:
+        above = this._domNode.offsetTop - scrollInfo.top - tooltipHeight >= 5;
     }
-
-    this._tooltipNode.style.left = "0";
-  };
+    this._tooltipNode.style.top = above ? `-${tooltipHeight}px` : `${this._domNode.offsetHeight}px`;
+
+    // Flip the tooltip to the left of the cursor when it would extend past
+    // the right edge of the editor, as long as that doesn't push it past the
+    // left edge.
+    const left = this._domNode.offsetLeft;
+    const right = scrollInfo.left + scrollInfo.clientWidth;
+    const flip = left + tooltipWidth > right && left - tooltipWidth >= scrollInfo.left;
+    this._tooltipNode.style.left = flip ? `${this._domNode.offsetWidth - tooltipWidth}px` : "0";
+  }
 
   private _setTooltipVisible(visible: boolean): void {
     if (visible) {
@@ -180,31 +434,4 @@ export class RemoteCursorWidget {
       this._tooltipNode.style.opacity = "0";
     }
   }
-
-  private _onInsert = (index: number, text: string) => {
-    const currentIndex = this._index;
-    if (index <= currentIndex) {
-      const newIndex = currentIndex + text.length;
-      const position = this._editor.posFromIndex(newIndex);
-      this._updatePosition(position);
-    }
-  };
-
-  private _onReplace = (index: number, length: number, text: string) => {
-    const currentIndex = this._index;
-    if (index <= currentIndex) {
-      const newIndex = (currentIndex - Math.min(currentIndex - index, length)) + text.length;
-      const position = this._editor.posFromIndex(newIndex);
-      this._updatePosition(position);
-    }
-  };
-
-  private _onDelete = (index: number, length: number) => {
-    const currentIndex = this._index;
-    if (index <= currentIndex) {
-      const newIndex = currentIndex - Math.min(currentIndex - index, length);
-      const position = this._editor.posFromIndex(newIndex);
-      this._updatePosition(position);
-    }
-  };
 }
@@ -8,112 +8,124 @@
  */
 
 import { TinyColor } from "@ctrl/tinycolor";
-import {Editor, Position, TextMarker} from "codemirror";
+import {Doc, Editor, Position} from "codemirror";
+import {EventEmitter} from "./EventEmitter";
+import {IRemoteSelectionEvents} from "./IRemoteSelectionEvents";
+import {ISelectionRange} from "./ISelectionRange";
 import {OnDisposed} from "./OnDisposed";
+import {PositionTracker} from "./PositionTracker";
+import {IPresenceGutterEntry, PresenceGutter} from "./PresenceGutter";
+import {RemoteSelectionRange} from "./RemoteSelectionRange";
+import {ScrollbarTicks} from "./ScrollbarTicks";
+import {SharedStyleSheet} from "./SharedStyleSheet";
 import {Validation} from "./Validation";
-export class RemoteSelection {
+
+/**
+ * The RemoteSelection class represents the selection of a remote user in the
+ * editor. It emits the events described by IRemoteSelectionEvents.
+ */
+export class RemoteSelection extends EventEmitter<IRemoteSelectionEvents> {
 
   /**
-   * A helper method to add a style tag to the head of the document that will
-   * style the color of the selection. CodeMirror only allows setting the
-   * class name of decorations, so we can not set a style property directly.
-   * This method will create, add, and return the style tag for this element.
-   *
-   * @param className
-   *   The className to use as the css selector.
-   * @param color
-   *   The color to set for the selection.
-   * @returns
-   *   The style element that was added to the document head.
-   *
-   * @private
+   * The userland id of the selection.
    * @internal
    */
-  private static _addDynamicStyleElement(className: string, color: string): HTMLStyleElement {
-    Validation.assertString(className, "className");
-    Validation.assertString(color, "color");
+  private readonly _id: string;
 
-    const rgbaColor = new TinyColor(color).setAlpha(0.3).toRgbString();
-    const css =
-      `.${className} {
-         background-color: ${rgbaColor};
-       }`.trim();
+  /**
+   * The css classname to apply to the CodeMirror marker.
+   * @internal
+   */
+  private readonly _className: string;
 
-    const styleElement = document.createElement("style");
-    styleElement.innerText = css;
-    document.head.appendChild(styleElement);
+  /**
+   * The class that sets the color of the selection, in the shared
+   * stylesheet. CodeMirror only allows setting the class name of
+   * decorations, so the color can not be set on them directly.
+   * @internal
+   */
+  private readonly _colorClassName: string;
 
-    return styleElement;
-  }
+  /**
+   * The shared stylesheet holding the color class.
+   * @internal
+   */
+  private readonly _styleSheet: SharedStyleSheet;
 
   /**
-   * A helper method to ensure the start position is before the end position.
-   *
-   * @param start
-   *   The current start position.
-   * @param end
-   *   The current end position.
-   * @return
-   *   An object containing the correctly ordered start and end positions.
-   *
-   * @private
+   * The CodeMirror editor instance to render selection into.
    * @internal
    */
-  private static _swapIfNeeded(start: Position, end: Position): { start: Position, end: Position } {
-    if (start.line < end.line || (start.line === end.line && start.ch <= end.ch)) {
-      return {start, end};
-    } else {
-      return {start: end, end: start};
-    }
-  }
+  private readonly _editor: Editor;
 
   /**
-   * The userland id of the selection.
+   * The document the selection is in. The selection is only rendered while
+   * the editor shows it.
    * @internal
    */
-  private readonly _id: string;
+  private readonly _doc: Doc;
 
   /**
-   * The css classname to apply to the CodeMirror marker.
+   * An internal callback used to dispose of the selection.
    * @internal
    */
-  private readonly _className: string;
+  private readonly _onDisposed: OnDisposed;
 
   /**
-   * The HTML Style element added to the document to color the selection.
+   * Determines if text inserted at the start of the selection becomes part
+   * of the selection.
    * @internal
    */
-  private readonly _styleElement: HTMLStyleElement;
+  private readonly _inclusiveLeft: boolean;
 
   /**
-   * The CodeMirror editor instance to render selection into.
+   * Determines if text inserted at the end of the selection becomes part
+   * of the selection.
    * @internal
    */
-  private readonly _editor: Editor;
+  private readonly _inclusiveRight: boolean;
 
   /**
-   * An internal callback used to dispose of the selection.
+   * The shared position tracker for the editor.
    * @internal
    */
-  private readonly _onDisposed: OnDisposed;
+  private readonly _positionTracker: PositionTracker;
+
+  /**
+   * The ranges of the selection. The first range is the primary range.
+   * @internal
+   */
+  private readonly _ranges: RemoteSelectionRange[];
+
+  /**
+   * Marks the ranges on the scrollbar, if enabled.
+   * @internal
+   */
+  private readonly _scrollbarTicks: ScrollbarTicks | null;
 
   /**
-   * The current start position of the selection.
+   * Marks the lines of the selection in a gutter, if enabled.
    * @internal
    */
-  private _startPosition: Position;
+  private readonly _presenceGutter: PresenceGutter | null;
 
   /**
-   * The current end position of the selection.
+   * The selection's entry in the presence gutter.
    * @internal
    */
-  private _endPosition: Position;
+  private readonly _presenceEntry: IPresenceGutterEntry;
 
   /**
-   * The id's of the current CodeMirror marker rendering the selection.
+   * Whether the selection should currently be rendered.
    * @internal
    */
-  private _marker: TextMarker;
+  private _visible: boolean;
+
+  /**
+   * Whether the editor shows the document of the selection.
+   * @internal
+   */
+  private _attached: boolean;
 
   /**
    * A flag determining if the selection has been disposed.
@@ -128,16 +140,51 @@ export class RemoteSelection {
    */
   constructor(
     codeEditor: Editor,
+    doc: Doc,
     id: string,
-    classId: number,
     color: string,
+    opacity: number,
+    label: string | undefined,
+    inclusiveLeft: boolean,
+    inclusiveRight: boolean,
+    scrollbarTicks: boolean,
+    presenceGutter: string | undefined,
+    styleNonce: string | undefined,
     onDisposed: OnDisposed
   ) {
+    super();
+
     this._editor = codeEditor;
+    this._doc = doc;
+    this._attached = this._editor.getDoc() === this._doc;
     this._id = id;
-    this._className = `codemirror-remote-selection-${classId}`;
-    this._styleElement = RemoteSelection._addDynamicStyleElement(this._className, color);
+    Validation.assertString(color, "color");
+    this._styleSheet = SharedStyleSheet.acquire(this._editor, styleNonce);
+    this._colorClassName = this._styleSheet.addClass("codemirror-remote-selection", {
+      "--codemirror-remote-selection-color": new TinyColor(color).setAlpha(opacity).toRgbString()
+    });
+    this._className = `codemirror-remote-selection ${this._colorClassName}`;
+    this._inclusiveLeft = inclusiveLeft;
+    this._inclusiveRight = inclusiveRight;
     this._onDisposed = onDisposed;
+    this._visible = true;
+    this._disposed = false;
+
+    // The ranges of the selection follow the text around them as local and
+    // remote edits are made, using the position tracker shared by all
+    // decorations in the document.
+    this._positionTracker = PositionTracker.acquire(this._doc);
+    this._ranges = [this._createRange()];
+
+    this._scrollbarTicks = scrollbarTicks ?
+      new ScrollbarTicks(this._editor, color, "codemirror-remote-scrollbar-tick-selection", this._getNonEmptyRanges) :
+      null;
+
+    this._presenceGutter = presenceGutter !== undefined ? PresenceGutter.acquire(this._editor, presenceGutter) : null;
+    this._presenceEntry = {id, color, label, getLines: this._getLines};
+    if (this._presenceGutter !== null) {
+      this._presenceGutter.add(this._presenceEntry);
+    }
   }
 
   /**
@@ -148,23 +195,34 @@ export class RemoteSelection {
   }
 
   /**
-   * Gets the start position of the selection.
+   * Gets the start position of the primary range of the selection.
    *
    * @returns
-   *   The start position of the selection.
+   *   The start position of the selection, or null if it has no ranges.
    */
-  public getStartPosition(): Position {
-    return {...this._startPosition};
+  public getStartPosition(): Position | null {
+    return this._ranges.length > 0 ? this._ranges[0].getStartPosition() : null;
   }
 
   /**
-   * Gets the start position of the selection.
+   * Gets the end position of the primary range of the selection.
    *
    * @returns
-   *   The start position of the selection.
+   *   The end position of the selection, or null if it has no ranges.
    */
-  public getEndPosition(): Position {
-    return {...this._endPosition};
+  public getEndPosition(): Position | null {
+    return this._ranges.length > 0 ? this._ranges[0].getEndPosition() : null;
+  }
+
+  /**
+   * Gets all of the ranges of the selection, for when the remote user has
+   * multiple selections. The first range is the primary range.
+   *
+   * @returns
+   *   The ranges of the selection.
+   */
+  public getRanges(): ISelectionRange[] {
+    return this._ranges.map((range) => range.getRange());
   }
 
   /**
@@ -176,8 +234,8 @@ export class RemoteSelection {
    *   The end index to set the selection to.
    */
   public setIndices(start: number, end: number): void {
-    const startPosition = this._editor.posFromIndex(start);
-    const endPosition = this._editor.posFromIndex(end);
+    const startPosition = this._doc.posFromIndex(start);
+    const endPosition = this._doc.posFromIndex(end);
 
     this.setPositions(startPosition, endPosition);
   }
@@ -186,32 +244,63 @@ export class RemoteSelection {
    * Sets the selection using CodeMirrors's line / ch coordinate system.
    *
    * @param start
-   *   The start position to set the selection to.
+   *   The start position (anchor) to set the selection to.
    * @param end
-   *   The end position to set the selection to.
+   *   The end position (head) to set the selection to.
    */
   public setPositions(start: Position, end: Position): void {
-    // this._decorations = this._editor.deltaDecorations(this._decorations, []);
-    const ordered = RemoteSelection._swapIfNeeded(start, end);
-    this._startPosition = ordered.start;
-    this._endPosition = ordered.end;
-    this._render();
+    this.setRanges([{anchor: start, head: end}]);
+  }
+
+  /**
+   * Sets all of the ranges of the selection, for when the remote user has
+   * multiple selections. Each range is rendered as its own marker.
+   *
+   * @param ranges
+   *   The ranges to set the selection to.
+   */
+  public setRanges(ranges: ISelectionRange[]): void {
+    Validation.assertArray(ranges, "ranges");
+    ranges.forEach((range, i) => {
+      Validation.assertDefined(range, `ranges[${i}]`);
+      Validation.assertPosition(range.anchor, `ranges[${i}].anchor`);
+      Validation.assertPosition(range.head, `ranges[${i}].head`);
+    });
+
+    this._ranges.splice(ranges.length).forEach((range) => range.dispose());
+    ranges.forEach((range, i) => {
+      if (i === this._ranges.length) {
+        this._ranges.push(this._createRange());
+      }
+      this._ranges[i].setRange(range);
+    });
+    this._updateIndicators();
+
+    this._emit("selectionChanged", this.getRanges());
   }
 
   /**
    * Makes the selection visible if it is hidden.
    */
   public show(): void {
-    this._render();
+    this._setVisible(true);
   }
 
   /**
    * Makes the selection hidden if it is visible.
    */
   public hide(): void {
-    if (this._marker) {
-      this._marker.clear();
-    }
+    this._setVisible(false);
+  }
+
+  /**
+   * Determines if the selection is shown.
+   *
+   * @returns
+   *   True if the selection is shown, false if it is hidden.
+   */
+  public isVisible(): boolean {
+    return this._visible;
   }
 
   /**
@@ -229,27 +318,119 @@ export class RemoteSelection {
    */
   public dispose(): void {
     if (!this._disposed) {
-      this._styleElement.parentElement.removeChild(this._styleElement);
-      this.hide();
+      this._styleSheet.removeClass(this._colorClassName);
+      this._styleSheet.release();
+      this._ranges.forEach((range) => range.dispose());
+      if (this._scrollbarTicks !== null) {
+        this._scrollbarTicks.dispose();
+      }
+      if (this._presenceGutter !== null) {
+        this._presenceGutter.remove(this._presenceEntry);
+        this._presenceGutter.release();
+      }
+      this._positionTracker.release();
       this._disposed = true;
       this._onDisposed();
+
+      this._emit("disposed", undefined);
+      this._removeAllListeners();
     }
   }
 
   /**
-   * A helper method that actually renders the selection as a marker within
-   * the CodeMirror Editor.
+   * Sets whether the editor shows the document of the selection. The ranges
+   * are markers in the document, so only the indicators in the editor need
+   * to be updated.
    *
-   * @private
    * @internal
    */
-  private _render(): void {
-    if (this._marker) {
-      this._marker.clear();
+  public _setAttached(attached: boolean): void {
+    if (this._attached !== attached) {
+      this._attached = attached;
+      this._updateIndicators();
     }
+  }
 
-    this._marker = this._editor.markText(this._startPosition, this._endPosition, {
-      className: this._className
-    });
+  /**
+   * @internal
+   */
+  private _setVisible(visible: boolean): void {
+    if (this._visible === visible) {
+      return;
+    }
+
+    this._visible = visible;
+    this._ranges.forEach((range) => range.setVisible(visible));
+    this._updateIndicators();
+
+    this._emit("visibilityChanged", visible);
+  }
+
+  /**
+   * @internal
+   */
+  private _updateIndicators(): void {
+    if (this._scrollbarTicks !== null) {
+      this._scrollbarTicks.setVisible(this._visible && this._attached);
+    }
+    if (this._presenceGutter !== null) {
+      this._presenceGutter.update();
+    }
+  }
+
+  /**
+   * Gets the lines covered by the selection, for the presence gutter.
+   *
+   * @internal
+   */
+  private _getLines = () => {
+    const lines: number[] = [];
+    if (this._visible && this._attached) {
+      this._getNonEmptyRanges().forEach(({start, end}) => {
+        for (let line = start.line; line <= end.line; line++) {
+          lines.push(line);
+        }
+      });
+    }
+    return lines;
+  }
+
+  /**
+   * Gets the non-empty ranges, which are the ones that are rendered.
+   *
+   * @internal
+   */
+  private _getNonEmptyRanges = () => {
+    return this._ranges
+      .map((range) => ({start: range.getStartPosition(), end: range.getEndPosition()}))
+      .filter(({start, end}) => start.line !== end.line || start.ch !== end.ch);
+  }
+
+  /**
+   * A helper method that creates a new range of the selection.
+   *
+   * @private
+   * @internal
+   */
+  private _createRange(): RemoteSelectionRange {
+    return new RemoteSelectionRange(
+      this._doc,
+      this._positionTracker,
+      this._className,
+      this._inclusiveLeft,
+      this._inclusiveRight,
+      this._visible,
+      this._onRangeMoved);
+  }
+
+  /**
+   * Updates the presence gutter when an edit moves a range of the selection.
+   *
+   * @internal
+   */
+  private _onRangeMoved = () => {
+    if (this._presenceGutter !== null) {
+      this._presenceGutter.update();
+    }
   }
 }
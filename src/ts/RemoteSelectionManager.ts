@@ -7,23 +7,32 @@
  * file. If it was not, please see <https://opensource.org/licenses/MIT>
  */
 
-import {Position} from "codemirror";
+import {Doc, Editor, Position} from "codemirror";
+import {EventEmitter} from "./EventEmitter";
+import {IRemoteSelectionManagerEvents} from "./IRemoteSelectionEvents";
 import {IRemoteSelectionManagerOptions} from "./IRemoteSelectionManagerOptions";
+import {ISelectionRange} from "./ISelectionRange";
 import {RemoteSelection} from "./RemoteSelection";
 import {Validation} from "./Validation";
 
 /**
  * The RemoteSelectionManager renders remote users selections into the
- * editor using the editor's built-in TextMarker mechanism.
+ * editor using the editor's built-in TextMarker mechanism. It emits the
+ * events described by IRemoteSelectionManagerEvents.
  */
-export class RemoteSelectionManager {
+export class RemoteSelectionManager extends EventEmitter<IRemoteSelectionManagerEvents> {
 
   /**
-   * A internal unique identifier for each selection.
+   * The default values for optional parameters.
    *
    * @internal
    */
-  private _nextClassId: number;
+  private static readonly DEFAULT_OPTIONS = {
+    inclusiveLeft: false,
+    inclusiveRight: false,
+    scrollbarTicks: false,
+    selectionOpacity: 0.3
+  };
 
   /**
    * Tracks the current remote selections.
@@ -32,6 +41,14 @@ export class RemoteSelectionManager {
    */
   private readonly _remoteSelections: Map<string, RemoteSelection>;
 
+  /**
+   * The ids of the selections whose colors were allocated by the
+   * colorAllocator.
+   *
+   * @internal
+   */
+  private readonly _allocatedColors: Set<string>;
+
   /**
    * The options configuring this instance.
    *
@@ -39,6 +56,13 @@ export class RemoteSelectionManager {
    */
   private readonly _options: IRemoteSelectionManagerOptions;
 
+  /**
+   * A flag determining if the manager has been disposed.
+   *
+   * @internal
+   */
+  private _disposed: boolean;
+
   /**
    * Creates a new RemoteSelectionManager with the specified options.
    *
@@ -46,11 +70,30 @@ export class RemoteSelectionManager {
    *   Ths options that configure the RemoteSelectionManager.
    */
   constructor(options: IRemoteSelectionManagerOptions) {
+    super();
+
     Validation.assertDefined(options, "options");
+    Validation.assertDefined(options.editor, "options.editor");
 
     this._remoteSelections = new Map<string, RemoteSelection>();
-    this._options = options;
-    this._nextClassId = 0;
+    this._options = {...RemoteSelectionManager.DEFAULT_OPTIONS, ...options};
+    this._allocatedColors = new Set<string>();
+    this._disposed = false;
+
+    if (this._options.doc === undefined) {
+      this._options.doc = this._options.editor.getDoc();
+    }
+
+    const opacity = this._options.selectionOpacity;
+    if (typeof opacity !== "number" || opacity < 0 || opacity > 1) {
+      throw new Error(`options.selectionOpacity must be a number between 0 and 1 but was: ${opacity}`);
+    }
+
+    if (this._options.presenceGutter !== undefined) {
+      Validation.assertString(this._options.presenceGutter, "options.presenceGutter");
+    }
+
+    this._options.editor.on("swapDoc", this._onSwapDoc);
   }
 
   /**
@@ -59,14 +102,63 @@ export class RemoteSelectionManager {
    * @param id
    *   The unique id of the selection.
    * @param color
-   *   The color to render the selection with.
+   *   The color to render the selection with. May be undefined if the
+   *   colorAllocator option is set, to allocate one.
+   * @param label
+   *   An optional name of the remote user, shown in the presence gutter.
    */
-  public addSelection(id: string, color: string): RemoteSelection {
+  public addSelection(id: string, color: string | undefined, label?: string): RemoteSelection {
+    Validation.assertString(id, "id");
+    this._assertNotDisposed();
+    if (this._remoteSelections.has(id)) {
+      throw new Error("A selection with this id already exists: " + id);
+    }
+
+    const allocated = color === undefined && this._options.colorAllocator !== undefined;
+    if (allocated) {
+      color = this._options.colorAllocator.allocate(id);
+    }
+    Validation.assertString(color, "color");
+
     const onDisposed = () => {
-      this.removeSelection(id);
+      this._remoteSelections.delete(id);
+      if (this._allocatedColors.delete(id)) {
+        this._options.colorAllocator.release(id);
+      }
+      this._emit("selectionRemoved", selection);
     };
-    const selection = new RemoteSelection(this._options.editor, id, this._nextClassId++, color, onDisposed);
+    let selection: RemoteSelection;
+    try {
+      selection = new RemoteSelection(
+        this._options.editor,
+        this._options.doc,
+        id,
+        color,
+        this._options.selectionOpacity,
+        label,
+        this._options.inclusiveLeft,
+        this._options.inclusiveRight,
+        this._options.scrollbarTicks,
+        this._options.presenceGutter,
+        this._options.styleNonce,
+        onDisposed);
+    } catch (e) {
+      // The selection was not added, so neither is its color.
+      if (allocated) {
+        this._options.colorAllocator.release(id);
+      }
+      throw e;
+    }
+
+    if (allocated) {
+      this._allocatedColors.add(id);
+    }
     this._remoteSelections.set(id, selection);
+
+    selection.on("selectionChanged", () => this._emit("selectionChanged", selection));
+    selection.on("visibilityChanged", () => this._emit("visibilityChanged", selection));
+
+    this._emit("selectionAdded", selection);
     return selection;
   }
 
@@ -114,6 +206,33 @@ export class RemoteSelectionManager {
     remoteSelection.setPositions(start, end);
   }
 
+  /**
+   * Sets all of the ranges of the selection, for when the remote user has
+   * multiple selections.
+   *
+   * @param id
+   *   The unique id of the selection.
+   * @param ranges
+   *   The ranges of the selection.
+   */
+  public setSelectionRanges(id: string, ranges: ISelectionRange[]): void {
+    const remoteSelection = this._getSelection(id);
+    remoteSelection.setRanges(ranges);
+  }
+
+  /**
+   * Gets all of the ranges of the selection.
+   *
+   * @param id
+   *   The unique id of the selection.
+   * @returns
+   *   The ranges of the selection.
+   */
+  public getSelectionRanges(id: string): ISelectionRange[] {
+    const remoteSelection = this._getSelection(id);
+    return remoteSelection.getRanges();
+  }
+
   /**
    * Shows the specified selection, if it is currently hidden.
    *
@@ -137,7 +256,142 @@ export class RemoteSelectionManager {
   }
 
   /**
-   * A helper method that gets a cursor by id, or throws an exception.
+   * Gets all of the current remote selections.
+   *
+   * @returns
+   *   The selections, in the order they were added.
+   */
+  public getSelections(): RemoteSelection[] {
+    const selections: RemoteSelection[] = [];
+    this._remoteSelections.forEach((selection) => selections.push(selection));
+    return selections;
+  }
+
+  /**
+   * Determines if there is a remote selection with the specified id.
+   *
+   * @param id
+   *   The unique id of the selection.
+   * @returns
+   *   True if the selection exists, false otherwise.
+   */
+  public has(id: string): boolean {
+    return this._remoteSelections.has(id);
+  }
+
+  /**
+   * Gets a remote selection by id.
+   *
+   * @param id
+   *   The unique id of the selection.
+   * @returns
+   *   The selection, or null if there is no selection with the id.
+   */
+  public get(id: string): RemoteSelection | null {
+    return this._remoteSelections.has(id) ? this._remoteSelections.get(id) : null;
+  }
+
+  /**
+   * Removes all of the remote selections from the editor.
+   */
+  public clear(): void {
+    this.getSelections().forEach((selection) => selection.dispose());
+  }
+
+  /**
+   * Moves the manager to another editor. All of the current selections are
+   * removed, as they refer to the content of the previous document.
+   *
+   * @param editor
+   *   The editor to render selections into.
+   * @param doc
+   *   The document the remote selections are in. Defaults to the editor's
+   *   current document.
+   */
+  public setEditor(editor: Editor, doc?: Doc): void {
+    Validation.assertDefined(editor, "editor");
+    this._assertNotDisposed();
+
+    this.clear();
+    this._options.editor.off("swapDoc", this._onSwapDoc);
+    this._options.editor = editor;
+    this._options.doc = doc !== undefined ? doc : editor.getDoc();
+    this._options.editor.on("swapDoc", this._onSwapDoc);
+  }
+
+  /**
+   * Gets the document the remote selections are in.
+   *
+   * @returns
+   *   The document of the manager.
+   */
+  public getDoc(): Doc {
+    return this._options.doc;
+  }
+
+  /**
+   * Replaces the document of the editor, as CodeMirror's swapDoc does. The
+   * selections stay with the manager's document: they are hidden while
+   * another document is shown, and shown again when it is swapped back in.
+   *
+   * @param doc
+   *   The document to show in the editor.
+   * @returns
+   *   The previous document.
+   */
+  public swapDoc(doc: Doc): Doc {
+    Validation.assertDefined(doc, "doc");
+    this._assertNotDisposed();
+
+    return this._options.editor.swapDoc(doc);
+  }
+
+  /**
+   * Determines if the manager has been disposed.
+   *
+   * @returns
+   *   True if the manager has been disposed, false otherwise.
+   */
+  public isDisposed(): boolean {
+    return this._disposed;
+  }
+
+  /**
+   * Disposes of the manager, removing all of the remote selections and
+   * releasing its resources. The manager can not be used afterwards.
+   */
+  public dispose(): void {
+    if (this._disposed) {
+      return;
+    }
+
+    this.clear();
+    this._options.editor.off("swapDoc", this._onSwapDoc);
+    this._disposed = true;
+
+    this._emit("disposed", undefined);
+    this._removeAllListeners();
+  }
+
+  /**
+   * @internal
+   */
+  private _onSwapDoc = () => {
+    const attached = this._options.editor.getDoc() === this._options.doc;
+    this._remoteSelections.forEach((selection) => selection._setAttached(attached));
+  }
+
+  /**
+   * @internal
+   */
+  private _assertNotDisposed(): void {
+    if (this._disposed) {
+      throw new Error("The RemoteSelectionManager has been disposed.");
+    }
+  }
+
+  /**
+   * A helper method that gets a selection by id, or throws an exception.
    * @internal
    */
   private _getSelection(id: string): RemoteSelection {
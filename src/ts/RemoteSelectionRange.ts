@@ -0,0 +1,162 @@
+/*
+ * Copyright (c) 2019 Convergence Labs, Inc.
+ *
+ * This file is part of the CodeMirror Collaborative Extensions, which is
+ * released under the terms of the MIT license. A copy of the MIT license
+ * is usually provided as part of this source code package in the LICENCE
+ * file. If it was not, please see <https://opensource.org/licenses/MIT>
+ */
+
+import {Doc, Position, TextMarker} from "codemirror";
+import {DocOperation} from "./DocOperation";
+import {ISelectionRange} from "./ISelectionRange";
+import {PositionTracker} from "./PositionTracker";
+import {TrackedPosition} from "./TrackedPosition";
+
+/**
+ * A single range of a remote selection, rendered as one CodeMirror marker.
+ * The start and end of the range follow the text around them as local and
+ * remote edits are made.
+ *
+ * @internal
+ */
+export class RemoteSelectionRange {
+
+  /**
+   * A helper method to determine if a position is after another position.
+   */
+  private static _isAfter(a: Position, b: Position): boolean {
+    return a.line > b.line || (a.line === b.line && a.ch > b.ch);
+  }
+
+  private static _isSame(a: Position, b: Position): boolean {
+    return a.line === b.line && a.ch === b.ch;
+  }
+
+  private readonly _doc: Doc;
+  private readonly _className: string;
+  private readonly _inclusiveLeft: boolean;
+  private readonly _inclusiveRight: boolean;
+  private readonly _startPosition: TrackedPosition;
+  private readonly _endPosition: TrackedPosition;
+  private readonly _onMoved: () => void;
+
+  /**
+   * True if the head of the range is before the anchor.
+   */
+  private _reversed: boolean;
+  private _visible: boolean;
+  private _marker: TextMarker | null;
+  private _updating: boolean;
+
+  constructor(doc: Doc,
+              positionTracker: PositionTracker,
+              className: string,
+              inclusiveLeft: boolean,
+              inclusiveRight: boolean,
+              visible: boolean,
+              onMoved: () => void) {
+    this._doc = doc;
+    this._onMoved = onMoved;
+    this._updating = false;
+    this._className = className;
+    this._inclusiveLeft = inclusiveLeft;
+    this._inclusiveRight = inclusiveRight;
+    this._reversed = false;
+    this._visible = visible;
+    this._marker = null;
+
+    // Text typed at an inclusive edge ends up inside the range, and at an
+    // exclusive edge outside of it.
+    this._startPosition = positionTracker.track({line: 0, ch: 0}, this._onPositionChanged, !inclusiveLeft);
+    this._endPosition = positionTracker.track({line: 0, ch: 0}, this._onPositionChanged, inclusiveRight);
+  }
+
+  public getStartPosition(): Position {
+    return this._startPosition.getPosition();
+  }
+
+  public getEndPosition(): Position {
+    return this._endPosition.getPosition();
+  }
+
+  public getRange(): ISelectionRange {
+    const start = this.getStartPosition();
+    const end = this.getEndPosition();
+    return this._reversed ? {anchor: end, head: start} : {anchor: start, head: end};
+  }
+
+  public setRange(range: ISelectionRange): void {
+    this._reversed = RemoteSelectionRange._isAfter(range.anchor, range.head);
+    if (this._reversed) {
+      this._startPosition.setPosition(range.head);
+      this._endPosition.setPosition(range.anchor);
+    } else {
+      this._startPosition.setPosition(range.anchor);
+      this._endPosition.setPosition(range.head);
+    }
+    this._render();
+  }
+
+  public setVisible(visible: boolean): void {
+    this._visible = visible;
+    this._render();
+  }
+
+  public dispose(): void {
+    this._visible = false;
+    this._render();
+    this._startPosition.dispose();
+    this._endPosition.dispose();
+  }
+
+  private _render(): void {
+    const start = this.getStartPosition();
+    const end = this.getEndPosition();
+
+    // CodeMirror moves the marker along with the text, so it usually covers
+    // the range already.
+    if (this._visible && this._marker !== null) {
+      const found = this._marker.find();
+      if (found && RemoteSelectionRange._isSame(found.from, start) && RemoteSelectionRange._isSame(found.to, end)) {
+        return;
+      }
+    }
+
+    DocOperation.run(this._doc, () => {
+      if (this._marker !== null) {
+        this._marker.clear();
+        this._marker = null;
+      }
+
+      if (this._visible) {
+        this._marker = this._doc.markText(start, end, {
+          className: this._className,
+          inclusiveLeft: this._inclusiveLeft,
+          inclusiveRight: this._inclusiveRight
+        });
+      }
+    });
+  }
+
+  /**
+   * Re-renders the range when an edit moves either end of it. Both ends are
+   * brought up to date first, so that the range is rendered once per edit.
+   */
+  private _onPositionChanged = () => {
+    if (this._updating) {
+      return;
+    }
+
+    this._updating = true;
+    try {
+      this._startPosition.update();
+      this._endPosition.update();
+    } finally {
+      this._updating = false;
+    }
+
+    this._render();
+    this._onMoved();
+  }
+}
@@ -0,0 +1,193 @@
+/*
+ * Copyright (c) 2019 Convergence Labs, Inc.
+ *
+ * This file is part of the CodeMirror Collaborative Extensions, which is
+ * released under the terms of the MIT license. A copy of the MIT license
+ * is usually provided as part of this source code package in the LICENCE
+ * file. If it was not, please see <https://opensource.org/licenses/MIT>
+ */
+
+import {IRemoteUserUpdate} from "./IRemoteUserUpdate";
+import {OnDisposed} from "./OnDisposed";
+import {RemoteCursor} from "./RemoteCursor";
+import {RemoteSelection} from "./RemoteSelection";
+import {Validation} from "./Validation";
+
+/**
+ * The RemoteUser class represents a collaborator working in the editor. It
+ * owns the collaborator's remote cursor and remote selection, which share the
+ * same color and label, and allows them to be updated, shown, hidden and
+ * disposed of together.
+ */
+export class RemoteUser {
+
+  /**
+   * @internal
+   */
+  private readonly _id: string;
+
+  /**
+   * @internal
+   */
+  private readonly _color: string;
+
+  /**
+   * @internal
+   */
+  private readonly _label: string | undefined;
+
+  /**
+   * @internal
+   */
+  private readonly _cursor: RemoteCursor;
+
+  /**
+   * @internal
+   */
+  private readonly _selection: RemoteSelection;
+
+  /**
+   * @internal
+   */
+  private readonly _onDisposed: OnDisposed;
+
+  /**
+   * @internal
+   */
+  private _visible: boolean;
+
+  /**
+   * @internal
+   */
+  private _disposed: boolean;
+
+  /**
+   * Creates a new RemoteUser.
+   *
+   * @internal
+   * @hidden
+   */
+  constructor(id: string,
+              color: string,
+              label: string | undefined,
+              cursor: RemoteCursor,
+              selection: RemoteSelection,
+              onDisposed: OnDisposed) {
+    this._id = id;
+    this._color = color;
+    this._label = label;
+    this._cursor = cursor;
+    this._selection = selection;
+    this._onDisposed = onDisposed;
+    this._visible = true;
+    this._disposed = false;
+  }
+
+  /**
+   * Gets the unique id of this user.
+   */
+  public getId(): string {
+    return this._id;
+  }
+
+  /**
+   * Gets the css color the user is rendered in.
+   */
+  public getColor(): string {
+    return this._color;
+  }
+
+  /**
+   * Gets the label shown in the user's cursor tooltip.
+   */
+  public getLabel(): string | undefined {
+    return this._label;
+  }
+
+  /**
+   * Gets the user's remote cursor.
+   */
+  public getCursor(): RemoteCursor {
+    return this._cursor;
+  }
+
+  /**
+   * Gets the user's remote selection.
+   */
+  public getSelection(): RemoteSelection {
+    return this._selection;
+  }
+
+  /**
+   * Updates the user's cursor and / or selections in one call.
+   *
+   * @param update
+   *   The new state of the user. Omitted properties are left unchanged.
+   */
+  public update(update: IRemoteUserUpdate): void {
+    Validation.assertDefined(update, "update");
+
+    if (update.cursor !== undefined) {
+      this._cursor.setPosition(update.cursor);
+    }
+
+    if (update.selections !== undefined) {
+      this._selection.setRanges(update.selections);
+    }
+  }
+
+  /**
+   * Shows the user's cursor and selection if they are hidden.
+   */
+  public show(): void {
+    this._visible = true;
+    this._cursor.show();
+    this._selection.show();
+  }
+
+  /**
+   * Hides the user's cursor and selection if they are shown.
+   */
+  public hide(): void {
+    this._visible = false;
+    this._cursor.hide();
+    this._selection.hide();
+  }
+
+  /**
+   * Determines if the user's cursor and selection are visible.
+   *
+   * @returns
+   *   True if the user is shown, false if hidden.
+   */
+  public isVisible(): boolean {
+    return this._visible;
+  }
+
+  /**
+   * Determines if the user has been disposed.
+   *
+   * @returns
+   *   True if the user has been disposed, false otherwise.
+   */
+  public isDisposed(): boolean {
+    return this._disposed;
+  }
+
+  /**
+   * Disposes of this user, removing their cursor and selection from the
+   * editor.
+   */
+  public dispose(): void {
+    if (this._disposed) {
+      return;
+    }
+
+    // Disposing of the cursor notifies the manager, which disposes of the
+    // user again.
+    this._disposed = true;
+    this._cursor.dispose();
+    this._selection.dispose();
+    this._onDisposed();
+  }
+}
@@ -0,0 +1,245 @@
+/*
+ * Copyright (c) 2019 Convergence Labs, Inc.
+ *
+ * This file is part of the CodeMirror Collaborative Extensions, which is
+ * released under the terms of the MIT license. A copy of the MIT license
+ * is usually provided as part of this source code package in the LICENCE
+ * file. If it was not, please see <https://opensource.org/licenses/MIT>
+ */
+
+import {ColorAllocator} from "./ColorAllocator";
+import {IRemoteUserManagerOptions} from "./IRemoteUserManagerOptions";
+import {IRemoteUserUpdate} from "./IRemoteUserUpdate";
+import {RemoteCursor} from "./RemoteCursor";
+import {RemoteCursorManager} from "./RemoteCursorManager";
+import {RemoteSelection} from "./RemoteSelection";
+import {RemoteSelectionManager} from "./RemoteSelectionManager";
+import {RemoteUser} from "./RemoteUser";
+import {Validation} from "./Validation";
+
+/**
+ * The RemoteUserManager renders everything about the collaborators working in
+ * the editor. Each collaborator is represented by a single RemoteUser that
+ * owns their cursor and selection, so that applications do not need to keep
+ * a RemoteCursorManager and a RemoteSelectionManager in sync by hand.
+ */
+export class RemoteUserManager {
+
+  /**
+   * Renders the remote users' cursors.
+   *
+   * @internal
+   */
+  private readonly _cursorManager: RemoteCursorManager;
+
+  /**
+   * Renders the remote users' selections.
+   *
+   * @internal
+   */
+  private readonly _selectionManager: RemoteSelectionManager;
+
+  /**
+   * Tracks the current remote users by id.
+   *
+   * @internal
+   */
+  private readonly _remoteUsers: Map<string, RemoteUser>;
+
+  /**
+   * Assigns colors to users that are added without one, if set.
+   *
+   * @internal
+   */
+  private readonly _colorAllocator: ColorAllocator | undefined;
+
+  /**
+   * @internal
+   */
+  private _disposed: boolean;
+
+  /**
+   * Creates a new RemoteUserManager with the specified options.
+   *
+   * @param options
+   *   The options that configure the RemoteUserManager.
+   */
+  constructor(options: IRemoteUserManagerOptions) {
+    Validation.assertDefined(options, "options");
+
+    this._cursorManager = new RemoteCursorManager(options);
+    this._selectionManager = new RemoteSelectionManager(options);
+    this._remoteUsers = new Map<string, RemoteUser>();
+    this._colorAllocator = options.colorAllocator;
+    this._disposed = false;
+
+    // A cursor can be disposed of directly, through the user's getCursor,
+    // which removes the whole user.
+    this._cursorManager.on("cursorRemoved", this._onCursorRemoved);
+  }
+
+  /**
+   * Adds a new remote user to the editor.
+   *
+   * @param id
+   *   A unique id that will be used to reference this user.
+   * @param color
+   *   The css color that the user's cursor and selection are rendered in.
+   *   May be undefined if the colorAllocator option is set, to allocate one.
+   * @param label
+   *   An optional label for the cursor tooltip. If tooltips are enabled.
+   *
+   * @returns
+   *   The remote user.
+   */
+  public addUser(id: string, color: string | undefined, label?: string): RemoteUser {
+    Validation.assertString(id, "id");
+    this._assertNotDisposed();
+
+    if (this._remoteUsers.has(id)) {
+      throw new Error("A user with this id already exists: " + id);
+    }
+
+    const cursor = this._cursorManager.addCursor(id, color, label);
+    let selection: RemoteSelection;
+    try {
+      selection = this._selectionManager.addSelection(id, color, label);
+    } catch (e) {
+      this._cursorManager.removeCursor(id);
+      throw e;
+    }
+    if (color === undefined) {
+      color = this._colorAllocator.getColor(id);
+    }
+    const user = new RemoteUser(id, color, label, cursor, selection, () => this._remoteUsers.delete(id));
+    this._remoteUsers.set(id, user);
+
+    return user;
+  }
+
+  /**
+   * Removes a remote user, and their cursor and selection, from the editor.
+   *
+   * @param id
+   *   The unique id of the user to remove.
+   */
+  public removeUser(id: string): void {
+    const remoteUser = this._getUser(id);
+    remoteUser.dispose();
+  }
+
+  /**
+   * Updates the cursor and / or selections of a remote user.
+   *
+   * @param id
+   *   The unique id of the user to update.
+   * @param update
+   *   The new state of the user. Omitted properties are left unchanged.
+   */
+  public updateUser(id: string, update: IRemoteUserUpdate): void {
+    const remoteUser = this._getUser(id);
+    remoteUser.update(update);
+  }
+
+  /**
+   * Shows the specified user's cursor and selection.
+   *
+   * @param id
+   *   The unique id of the user to show.
+   */
+  public showUser(id: string): void {
+    const remoteUser = this._getUser(id);
+    remoteUser.show();
+  }
+
+  /**
+   * Hides the specified user's cursor and selection.
+   *
+   * @param id
+   *   The unique id of the user to hide.
+   */
+  public hideUser(id: string): void {
+    const remoteUser = this._getUser(id);
+    remoteUser.hide();
+  }
+
+  /**
+   * Gets all of the current remote users.
+   *
+   * @returns
+   *   The remote users, in the order they were added.
+   */
+  public getUsers(): RemoteUser[] {
+    const users: RemoteUser[] = [];
+    this._remoteUsers.forEach((user) => users.push(user));
+    return users;
+  }
+
+  /**
+   * Removes all of the remote users from the editor.
+   */
+  public clear(): void {
+    this.getUsers().forEach((user) => user.dispose());
+  }
+
+  /**
+   * Determines if the manager has been disposed.
+   *
+   * @returns
+   *   True if the manager has been disposed, false otherwise.
+   */
+  public isDisposed(): boolean {
+    return this._disposed;
+  }
+
+  /**
+   * Disposes of the manager, removing all of the remote users and releasing
+   * its resources. The manager can not be used afterwards.
+   */
+  public dispose(): void {
+    if (this._disposed) {
+      return;
+    }
+
+    this.clear();
+    this._cursorManager.off("cursorRemoved", this._onCursorRemoved);
+    this._cursorManager.dispose();
+    this._selectionManager.dispose();
+    this._disposed = true;
+  }
+
+  /**
+   * @internal
+   */
+  private _onCursorRemoved = (cursor: RemoteCursor) => {
+    this._remoteUsers.forEach((user) => {
+      if (user.getCursor() === cursor) {
+        user.dispose();
+      }
+    });
+  }
+
+  /**
+   * @internal
+   */
+  private _assertNotDisposed(): void {
+    if (this._disposed) {
+      throw new Error("The RemoteUserManager has been disposed.");
+    }
+  }
+
+  /**
+   * A helper method that gets a user by id, or throws an exception.
+   * @internal
+   */
+  private _getUser(id: string): RemoteUser {
+    Validation.assertString(id, "id");
+    this._assertNotDisposed();
+
+    if (!this._remoteUsers.has(id)) {
+      throw new Error("No such user: " + id);
+    }
+
+    return this._remoteUsers.get(id);
+  }
+}
@@ -0,0 +1,172 @@
+/*
+ * Copyright (c) 2019 Convergence Labs, Inc.
+ *
+ * This file is part of the CodeMirror Collaborative Extensions, which is
+ * released under the terms of the MIT license. A copy of the MIT license
+ * is usually provided as part of this source code package in the LICENCE
+ * file. If it was not, please see <https://opensource.org/licenses/MIT>
+ */
+
+import {IViewport} from "./IViewport";
+import {OnDisposed} from "./OnDisposed";
+import {Validation} from "./Validation";
+
+/**
+ * The RemoteViewport represents the range of lines a remote user is looking
+ * at. It is rendered by the RemoteViewportManager that created it.
+ */
+export class RemoteViewport {
+
+  /**
+   * The userland id of the viewport.
+   * @internal
+   */
+  private readonly _id: string;
+
+  /**
+   * The css color to render the viewport in.
+   * @internal
+   */
+  private readonly _color: string;
+
+  /**
+   * The name of the remote user, shown when hovering over the viewport.
+   * @internal
+   */
+  private readonly _label: string | undefined;
+
+  /**
+   * An internal callback used to re-render the viewports.
+   * @internal
+   */
+  private readonly _onChanged: () => void;
+
+  /**
+   * An internal callback used to dispose of the viewport.
+   * @internal
+   */
+  private readonly _onDisposed: OnDisposed;
+
+  /**
+   * The lines the remote user is looking at, if known.
+   * @internal
+   */
+  private _viewport: IViewport | null;
+
+  /**
+   * Whether the viewport should currently be rendered.
+   * @internal
+   */
+  private _visible: boolean;
+
+  /**
+   * A flag determining if the viewport has been disposed.
+   * @internal
+   */
+  private _disposed: boolean;
+
+  /**
+   * Constructs a new remote viewport.
+   *
+   * @internal
+   */
+  constructor(id: string, color: string, label: string | undefined, onChanged: () => void, onDisposed: OnDisposed) {
+    this._id = id;
+    this._color = color;
+    this._label = label;
+    this._onChanged = onChanged;
+    this._onDisposed = onDisposed;
+    this._viewport = null;
+    this._visible = true;
+    this._disposed = false;
+  }
+
+  /**
+   * Gets the userland id of this viewport.
+   */
+  public getId(): string {
+    return this._id;
+  }
+
+  /**
+   * Gets the css color of this viewport.
+   */
+  public getColor(): string {
+    return this._color;
+  }
+
+  /**
+   * Gets the label of this viewport.
+   */
+  public getLabel(): string | undefined {
+    return this._label;
+  }
+
+  /**
+   * Gets the lines the remote user is looking at.
+   *
+   * @returns
+   *   The viewport, or null if it has not been set.
+   */
+  public getViewport(): IViewport | null {
+    return this._viewport !== null ? {...this._viewport} : null;
+  }
+
+  /**
+   * Sets the lines the remote user is looking at.
+   *
+   * @param viewport
+   *   The viewport, as emitted by the remote user's LocalViewportManager.
+   */
+  public setViewport(viewport: IViewport): void {
+    Validation.assertDefined(viewport, "viewport");
+    Validation.assertNonNegativeInteger(viewport.from, "viewport.from");
+    Validation.assertNonNegativeInteger(viewport.to, "viewport.to");
+    if (viewport.to < viewport.from) {
+      throw new Error(`viewport.to must not be less than viewport.from but was: ${viewport.to}`);
+    }
+
+    this._viewport = {from: viewport.from, to: viewport.to};
+    this._onChanged();
+  }
+
+  /**
+   * Determines if the viewport is currently shown.
+   */
+  public isVisible(): boolean {
+    return this._visible;
+  }
+
+  /**
+   * Shows the viewport, if it is currently hidden.
+   */
+  public show(): void {
+    this._visible = true;
+    this._onChanged();
+  }
+
+  /**
+   * Hides the viewport, if it is currently shown.
+   */
+  public hide(): void {
+    this._visible = false;
+    this._onChanged();
+  }
+
+  /**
+   * Determines if the viewport has been disposed.
+   */
+  public isDisposed(): boolean {
+    return this._disposed;
+  }
+
+  /**
+   * Removes the viewport from the editor.
+   */
+  public dispose(): void {
+    if (!this._disposed) {
+      this._disposed = true;
+      this._onDisposed();
+    }
+  }
+}
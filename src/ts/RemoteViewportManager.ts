@@ -0,0 +1,174 @@
+/*
+ * Copyright (c) 2019 Convergence Labs, Inc.
+ *
+ * This file is part of the CodeMirror Collaborative Extensions, which is
+ * released under the terms of the MIT license. A copy of the MIT license
+ * is usually provided as part of this source code package in the LICENCE
+ * file. If it was not, please see <https://opensource.org/licenses/MIT>
+ */
+
+import {IRemoteViewportManagerOptions} from "./IRemoteViewportManagerOptions";
+import {IViewport} from "./IViewport";
+import {RemoteViewport} from "./RemoteViewport";
+import {Validation} from "./Validation";
+import {ViewportGutter} from "./ViewportGutter";
+import {ViewportMinimap} from "./ViewportMinimap";
+
+/**
+ * The RemoteViewportManager renders the ranges of lines that remote users
+ * are looking at, either in a gutter of the editor, or as a minimap-style
+ * overlay along its right edge.
+ */
+export class RemoteViewportManager {
+
+  /**
+   * Tracks the current remote viewports.
+   *
+   * @internal
+   */
+  private readonly _remoteViewports: Map<string, RemoteViewport>;
+
+  /**
+   * The options configuring this instance.
+   *
+   * @internal
+   */
+  private readonly _options: IRemoteViewportManagerOptions;
+
+  /**
+   * Renders the viewports into the editor.
+   *
+   * @internal
+   */
+  private readonly _renderer: ViewportGutter | ViewportMinimap;
+
+  /**
+   * Creates a new RemoteViewportManager with the specified options.
+   *
+   * @param options
+   *   Ths options that configure the RemoteViewportManager.
+   */
+  constructor(options: IRemoteViewportManagerOptions) {
+    Validation.assertDefined(options, "options");
+    Validation.assertDefined(options.editor, "options.editor");
+    if (options.gutter !== undefined) {
+      Validation.assertString(options.gutter, "options.gutter");
+    }
+
+    this._remoteViewports = new Map<string, RemoteViewport>();
+    this._options = options;
+    this._renderer = options.gutter !== undefined ?
+      new ViewportGutter(options.editor, options.gutter) :
+      new ViewportMinimap(options.editor);
+
+    // Line heights change as the document is edited and the editor resized.
+    this._options.editor.on("changes", this._render);
+    this._options.editor.on("refresh", this._render);
+  }
+
+  /**
+   * Adds a new remote viewport with a unique id and the specified color.
+   *
+   * @param id
+   *   The unique id of the viewport.
+   * @param color
+   *   The color to render the viewport with.
+   * @param label
+   *   An optional name of the remote user, shown when hovering over the
+   *   viewport.
+   */
+  public addViewport(id: string, color: string, label?: string): RemoteViewport {
+    Validation.assertString(id, "id");
+    Validation.assertString(color, "color");
+    if (this._remoteViewports.has(id)) {
+      throw new Error("A viewport with this id already exists: " + id);
+    }
+
+    const viewport = new RemoteViewport(id, color, label, this._render, () => {
+      this._remoteViewports.delete(id);
+      this._render();
+    });
+    this._remoteViewports.set(id, viewport);
+    return viewport;
+  }
+
+  /**
+   * Removes an existing remote viewport from the editor.
+   *
+   * @param id
+   *   The unique id of the viewport.
+   */
+  public removeViewport(id: string): void {
+    this._getViewport(id).dispose();
+  }
+
+  /**
+   * Sets the lines the specified remote user is looking at.
+   *
+   * @param id
+   *   The unique id of the viewport.
+   * @param viewport
+   *   The visible lines.
+   */
+  public setViewport(id: string, viewport: IViewport): void {
+    this._getViewport(id).setViewport(viewport);
+  }
+
+  /**
+   * Shows the specified viewport, if it is currently hidden.
+   *
+   * @param id
+   *   The unique id of the viewport.
+   */
+  public showViewport(id: string): void {
+    this._getViewport(id).show();
+  }
+
+  /**
+   * Hides the specified viewport, if it is currently shown.
+   *
+   * @param id
+   *   The unique id of the viewport.
+   */
+  public hideViewport(id: string): void {
+    this._getViewport(id).hide();
+  }
+
+  /**
+   * Removes all of the viewports from the editor and stops listening to it.
+   */
+  public dispose(): void {
+    this._options.editor.off("changes", this._render);
+    this._options.editor.off("refresh", this._render);
+    this._getViewports().forEach((viewport) => viewport.dispose());
+    this._renderer.dispose();
+  }
+
+  /**
+   * @internal
+   */
+  private _render = () => {
+    this._renderer.render(this._getViewports());
+  }
+
+  /**
+   * @internal
+   */
+  private _getViewports(): RemoteViewport[] {
+    const viewports: RemoteViewport[] = [];
+    this._remoteViewports.forEach((viewport) => viewports.push(viewport));
+    return viewports;
+  }
+
+  /**
+   * A helper method that gets a viewport by id, or throws an exception.
+   * @internal
+   */
+  private _getViewport(id: string): RemoteViewport {
+    if (!this._remoteViewports.has(id)) {
+      throw new Error("No such viewport: " + id);
+    }
+
+    return this._remoteViewports.get(id);
+  }
+}
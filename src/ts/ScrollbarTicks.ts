@@ -0,0 +1,102 @@
+/*
+ * Copyright (c) 2019 Convergence Labs, Inc.
+ *
+ * This file is part of the CodeMirror Collaborative Extensions, which is
+ * released under the terms of the MIT license. A copy of the MIT license
+ * is usually provided as part of this source code package in the LICENCE
+ * file. If it was not, please see <https://opensource.org/licenses/MIT>
+ */
+
+import {Editor, Position} from "codemirror";
+import {EditorOverlay} from "./EditorOverlay";
+
+/**
+ * A range of the document to mark on the scrollbar. A range whose start and
+ * end are the same is rendered as a thin tick, for cursors.
+ *
+ * @internal
+ */
+export interface IScrollbarTickRange {
+  start: Position;
+  end: Position;
+}
+
+/**
+ * Annotates the vertical scrollbar with ticks showing where a remote cursor
+ * or selection is in the document, in the remote user's color.
+ *
+ * @internal
+ */
+export class ScrollbarTicks {
+
+  private readonly _editor: Editor;
+  private readonly _overlay: EditorOverlay;
+  private readonly _color: string;
+  private readonly _className: string;
+  private readonly _getRanges: () => IScrollbarTickRange[];
+  private readonly _ticks: HTMLDivElement[];
+  private _visible: boolean;
+
+  /**
+   * @param editor
+   *   The editor to annotate.
+   * @param color
+   *   The css color of the ticks.
+   * @param className
+   *   An additional class name for the ticks.
+   * @param getRanges
+   *   Gets the current ranges to mark. The ranges must be tracked by a
+   *   PositionTracker acquired before the ticks were created, so that they
+   *   are up to date when the ticks handle changes.
+   */
+  constructor(editor: Editor, color: string, className: string, getRanges: () => IScrollbarTickRange[]) {
+    this._editor = editor;
+    this._color = color;
+    this._className = className;
+    this._getRanges = getRanges;
+    this._overlay = EditorOverlay.acquire(editor);
+    this._ticks = [];
+    this._visible = true;
+
+    this._editor.on("changes", this.update);
+    this._editor.on("refresh", this.update);
+  }
+
+  public setVisible(visible: boolean): void {
+    this._visible = visible;
+    this.update();
+  }
+
+  public dispose(): void {
+    this._editor.off("changes", this.update);
+    this._editor.off("refresh", this.update);
+    this._ticks.splice(0).forEach((tick) => tick.parentNode.removeChild(tick));
+    this._overlay.release();
+  }
+
+  /**
+   * Re-renders the ticks from the current ranges.
+   */
+  public update = () => {
+    const ranges = this._visible ? this._getRanges() : [];
+
+    this._ticks.splice(ranges.length).forEach((tick) => tick.parentNode.removeChild(tick));
+    while (this._ticks.length < ranges.length) {
+      const tick = document.createElement("div");
+      tick.className = `codemirror-remote-scrollbar-tick ${this._className}`;
+      tick.style.background = this._color;
+      this._overlay.getScrollbarNode().appendChild(tick);
+      this._ticks.push(tick);
+    }
+
+    // Ticks are positioned as a percentage of the document height, so they
+    // stay in place when the editor is resized.
+    const height = Math.max(1, this._editor.getScrollInfo().height);
+    ranges.forEach((range, i) => {
+      const top = this._editor.cursorCoords(range.start, "local").top;
+      const bottom = this._editor.cursorCoords(range.end, "local").bottom;
+      this._ticks[i].style.top = `${(top / height) * 100}%`;
+      this._ticks[i].style.height = `${(Math.max(0, bottom - top) / height) * 100}%`;
+    });
+  }
+}
@@ -0,0 +1,239 @@
+/*
+ * Copyright (c) 2019 Convergence Labs, Inc.
+ *
+ * This file is part of the CodeMirror Collaborative Extensions, which is
+ * released under the terms of the MIT license. A copy of the MIT license
+ * is usually provided as part of this source code package in the LICENCE
+ * file. If it was not, please see <https://opensource.org/licenses/MIT>
+ */
+
+import {Editor} from "codemirror";
+import {Validation} from "./Validation";
+
+/**
+ * The SharedStyleSheet is a single stylesheet, shared by every editor in the
+ * same document or shadow root, that holds the rules for decorations that
+ * can only be styled through a class name, such as remote selections. Each
+ * decoration gets a unique class that sets css variables, which the base
+ * rules of the stylesheet use.
+ *
+ * Where supported, the stylesheet is a constructable stylesheet adopted by
+ * the root, which is not subject to a Content Security Policy. Otherwise it
+ * is a style element, with the nonce if one is given, placed in the head of
+ * the document or in the shadow root.
+ *
+ * @internal
+ */
+export class SharedStyleSheet {
+
+  /**
+   * Gets the shared stylesheet for the root an editor is in, creating it if
+   * needed. Every call must be balanced by a call to release().
+   *
+   * @param editor
+   *   The editor to style.
+   * @param nonce
+   *   The nonce to set on the style element, for a Content Security Policy
+   *   that does not allow inline styles.
+   * @returns
+   *   The shared stylesheet.
+   */
+  public static acquire(editor: Editor, nonce?: string): SharedStyleSheet {
+    Validation.assertDefined(editor, "editor");
+
+    const root = SharedStyleSheet._getRoot(editor);
+    let sheet = SharedStyleSheet._sheets.get(root);
+    if (sheet === undefined) {
+      sheet = new SharedStyleSheet(root, nonce);
+      SharedStyleSheet._sheets.set(root, sheet);
+    }
+
+    sheet._references++;
+    return sheet;
+  }
+
+  /**
+   * The rules every stylesheet starts with.
+   * @internal
+   */
+  private static readonly _BASE_CSS =
+    ".codemirror-remote-selection { background-color: var(--codemirror-remote-selection-color); }";
+
+  /**
+   * The shared stylesheets, by root.
+   * @internal
+   */
+  private static readonly _sheets = new Map<Node, SharedStyleSheet>();
+
+  /**
+   * Gets the shadow root the editor is in, or the document if it is not in
+   * a shadow root (or not attached yet).
+   *
+   * @internal
+   */
+  private static _getRoot(editor: Editor): Document | ShadowRoot {
+    const wrapper = editor.getWrapperElement();
+    const root: Node = typeof wrapper.getRootNode === "function" ? wrapper.getRootNode() : document;
+    return root.nodeType === Node.DOCUMENT_FRAGMENT_NODE ? root as ShadowRoot : document;
+  }
+
+  /**
+   * The document or shadow root the stylesheet is in.
+   * @internal
+   */
+  private readonly _root: Document | ShadowRoot;
+
+  /**
+   * The rules of the added classes, by class name.
+   * @internal
+   */
+  private readonly _classes: Map<string, string>;
+
+  /**
+   * The constructable stylesheet adopted by the root, if supported.
+   * @internal
+   */
+  private readonly _constructedSheet: IConstructableStyleSheet | null;
+
+  /**
+   * The style element used when constructable stylesheets are not supported.
+   * @internal
+   */
+  private readonly _styleElement: HTMLStyleElement | null;
+
+  /**
+   * @internal
+   */
+  private _nextClassId: number;
+
+  /**
+   * The number of unreleased acquire() calls.
+   * @internal
+   */
+  private _references: number;
+
+  /**
+   * @internal
+   */
+  private constructor(root: Document | ShadowRoot, nonce: string | undefined) {
+    this._root = root;
+    this._classes = new Map<string, string>();
+    this._nextClassId = 0;
+    this._references = 0;
+
+    const adopting = root as AdoptingRoot;
+    const StyleSheet = typeof CSSStyleSheet !== "undefined" ?
+      CSSStyleSheet as IConstructableStyleSheetConstructor :
+      undefined;
+    if (StyleSheet !== undefined &&
+      typeof StyleSheet.prototype.replaceSync === "function" &&
+      Array.isArray(adopting.adoptedStyleSheets)) {
+      this._constructedSheet = new StyleSheet();
+      adopting.adoptedStyleSheets = adopting.adoptedStyleSheets.concat([this._constructedSheet]);
+      this._styleElement = null;
+    } else {
+      this._constructedSheet = null;
+      this._styleElement = document.createElement("style");
+      if (nonce !== undefined) {
+        this._styleElement.setAttribute("nonce", nonce);
+      }
+      const parent = root.nodeType === Node.DOCUMENT_NODE ? (root as Document).head : root;
+      parent.appendChild(this._styleElement);
+    }
+
+    this._update();
+  }
+
+  /**
+   * Adds a class that sets css variables.
+   *
+   * @param prefix
+   *   The prefix of the class name.
+   * @param variables
+   *   The values of the css variables, by name.
+   * @returns
+   *   The unique name of the class.
+   */
+  public addClass(prefix: string, variables: {[name: string]: string}): string {
+    const className = `${prefix}-${this._nextClassId++}`;
+    const declarations = Object.keys(variables).map((name) => `${name}: ${variables[name]};`).join(" ");
+    this._classes.set(className, `.${className} { ${declarations} }`);
+    this._update();
+    return className;
+  }
+
+  /**
+   * Removes a class added with addClass.
+   *
+   * @param className
+   *   The name of the class.
+   */
+  public removeClass(className: string): void {
+    if (this._classes.delete(className)) {
+      this._update();
+    }
+  }
+
+  /**
+   * Releases a reference to this stylesheet. When the last reference is
+   * released the stylesheet is removed. Releasing a stylesheet more often
+   * than it was acquired throws an error.
+   */
+  public release(): void {
+    if (this._references === 0) {
+      throw new Error("The SharedStyleSheet has already been released.");
+    }
+
+    this._references--;
+    if (this._references === 0) {
+      if (this._constructedSheet !== null) {
+        const adopting = this._root as AdoptingRoot;
+        adopting.adoptedStyleSheets = adopting.adoptedStyleSheets.filter((s) => s !== this._constructedSheet);
+      } else if (this._styleElement.parentNode) {
+        this._styleElement.parentNode.removeChild(this._styleElement);
+      }
+      SharedStyleSheet._sheets.delete(this._root);
+    }
+  }
+
+  /**
+   * Writes the rules of all classes to the stylesheet.
+   *
+   * @internal
+   */
+  private _update(): void {
+    const rules = [SharedStyleSheet._BASE_CSS];
+    this._classes.forEach((rule) => rules.push(rule));
+    const css = rules.join("\n");
+
+    if (this._constructedSheet !== null) {
+      this._constructedSheet.replaceSync(css);
+    } else {
+      this._styleElement.textContent = css;
+    }
+  }
+}
+
+/**
+ * A constructable stylesheet. The DOM typings don't declare replaceSync yet.
+ *
+ * @internal
+ */
+interface IConstructableStyleSheet extends CSSStyleSheet {
+  replaceSync(text: string): void;
+}
+
+/**
+ * @internal
+ */
+interface IConstructableStyleSheetConstructor {
+  prototype: IConstructableStyleSheet;
+  new(): IConstructableStyleSheet;
+}
+
+/**
+ * A document or shadow root that can adopt constructable stylesheets.
+ *
+ * @internal
+ */
+type AdoptingRoot = (Document | ShadowRoot) & {adoptedStyleSheets: IConstructableStyleSheet[]};
@@ -0,0 +1,27 @@
+/*
+ * Copyright (c) 2019 Convergence Labs, Inc.
+ *
+ * This file is part of the CodeMirror Collaborative Extensions, which is
+ * released under the terms of the MIT license. A copy of the MIT license
+ * is usually provided as part of this source code package in the LICENCE
+ * file. If it was not, please see <https://opensource.org/licenses/MIT>
+ */
+
+/**
+ * A helper class that computes a 32 bit polynomial rolling hash of a string.
+ * Arithmetic is used rather than bitwise operators, so that the hash is
+ * unsigned. The intermediate values stay well within the safe integer range.
+ *
+ * @internal
+ */
+export class StringHash {
+  public static hash(text: string): number {
+    let hash = 0;
+    for (let i = 0; i < text.length; i++) {
+      hash = (hash * 31 + text.charCodeAt(i)) % StringHash._MODULUS;
+    }
+    return hash;
+  }
+
+  private static readonly _MODULUS = 0x100000000;
+}
@@ -0,0 +1,538 @@
+/*
+ * Copyright (c) 2019 Convergence Labs, Inc.
+ *
+ * This file is part of the CodeMirror Collaborative Extensions, which is
+ * released under the terms of the MIT license. A copy of the MIT license
+ * is usually provided as part of this source code package in the LICENCE
+ * file. If it was not, please see <https://opensource.org/licenses/MIT>
+ */
+
+import {ContentOperation} from "./ContentOperation";
+import {Validation} from "./Validation";
+
+/**
+ * A single component of a TextOperation. A positive number retains that many
+ * characters, a negative number deletes that many characters, and a string
+ * inserts that text.
+ */
+export type TextOperationComponent = number | string;
+
+/**
+ * The TextOperation class represents a change to an entire text document as a
+ * sequence of retain, insert and delete components that walk the document from
+ * start to finish. Operations can be applied, inverted, composed and
+ * transformed against concurrent operations, which is the basis of the
+ * operational transformation used by the TextOperationClient.
+ */
+export class TextOperation {
+
+  /**
+   * Creates a TextOperation from its JSON representation, as produced by
+   * toJSON().
+   *
+   * @param components
+   *   The array of operation components.
+   * @returns
+   *   The equivalent TextOperation.
+   */
+  public static fromJSON(components: TextOperationComponent[]): TextOperation {
+    Validation.assertArray(components, "components");
+
+    const operation = new TextOperation();
+    components.forEach((component) => {
+      if (TextOperation._isRetain(component)) {
+        operation.retain(component as number);
+      } else if (TextOperation._isInsert(component)) {
+        operation.insert(component as string);
+      } else if (TextOperation._isDelete(component)) {
+        operation.delete(-(component as number));
+      } else {
+        throw new Error("Unknown operation component: " + JSON.stringify(component));
+      }
+    });
+    return operation;
+  }
+
+  /**
+   * Creates an operation that represents a single insert, replace or delete
+   * within a document of the specified length.
+   *
+   * @param documentLength
+   *   The length of the document before the change.
+   * @param index
+   *   The index at which the change starts.
+   * @param length
+   *   The number of characters removed by the change.
+   * @param text
+   *   The text inserted by the change.
+   * @returns
+   *   The TextOperation representing the change.
+   */
+  public static fromChange(documentLength: number, index: number, length: number, text: string): TextOperation {
+    Validation.assertNumber(documentLength, "documentLength");
+    Validation.assertNumber(index, "index");
+    Validation.assertNumber(length, "length");
+    Validation.assertString(text, "text");
+
+    return new TextOperation()
+      .retain(index)
+      .delete(length)
+      .insert(text)
+      .retain(documentLength - index - length);
+  }
+
+  /**
+   * Transforms two operations, a and b, that were applied concurrently to the
+   * same document. The result is a pair [a', b'] such that
+   * b'.apply(a.apply(doc)) === a'.apply(b.apply(doc)). When both operations
+   * insert at the same index, the insert of operation a is placed first.
+   *
+   * @param a
+   *   The first concurrent operation.
+   * @param b
+   *   The second concurrent operation.
+   * @returns
+   *   The transformed pair of operations.
+   */
+  public static transform(a: TextOperation, b: TextOperation): [TextOperation, TextOperation] {
+    if (a.baseLength !== b.baseLength) {
+      throw new Error("Both operations must have the same base length.");
+    }
+
+    const aPrime = new TextOperation();
+    const bPrime = new TextOperation();
+    const aOps = a._components;
+    const bOps = b._components;
+    let i = 0;
+    let j = 0;
+    let aOp = aOps[i++];
+    let bOp = bOps[j++];
+
+    while (aOp !== undefined || bOp !== undefined) {
+      if (TextOperation._isInsert(aOp)) {
+        aPrime.insert(aOp as string);
+        bPrime.retain((aOp as string).length);
+        aOp = aOps[i++];
+        continue;
+      }
+
+      if (TextOperation._isInsert(bOp)) {
+        aPrime.retain((bOp as string).length);
+        bPrime.insert(bOp as string);
+        bOp = bOps[j++];
+        continue;
+      }
+
+      if (aOp === undefined || bOp === undefined) {
+        throw new Error("The operations can not be transformed because one is too short.");
+      }
+
+      const aLength = Math.abs(aOp as number);
+      const bLength = Math.abs(bOp as number);
+      const min = Math.min(aLength, bLength);
+
+      if (TextOperation._isRetain(aOp) && TextOperation._isRetain(bOp)) {
+        aPrime.retain(min);
+        bPrime.retain(min);
+      } else if (TextOperation._isDelete(aOp) && TextOperation._isRetain(bOp)) {
+        aPrime.delete(min);
+      } else if (TextOperation._isRetain(aOp) && TextOperation._isDelete(bOp)) {
+        bPrime.delete(min);
+      }
+      // When both operations delete the same range there is nothing left to do
+      // in either transformed operation.
+
+      aOp = TextOperation._consume(aOp as number, min, aOps[i++], () => i--);
+      bOp = TextOperation._consume(bOp as number, min, bOps[j++], () => j--);
+    }
+
+    return [aPrime, bPrime];
+  }
+
+  /**
+   * @internal
+   */
+  private static _isRetain(component: TextOperationComponent): boolean {
+    return typeof component === "number" && component > 0;
+  }
+
+  /**
+   * @internal
+   */
+  private static _isDelete(component: TextOperationComponent): boolean {
+    return typeof component === "number" && component < 0;
+  }
+
+  /**
+   * @internal
+   */
+  private static _isInsert(component: TextOperationComponent): boolean {
+    return typeof component === "string";
+  }
+
+  /**
+   * A helper that shortens a retain or delete component by the specified
+   * amount. If the component is fully consumed the next component is returned,
+   * otherwise the un-consumed remainder is returned and the "unread" callback
+   * is invoked so the caller can step back its iterator.
+   *
+   * @internal
+   */
+  private static _consume(component: number,
+                          amount: number,
+                          next: TextOperationComponent,
+                          unread: () => void): TextOperationComponent {
+    const remaining = Math.abs(component) - amount;
+    if (remaining === 0) {
+      return next;
+    }
+
+    unread();
+    return component > 0 ? remaining : -remaining;
+  }
+
+  /**
+   * The length of the document this operation can be applied to.
+   */
+  public baseLength: number;
+
+  /**
+   * The length of the document after this operation has been applied.
+   */
+  public targetLength: number;
+
+  /**
+   * The normalized components of this operation.
+   *
+   * @internal
+   */
+  private readonly _components: TextOperationComponent[];
+
+  /**
+   * Constructs a new, empty, TextOperation.
+   */
+  constructor() {
+    this._components = [];
+    this.baseLength = 0;
+    this.targetLength = 0;
+  }
+
+  /**
+   * Gets a copy of the components that make up this operation.
+   *
+   * @returns
+   *   The components of this operation.
+   */
+  public getComponents(): TextOperationComponent[] {
+    return this._components.slice(0);
+  }
+
+  /**
+   * Skips over the specified number of characters.
+   *
+   * @param length
+   *   The number of characters to retain.
+   * @returns
+   *   This operation, for chaining.
+   */
+  public retain(length: number): TextOperation {
+    Validation.assertNumber(length, "length");
+    if (length < 0) {
+      throw new Error(`length must be non-negative but was: ${length}`);
+    }
+
+    if (length === 0) {
+      return this;
+    }
+
+    this.baseLength += length;
+    this.targetLength += length;
+
+    const last = this._components.length - 1;
+    if (TextOperation._isRetain(this._components[last])) {
+      (this._components[last] as number) += length;
+    } else {
+      this._components.push(length);
+    }
+
+    return this;
+  }
+
+  /**
+   * Inserts text at the current position.
+   *
+   * @param text
+   *   The text to insert.
+   * @returns
+   *   This operation, for chaining.
+   */
+  public insert(text: string): TextOperation {
+    Validation.assertString(text, "text");
+
+    if (text === "") {
+      return this;
+    }
+
+    this.targetLength += text.length;
+
+    const components = this._components;
+    const last = components.length - 1;
+    if (TextOperation._isInsert(components[last])) {
+      (components[last] as string) += text;
+    } else if (TextOperation._isDelete(components[last])) {
+      // Inserts are always kept before deletes, since insert-then-delete and
+      // delete-then-insert are equivalent. This keeps operations canonical.
+      if (TextOperation._isInsert(components[last - 1])) {
+        (components[last - 1] as string) += text;
+      } else {
+        components.push(components[last]);
+        components[last] = text;
+      }
+    } else {
+      components.push(text);
+    }
+
+    return this;
+  }
+
+  /**
+   * Deletes the specified number of characters at the current position.
+   *
+   * @param length
+   *   The number of characters to delete.
+   * @returns
+   *   This operation, for chaining.
+   */
+  public delete(length: number): TextOperation {
+    Validation.assertNumber(length, "length");
+    if (length < 0) {
+      throw new Error(`length must be non-negative but was: ${length}`);
+    }
+
+    if (length === 0) {
+      return this;
+    }
+
+    this.baseLength += length;
+
+    const last = this._components.length - 1;
+    if (TextOperation._isDelete(this._components[last])) {
+      (this._components[last] as number) -= length;
+    } else {
+      this._components.push(-length);
+    }
+
+    return this;
+  }
+
+  /**
+   * Determines if this operation leaves the document unchanged.
+   *
+   * @returns
+   *   True if the operation only retains characters, false otherwise.
+   */
+  public isNoop(): boolean {
+    return this._components.length === 0 ||
+      (this._components.length === 1 && TextOperation._isRetain(this._components[0]));
+  }
+
+  /**
+   * Applies this operation to a string.
+   *
+   * @param document
+   *   The document to apply the operation to.
+   * @returns
+   *   The resulting document.
+   */
+  public apply(document: string): string {
+    if (document.length !== this.baseLength) {
+      throw new Error("The operation's base length must be equal to the document's length.");
+    }
+
+    const result: string[] = [];
+    let index = 0;
+    this._components.forEach((component) => {
+      if (TextOperation._isRetain(component)) {
+        result.push(document.slice(index, index + (component as number)));
+        index += component as number;
+      } else if (TextOperation._isInsert(component)) {
+        result.push(component as string);
+      } else {
+        index -= component as number;
+      }
+    });
+
+    return result.join("");
+  }
+
+  /**
+   * Computes the inverse of this operation. Applying the inverse to the result
+   * of this operation yields the original document.
+   *
+   * @param document
+   *   The document this operation was applied to.
+   * @returns
+   *   The inverse operation.
+   */
+  public invert(document: string): TextOperation {
+    const inverse = new TextOperation();
+    let index = 0;
+    this._components.forEach((component) => {
+      if (TextOperation._isRetain(component)) {
+        inverse.retain(component as number);
+        index += component as number;
+      } else if (TextOperation._isInsert(component)) {
+        inverse.delete((component as string).length);
+      } else {
+        inverse.insert(document.slice(index, index - (component as number)));
+        index -= component as number;
+      }
+    });
+
+    return inverse;
+  }
+
+  /**
+   * Composes this operation with an operation that directly follows it,
+   * producing a single operation with the same effect as applying both in
+   * sequence.
+   *
+   * @param other
+   *   The operation to apply after this operation.
+   * @returns
+   *   The composed operation.
+   */
+  public compose(other: TextOperation): TextOperation {
+    if (this.targetLength !== other.baseLength) {
+      throw new Error("The base length of the second operation must equal the target length of the first.");
+    }
+
+    const composed = new TextOperation();
+    const aOps = this._components;
+    const bOps = other._components;
+    let i = 0;
+    let j = 0;
+    let aOp = aOps[i++];
+    let bOp = bOps[j++];
+
+    while (aOp !== undefined || bOp !== undefined) {
+      if (TextOperation._isDelete(aOp)) {
+        composed.delete(-(aOp as number));
+        aOp = aOps[i++];
+        continue;
+      }
+
+      if (TextOperation._isInsert(bOp)) {
+        composed.insert(bOp as string);
+        bOp = bOps[j++];
+        continue;
+      }
+
+      if (aOp === undefined || bOp === undefined) {
+        throw new Error("The operations can not be composed because one is too short.");
+      }
+
+      if (TextOperation._isRetain(aOp)) {
+        const min = Math.min(aOp as number, Math.abs(bOp as number));
+        if (TextOperation._isRetain(bOp)) {
+          composed.retain(min);
+        } else {
+          composed.delete(min);
+        }
+        aOp = TextOperation._consume(aOp as number, min, aOps[i++], () => i--);
+        bOp = TextOperation._consume(bOp as number, min, bOps[j++], () => j--);
+      } else {
+        // aOp is an insert.
+        const text = aOp as string;
+        const min = Math.min(text.length, Math.abs(bOp as number));
+        if (TextOperation._isRetain(bOp)) {
+          composed.insert(text.slice(0, min));
+        }
+        // An insert followed by a delete of the same text cancels out.
+
+        if (min === text.length) {
+          aOp = aOps[i++];
+        } else {
+          aOp = text.slice(min);
+        }
+        bOp = TextOperation._consume(bOp as number, min, bOps[j++], () => j--);
+      }
+    }
+
+    return composed;
+  }
+
+  /**
+   * Converts this operation into the equivalent list of ContentOperations, as
+   * accepted by EditorContentManager.applyOperations. The indices of the
+   * resulting operations are relative to the document before this operation
+   * is applied.
+   *
+   * @returns
+   *   The equivalent ContentOperations.
+   */
+  public toContentOperations(): ContentOperation[] {
+    const operations: ContentOperation[] = [];
+    let index = 0;
+    this._components.forEach((component) => {
+      const previous = operations[operations.length - 1];
+      if (TextOperation._isRetain(component)) {
+        index += component as number;
+      } else if (TextOperation._isInsert(component)) {
+        operations.push({type: "insert", index, text: component as string});
+      } else if (previous && previous.type === "insert" && previous.index === index) {
+        const length = -(component as number);
+        operations[operations.length - 1] = {type: "replace", index, length, text: previous.text};
+        index -= component as number;
+      } else {
+        operations.push({type: "delete", index, length: -(component as number)});
+        index -= component as number;
+      }
+    });
+
+    return operations;
+  }
+
+  /**
+   * Determines if this operation is equal to another operation.
+   *
+   * @param other
+   *   The operation to compare to.
+   * @returns
+   *   True if the operations have identical components, false otherwise.
+   */
+  public equals(other: TextOperation): boolean {
+    if (this.baseLength !== other.baseLength ||
+      this.targetLength !== other.targetLength ||
+      this._components.length !== other._components.length) {
+      return false;
+    }
+
+    return this._components.every((component, i) => component === other._components[i]);
+  }
+
+  /**
+   * Gets the JSON representation of this operation.
+   *
+   * @returns
+   *   The array of operation components.
+   */
+  public toJSON(): TextOperationComponent[] {
+    return this.getComponents();
+  }
+
+  /**
+   * Gets a human readable representation of this operation.
+   */
+  public toString(): string {
+    return this._components.map((component) => {
+      if (TextOperation._isRetain(component)) {
+        return `retain ${component}`;
+      } else if (TextOperation._isInsert(component)) {
+        return `insert ${JSON.stringify(component)}`;
+      } else {
+        return `delete ${-(component as number)}`;
+      }
+    }).join(", ");
+  }
+}
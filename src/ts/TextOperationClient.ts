@@ -0,0 +1,382 @@
+/*
+ * Copyright (c) 2019 Convergence Labs, Inc.
+ *
+ * This file is part of the CodeMirror Collaborative Extensions, which is
+ * released under the terms of the MIT license. A copy of the MIT license
+ * is usually provided as part of this source code package in the LICENCE
+ * file. If it was not, please see <https://opensource.org/licenses/MIT>
+ */
+
+import {Editor} from "codemirror";
+import {EditorContentManager} from "./EditorContentManager";
+import {ITextOperationClientOptions} from "./ITextOperationClientOptions";
+import {TextOperation} from "./TextOperation";
+import {Validation} from "./Validation";
+
+/**
+ * The states of the TextOperationClient.
+ *
+ * - "synchronized": There are no local operations waiting on the server.
+ * - "awaiting-ack": A local operation was sent and has not been acknowledged.
+ * - "awaiting-with-buffer": A local operation was sent and has not been
+ *   acknowledged, and further local operations are buffered until it is.
+ */
+export type TextOperationClientState = "synchronized" | "awaiting-ack" | "awaiting-with-buffer";
+
+/**
+ * The sync status of the TextOperationClient.
+ *
+ * - "offline": The client is disconnected. Local operations are buffered.
+ * - "syncing": Local operations have been sent, and are waiting on the server.
+ * - "synced": The server has acknowledged every local operation.
+ */
+export type TextOperationClientSyncStatus = "offline" | "syncing" | "synced";
+
+/**
+ * The TextOperationClient keeps an editor consistent with a central server
+ * using operational transformation. Local changes captured by an
+ * EditorContentManager are sent to the server one operation at a time, while
+ * operations received from the server are transformed against any local
+ * operations the server has not yet seen before they are applied to the
+ * editor.
+ *
+ * While disconnected, local operations are composed into at most two pending
+ * operations. On reconnect, the operations the server received in the
+ * meantime are replayed with applyServerOperation (and serverAck, if the
+ * server did receive the outstanding operation), which rebases the pending
+ * operations on top of them, before they are sent.
+ */
+export class TextOperationClient {
+
+  /**
+   * Option defaults.
+   *
+   * @internal
+   */
+  private static readonly _DEFAULTS = {
+    revision: 0,
+    remoteOrigin: "remote"
+  };
+
+  /**
+   * Computes the length of the document in the same units as indexFromPos.
+   *
+   * @internal
+   */
+  private static _getDocumentLength(editor: Editor): number {
+    const lastLine = editor.lastLine();
+    return editor.indexFromPos({line: lastLine, ch: editor.getLine(lastLine).length});
+  }
+
+  /**
+   * The options that configure the TextOperationClient.
+   * @internal
+   */
+  private readonly _options: ITextOperationClientOptions;
+
+  /**
+   * Captures local changes and applies server operations.
+   * @internal
+   */
+  private readonly _contentManager: EditorContentManager;
+
+  /**
+   * The revision of the last server operation applied to the editor.
+   * @internal
+   */
+  private _revision: number;
+
+  /**
+   * The current state of the client.
+   * @internal
+   */
+  private _state: TextOperationClientState;
+
+  /**
+   * The operation that was sent to the server and is awaiting acknowledgement.
+   * @internal
+   */
+  private _outstanding: TextOperation | null;
+
+  /**
+   * Local operations composed together while waiting for an acknowledgement.
+   * @internal
+   */
+  private _buffer: TextOperation | null;
+
+  /**
+   * True while the client is disconnected from the server.
+   * @internal
+   */
+  private _offline: boolean;
+
+  /**
+   * The last sync status reported through onSyncStatusChanged.
+   * @internal
+   */
+  private _syncStatus: TextOperationClientSyncStatus;
+
+  /**
+   * The current length of the document, tracked so that local changes can be
+   * expressed as operations over the whole document.
+   * @internal
+   */
+  private _documentLength: number;
+
+  /**
+   * Constructs a new TextOperationClient using the supplied options.
+   *
+   * @param options
+   *   The options that configure the TextOperationClient.
+   */
+  constructor(options: ITextOperationClientOptions) {
+    this._options = {...TextOperationClient._DEFAULTS, ...options};
+
+    Validation.assertDefined(this._options, "options");
+    Validation.assertDefined(this._options.editor, "options.editor");
+    Validation.assertFunction(this._options.sendOperation, "options.sendOperation");
+    Validation.assertNumber(this._options.revision, "options.revision");
+
+    this._revision = this._options.revision;
+    this._state = "synchronized";
+    this._outstanding = null;
+    this._buffer = null;
+    this._offline = false;
+    this._syncStatus = "synced";
+    this._documentLength = TextOperationClient._getDocumentLength(this._options.editor);
+
+    this._contentManager = new EditorContentManager({
+      editor: this._options.editor,
+      remoteOrigin: this._options.remoteOrigin,
+      onInsert: (index, text) => this._onLocalChange(index, 0, text),
+      onReplace: (index, length, text) => this._onLocalChange(index, length, text),
+      onDelete: (index, length) => this._onLocalChange(index, length, "")
+    });
+  }
+
+  /**
+   * Gets the revision of the last server operation applied to the editor.
+   *
+   * @returns
+   *   The current revision.
+   */
+  public getRevision(): number {
+    return this._revision;
+  }
+
+  /**
+   * Gets the current state of the client.
+   *
+   * @returns
+   *   The current state.
+   */
+  public getState(): TextOperationClientState {
+    return this._state;
+  }
+
+  /**
+   * Gets the current sync status of the client.
+   *
+   * @returns
+   *   The current sync status.
+   */
+  public getSyncStatus(): TextOperationClientSyncStatus {
+    return this._syncStatus;
+  }
+
+  /**
+   * Gets the content manager that captures the local changes of the editor.
+   * Changes applied through it are not sent to the server.
+   *
+   * @returns
+   *   The content manager.
+   */
+  public getContentManager(): EditorContentManager {
+    return this._contentManager;
+  }
+
+  /**
+   * Resets the client after the editor was resynchronized with the content
+   * of the document at a revision of the server, for example by a
+   * DocumentVerifier. Local operations the server has not acknowledged are
+   * discarded, and the content of the editor is taken to be the content at
+   * the revision.
+   *
+   * @param revision
+   *   The revision the editor was resynchronized with.
+   */
+  public reset(revision: number): void {
+    Validation.assertNumber(revision, "revision");
+
+    this._revision = revision;
+    this._state = "synchronized";
+    this._outstanding = null;
+    this._buffer = null;
+    this._documentLength = TextOperationClient._getDocumentLength(this._options.editor);
+    this._updateSyncStatus();
+  }
+
+  /**
+   * Signals that the connection to the server was lost. Local operations are
+   * buffered until reconnect is called.
+   */
+  public disconnect(): void {
+    this._offline = true;
+    this._updateSyncStatus();
+  }
+
+  /**
+   * Signals that the connection to the server was restored. Before calling
+   * this method, the operations the server received since the current
+   * revision must be replayed with applyServerOperation, calling serverAck
+   * in place of the client's own outstanding operation if the server had
+   * received it. Any pending local operation is then sent to the server.
+   *
+   * The client does not fetch the missed operations itself, and this method
+   * does not check that they were replayed.
+   */
+  public reconnect(): void {
+    if (!this._offline) {
+      throw new Error("The client is not offline.");
+    }
+
+    this._offline = false;
+    if (this._outstanding !== null) {
+      this._options.sendOperation(this._revision, this._outstanding);
+    }
+    this._updateSyncStatus();
+  }
+
+  /**
+   * Applies an operation made by another client, as broadcast by the server,
+   * to the editor.
+   *
+   * @param operation
+   *   The operation received from the server.
+   */
+  public applyServerOperation(operation: TextOperation): void {
+    Validation.assertDefined(operation, "operation");
+
+    // The operation is transformed against the local operations the server
+    // has not seen, so every local change must have been reported first.
+    this._contentManager.flush();
+
+    this._revision++;
+
+    switch (this._state) {
+      case "synchronized":
+        this._applyOperation(operation);
+        break;
+      case "awaiting-ack": {
+        const [outstanding, transformed] = TextOperation.transform(this._outstanding, operation);
+        this._outstanding = outstanding;
+        this._applyOperation(transformed);
+        break;
+      }
+      case "awaiting-with-buffer": {
+        const [outstanding, transformed] = TextOperation.transform(this._outstanding, operation);
+        const [buffer, bufferTransformed] = TextOperation.transform(this._buffer, transformed);
+        this._outstanding = outstanding;
+        this._buffer = buffer;
+        this._applyOperation(bufferTransformed);
+        break;
+      }
+    }
+  }
+
+  /**
+   * Signals that the server has acknowledged the outstanding local operation.
+   */
+  public serverAck(): void {
+    switch (this._state) {
+      case "synchronized":
+        throw new Error("There is no pending operation to acknowledge.");
+      case "awaiting-ack":
+        this._revision++;
+        this._outstanding = null;
+        this._state = "synchronized";
+        break;
+      case "awaiting-with-buffer":
+        this._revision++;
+        this._outstanding = this._buffer;
+        this._buffer = null;
+        this._state = "awaiting-ack";
+        if (!this._offline) {
+          this._options.sendOperation(this._revision, this._outstanding);
+        }
+        break;
+    }
+    this._updateSyncStatus();
+  }
+
+  /**
+   * Disposes of the client, freeing any resources.
+   */
+  public dispose(): void {
+    this._contentManager.dispose();
+  }
+
+  /**
+   * Handles a change made by the local user.
+   *
+   * @internal
+   */
+  private _onLocalChange(index: number, length: number, text: string): void {
+    const operation = TextOperation.fromChange(this._documentLength, index, length, text);
+    this._documentLength = operation.targetLength;
+
+    switch (this._state) {
+      case "synchronized":
+        // While offline, the operation is held as the outstanding operation
+        // and sent on reconnect.
+        this._outstanding = operation;
+        this._state = "awaiting-ack";
+        if (!this._offline) {
+          this._options.sendOperation(this._revision, operation);
+        }
+        break;
+      case "awaiting-ack":
+        this._buffer = operation;
+        this._state = "awaiting-with-buffer";
+        break;
+      case "awaiting-with-buffer":
+        this._buffer = this._buffer.compose(operation);
+        break;
+    }
+    this._updateSyncStatus();
+  }
+
+  /**
+   * Reports the sync status through onSyncStatusChanged, if it has changed.
+   *
+   * @internal
+   */
+  private _updateSyncStatus(): void {
+    const status: TextOperationClientSyncStatus =
+      this._offline ? "offline" : this._state === "synchronized" ? "synced" : "syncing";
+
+    if (status !== this._syncStatus) {
+      this._syncStatus = status;
+      if (this._options.onSyncStatusChanged) {
+        this._options.onSyncStatusChanged(status);
+      }
+    }
+  }
+
+  /**
+   * Applies an operation to the editor without emitting it as a local change.
+   *
+   * @internal
+   */
+  private _applyOperation(operation: TextOperation): void {
+    if (operation.baseLength !== this._documentLength) {
+      throw new Error(
+        `The operation's base length (${operation.baseLength}) does not match the document length ` +
+        `(${this._documentLength}).`);
+    }
+
+    this._contentManager.applyOperations(operation.toContentOperations());
+
+    this._documentLength = operation.targetLength;
+  }
+}
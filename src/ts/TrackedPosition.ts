@@ -0,0 +1,137 @@
+/*
+ * Copyright (c) 2019 Convergence Labs, Inc.
+ *
+ * This file is part of the CodeMirror Collaborative Extensions, which is
+ * released under the terms of the MIT license. A copy of the MIT license
+ * is usually provided as part of this source code package in the LICENCE
+ * file. If it was not, please see <https://opensource.org/licenses/MIT>
+ */
+
+import {Doc, EditorChange, Position} from "codemirror";
+
+/**
+ * A callback that is invoked when a TrackedPosition was moved by an edit.
+ *
+ * @internal
+ */
+export type OnPositionChanged = (position: Position) => void;
+
+/**
+ * A TrackedPosition is a location in the document that moves along with the
+ * text around it as the document is edited, by either local or remote users.
+ * It is backed by a CodeMirror bookmark, so CodeMirror does the position
+ * math as part of applying each change. TrackedPositions are created by the
+ * PositionTracker.
+ *
+ * @internal
+ */
+export class TrackedPosition {
+
+  private readonly _doc: Doc;
+  private readonly _insertLeft: boolean;
+  private readonly _onChanged: OnPositionChanged;
+  private readonly _onDisposed: (trackedPosition: TrackedPosition) => void;
+  private _bookmark: IBookmark;
+  private _position: Position;
+  private _disposed: boolean;
+
+  constructor(doc: Doc,
+              position: Position,
+              insertLeft: boolean,
+              onChanged: OnPositionChanged,
+              onDisposed: (trackedPosition: TrackedPosition) => void) {
+    this._doc = doc;
+    this._insertLeft = insertLeft;
+    this._onChanged = onChanged;
+    this._onDisposed = onDisposed;
+    this._disposed = false;
+    this._bookmark = null;
+
+    this.setPosition(position);
+  }
+
+  /**
+   * Gets the current position.
+   */
+  public getPosition(): Position {
+    return {...this._position};
+  }
+
+  /**
+   * Gets the current position as a zero-based text index.
+   */
+  public getIndex(): number {
+    return this._doc.indexFromPos(this._position);
+  }
+
+  /**
+   * Moves the tracked position to a new location.
+   */
+  public setPosition(position: Position): void {
+    if (this._bookmark !== null) {
+      this._bookmark.clear();
+    }
+
+    this._position = this._clip(position);
+    this._bookmark = this._doc.setBookmark(this._position, {insertLeft: this._insertLeft});
+  }
+
+  public isDisposed(): boolean {
+    return this._disposed;
+  }
+
+  public dispose(): void {
+    if (this._disposed) {
+      return;
+    }
+
+    this._bookmark.clear();
+    this._disposed = true;
+    this._onDisposed(this);
+  }
+
+  /**
+   * Reads the position of the bookmark after the document has changed,
+   * notifying the listener if the position moved.
+   *
+   * @param change
+   *   The change that was made, if known.
+   */
+  public update(change?: EditorChange): void {
+    const found = this._bookmark.find();
+    let position: Position;
+    if (found && "line" in found) {
+      position = found;
+    } else if (change !== undefined) {
+      // CodeMirror drops a bookmark within a deleted range. The position
+      // moves to the start of the change, and is tracked from there.
+      position = this._clip(change.from);
+      this._bookmark = this._doc.setBookmark(position, {insertLeft: this._insertLeft});
+    } else {
+      position = this._clip(this._position);
+    }
+    if (position.line !== this._position.line || position.ch !== this._position.ch) {
+      this._position = {line: position.line, ch: position.ch};
+      this._onChanged(this.getPosition());
+    }
+  }
+
+  /**
+   * Clips a position so that it is within the document.
+   */
+  private _clip(position: Position): Position {
+    const clipped = this._doc.posFromIndex(this._doc.indexFromPos(position));
+    return {line: clipped.line, ch: clipped.ch};
+  }
+}
+
+/**
+ * A CodeMirror bookmark. The typings declare the range form of find(), but
+ * for a bookmark CodeMirror returns a single position.
+ *
+ * @internal
+ */
+interface IBookmark {
+  find(): Position | {from: Position, to: Position} | undefined;
+  clear(): void;
+}
@@ -0,0 +1,131 @@
+/*
+ * Copyright (c) 2019 Convergence Labs, Inc.
+ *
+ * This file is part of the CodeMirror Collaborative Extensions, which is
+ * released under the terms of the MIT license. A copy of the MIT license
+ * is usually provided as part of this source code package in the LICENCE
+ * file. If it was not, please see <https://opensource.org/licenses/MIT>
+ */
+
+import {TextOperation} from "./TextOperation";
+
+/**
+ * The UndoManager keeps the undo and redo history of the local user only.
+ * Each stack holds the inverse operations that will revert a local change.
+ * When a remote change is applied to the document, every entry is transformed
+ * against it so that it still applies to the current document, which allows
+ * the local user to undo their own changes without reverting the changes of
+ * other users.
+ *
+ * @internal
+ */
+export class UndoManager {
+
+  /**
+   * Transforms every operation in a stack against a concurrent operation. The
+   * most recent entry applies to the current document, and each earlier entry
+   * applies to the document as it was before the entry that follows it.
+   */
+  private static _transformStack(stack: IUndoEntry[], operation: TextOperation): void {
+    for (let i = stack.length - 1; i >= 0; i--) {
+      const [transformed, remaining] = TextOperation.transform(stack[i].operation, operation);
+      stack[i].operation = transformed;
+      operation = remaining;
+    }
+  }
+
+  private readonly _maxDepth: number;
+  private readonly _mergeDelay: number;
+  private readonly _undoStack: IUndoEntry[];
+  private readonly _redoStack: IUndoEntry[];
+
+  constructor(maxDepth: number, mergeDelay: number) {
+    this._maxDepth = maxDepth;
+    this._mergeDelay = mergeDelay;
+    this._undoStack = [];
+    this._redoStack = [];
+  }
+
+  public canUndo(): boolean {
+    return this._undoStack.length > 0;
+  }
+
+  public canRedo(): boolean {
+    return this._redoStack.length > 0;
+  }
+
+  /**
+   * Records the inverse of a new local change. Consecutive changes with the
+   * same "+" prefixed origin (e.g. typing) that happen close together are
+   * merged into a single undo step, mirroring CodeMirror's own history.
+   */
+  public addLocal(inverse: TextOperation, origin: string | undefined): void {
+    const now = Date.now();
+    const last = this._undoStack[this._undoStack.length - 1];
+    if (last &&
+      origin !== undefined &&
+      origin.charAt(0) === "+" &&
+      last.origin === origin &&
+      now - last.time < this._mergeDelay) {
+      last.operation = inverse.compose(last.operation);
+      last.time = now;
+    } else {
+      this._push(this._undoStack, {operation: inverse, origin, time: now});
+    }
+
+    this._redoStack.length = 0;
+  }
+
+  /**
+   * Records the inverse of a change made by undoing.
+   */
+  public addUndone(inverse: TextOperation): void {
+    this._push(this._redoStack, {operation: inverse, origin: undefined, time: 0});
+  }
+
+  /**
+   * Records the inverse of a change made by redoing.
+   */
+  public addRedone(inverse: TextOperation): void {
+    this._push(this._undoStack, {operation: inverse, origin: undefined, time: 0});
+  }
+
+  public popUndo(): TextOperation | null {
+    const entry = this._undoStack.pop();
+    return entry ? entry.operation : null;
+  }
+
+  public popRedo(): TextOperation | null {
+    const entry = this._redoStack.pop();
+    return entry ? entry.operation : null;
+  }
+
+  /**
+   * Transforms the history against a remote change.
+   */
+  public transform(operation: TextOperation): void {
+    UndoManager._transformStack(this._undoStack, operation);
+    UndoManager._transformStack(this._redoStack, operation);
+  }
+
+  public clear(): void {
+    this._undoStack.length = 0;
+    this._redoStack.length = 0;
+  }
+
+  private _push(stack: IUndoEntry[], entry: IUndoEntry): void {
+    stack.push(entry);
+    if (stack.length > this._maxDepth) {
+      stack.shift();
+    }
+  }
+}
+
+/**
+ * @internal
+ */
+interface IUndoEntry {
+  operation: TextOperation;
+  origin: string | undefined;
+  time: number;
+}
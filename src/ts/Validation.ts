@@ -13,7 +13,7 @@
  * @internal
  */
 export class Validation {
-  public static assertString(val: any, name: string): void {
+  public static assertString(val: unknown, name: string): asserts val is string {
     if (typeof val !== "string") {
       throw new Error(`${name} must be a string but was: ${val}`);
     }
@@ -25,6 +25,24 @@ export class Validation {
     }
   }
 
+  public static assertNonNegativeInteger(val: any, name: string): void {
+    if (typeof val !== "number" || !Number.isSafeInteger(val) || val < 0) {
+      throw new Error(`${name} must be a non-negative integer but was: ${val}`);
+    }
+  }
+
+  public static assertArray(val: unknown, name: string): asserts val is unknown[] {
+    if (!Array.isArray(val)) {
+      throw new Error(`${name} must be an array but was: ${JSON.stringify(val)}`);
+    }
+  }
+
+  public static assertObject(val: unknown, name: string): asserts val is {[field: string]: unknown} {
+    if (typeof val !== "object" || val === null) {
+      throw new Error(`${name} must be an object but was: ${JSON.stringify(val)}`);
+    }
+  }
+
   public static assertDefined(val: any, name: string): void {
     if (val === undefined || val === null) {
       throw new Error(`${name} must be a defined but was: ${val}`);
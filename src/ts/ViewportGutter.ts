@@ -0,0 +1,80 @@
+/*
+ * Copyright (c) 2019 Convergence Labs, Inc.
+ *
+ * This file is part of the CodeMirror Collaborative Extensions, which is
+ * released under the terms of the MIT license. A copy of the MIT license
+ * is usually provided as part of this source code package in the LICENCE
+ * file. If it was not, please see <https://opensource.org/licenses/MIT>
+ */
+
+import {Editor} from "codemirror";
+import {RemoteViewport} from "./RemoteViewport";
+
+/**
+ * Renders remote viewports into a gutter of the editor. Each line that is
+ * visible to one or more remote users gets a marker with a colored bar for
+ * each of them, side by side.
+ *
+ * @internal
+ */
+export class ViewportGutter {
+
+  private static _createMarker(viewports: RemoteViewport[], height: number): HTMLElement {
+    const marker = document.createElement("div");
+    marker.className = "codemirror-remote-viewport-marker";
+    marker.style.height = `${height}px`;
+    viewports.forEach((viewport) => {
+      const bar = document.createElement("span");
+      bar.className = "codemirror-remote-viewport-bar";
+      bar.style.background = viewport.getColor();
+      if (viewport.getLabel() !== undefined) {
+        bar.title = viewport.getLabel();
+      }
+      marker.appendChild(bar);
+    });
+    return marker;
+  }
+
+  private readonly _editor: Editor;
+  private readonly _gutter: string;
+
+  constructor(editor: Editor, gutter: string) {
+    this._editor = editor;
+    this._gutter = gutter;
+  }
+
+  /**
+   * Replaces the gutter markers with ones for the supplied viewports.
+   */
+  public render(viewports: RemoteViewport[]): void {
+    const lineCount = this._editor.lineCount();
+    const lines = new Map<number, RemoteViewport[]>();
+    viewports.forEach((remoteViewport) => {
+      const viewport = remoteViewport.getViewport();
+      if (!remoteViewport.isVisible() || viewport === null) {
+        return;
+      }
+
+      for (let line = viewport.from; line < Math.min(viewport.to, lineCount); line++) {
+        if (!lines.has(line)) {
+          lines.set(line, []);
+        }
+        lines.get(line).push(remoteViewport);
+      }
+    });
+
+    // Gutter markers are only as tall as their content, so the bars are
+    // sized to the height of a line of text.
+    const height = this._editor.defaultTextHeight();
+    this._editor.operation(() => {
+      this._editor.clearGutter(this._gutter);
+      lines.forEach((lineViewports, line) => {
+        this._editor.setGutterMarker(line, this._gutter, ViewportGutter._createMarker(lineViewports, height));
+      });
+    });
+  }
+
+  public dispose(): void {
+    this._editor.clearGutter(this._gutter);
+  }
+}
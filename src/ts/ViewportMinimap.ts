@@ -0,0 +1,70 @@
+/*
+ * Copyright (c) 2019 Convergence Labs, Inc.
+ *
+ * This file is part of the CodeMirror Collaborative Extensions, which is
+ * released under the terms of the MIT license. A copy of the MIT license
+ * is usually provided as part of this source code package in the LICENCE
+ * file. If it was not, please see <https://opensource.org/licenses/MIT>
+ */
+
+import {Editor} from "codemirror";
+import {EditorOverlay} from "./EditorOverlay";
+import {RemoteViewport} from "./RemoteViewport";
+
+/**
+ * Renders remote viewports as bars along the right edge of the editor, each
+ * in its own column, positioned as a percentage of the document height so
+ * that the whole document maps onto the height of the editor.
+ *
+ * @internal
+ */
+export class ViewportMinimap {
+
+  /**
+   * The width of a column, in pixels.
+   */
+  private static readonly _COLUMN_WIDTH = 5;
+
+  private readonly _editor: Editor;
+  private readonly _overlay: EditorOverlay;
+  private readonly _bars: HTMLDivElement[];
+
+  constructor(editor: Editor) {
+    this._editor = editor;
+    this._overlay = EditorOverlay.acquire(editor);
+    this._bars = [];
+  }
+
+  /**
+   * Re-renders the bars for the supplied viewports.
+   */
+  public render(viewports: RemoteViewport[]): void {
+    const visible = viewports.filter((viewport) => viewport.isVisible() && viewport.getViewport() !== null);
+
+    this._bars.splice(visible.length).forEach((bar) => bar.parentNode.removeChild(bar));
+    while (this._bars.length < visible.length) {
+      const bar = document.createElement("div");
+      bar.className = "codemirror-remote-viewport";
+      this._overlay.getViewportNode().appendChild(bar);
+      this._bars.push(bar);
+    }
+
+    const height = Math.max(1, this._editor.getScrollInfo().height);
+    visible.forEach((remoteViewport, i) => {
+      const viewport = remoteViewport.getViewport();
+      const top = this._editor.heightAtLine(viewport.from, "local");
+      const bottom = this._editor.heightAtLine(viewport.to, "local");
+      const bar = this._bars[i];
+      bar.style.background = remoteViewport.getColor();
+      bar.style.right = `${i * ViewportMinimap._COLUMN_WIDTH}px`;
+      bar.style.top = `${(top / height) * 100}%`;
+      bar.style.height = `${(Math.max(0, bottom - top) / height) * 100}%`;
+      bar.title = remoteViewport.getLabel() !== undefined ? remoteViewport.getLabel() : "";
+    });
+  }
+
+  public dispose(): void {
+    this._bars.splice(0).forEach((bar) => bar.parentNode.removeChild(bar));
+    this._overlay.release();
+  }
+}
@@ -7,10 +7,51 @@
  * file. If it was not, please see <https://opensource.org/licenses/MIT>
  */
 
+export * from "./EventEmitter";
+
 export * from "./RemoteCursorManager";
 export * from "./RemoteCursor";
+export * from "./RemoteCursorTooltip";
+export * from "./RemoteCursorActivityState";
+export * from "./IRemoteCursorEvents";
 
 export * from "./RemoteSelection";
 export * from "./RemoteSelectionManager";
+export * from "./ISelectionRange";
+export * from "./IRemoteSelectionEvents";
+
+export * from "./RemoteViewport";
+export * from "./RemoteViewportManager";
+export * from "./IViewport";
+
+export * from "./RemoteUserManager";
+export * from "./RemoteUser";
+export * from "./IRemoteUserUpdate";
+export * from "./ColorAllocator";
+
+export * from "./LocalSelectionManager";
+export * from "./ILocalSelection";
+export * from "./LocalViewportManager";
 
 export * from "./EditorContentManager";
+export * from "./ContentOperation";
+export * from "./IEditorContentManagerEvents";
+export * from "./AttributionTracker";
+export * from "./Attribution";
+
+export * from "./TextOperation";
+export * from "./TextOperationClient";
+
+export * from "./DocumentVerifier";
+export * from "./IDocumentChecksum";
+
+export * from "./CollaborationBinding";
+export * from "./CollaborationMessage";
+export * from "./MessageCodec";
+export * from "./ITransport";
+export * from "./InMemoryChannel";
+
+export * from "./CrdtDocument";
+export * from "./CrdtBinding";
+export * from "./CrdtEncoding";
+export * from "./CrdtUpdate";